@@ -0,0 +1,28 @@
+import { NextRequest } from "next/server";
+import { runSingleInference } from "@/lib/chat-pipeline";
+import { parseChatRequest } from "@/lib/chat-request";
+import { createChatStreamResponse } from "@/lib/chat-stream";
+import { inferRequestSchema } from "@/lib/chat-contract";
+
+// #region POSTハンドラ
+
+/**
+ * 1つの推論モデルのみを再実行するエンドポイント (失敗したモデルの再試行に使用)
+ * 指定されたモデルで応答を生成し、進捗を /api/chat と同じ NDJSON 形式のストリームで返します。
+ * (リクエスト自体が不正な場合のみ、通常のJSONエラーを返します)
+ */
+export async function POST(req: NextRequest) {
+  const request = await parseChatRequest(req, inferRequestSchema, {
+    getUsedModels: ({ model }) => [["model.provider", model]],
+  });
+  if (!request.ok) {
+    return request.response;
+  }
+  const { messages, model, systemPrompt } = request.data;
+  const { apiKeyPools } = request;
+
+  return createChatStreamResponse(req.signal, (emit, abortSignal) =>
+    runSingleInference({ apiKeyPools, messages, model, systemPrompt, abortSignal }, emit),
+  );
+}
+// #endregion
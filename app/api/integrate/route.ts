@@ -0,0 +1,28 @@
+import { NextRequest } from "next/server";
+import { runIntegration } from "@/lib/chat-pipeline";
+import { parseChatRequest } from "@/lib/chat-request";
+import { createChatStreamResponse } from "@/lib/chat-stream";
+import { integrateRequestSchema } from "@/lib/chat-contract";
+
+// #region POSTハンドラ
+
+/**
+ * 統合のみを再実行するエンドポイント
+ * 保存済みの個別応答を統合モデルでまとめ直し、進捗を /api/chat と同じ NDJSON 形式のストリームで返します。
+ * (リクエスト自体が不正な場合のみ、通常のJSONエラーを返します)
+ */
+export async function POST(req: NextRequest) {
+  const request = await parseChatRequest(req, integrateRequestSchema, {
+    getUsedModels: ({ integratorModel }) => [["integratorModel.provider", integratorModel]],
+  });
+  if (!request.ok) {
+    return request.response;
+  }
+  const { messages, modelResponses, integratorModel, systemPrompt } = request.data;
+  const { apiKeyPools } = request;
+
+  return createChatStreamResponse(req.signal, (emit, abortSignal) =>
+    runIntegration({ apiKeyPools, messages, modelResponses, integratorModel, systemPrompt, abortSignal }, emit),
+  );
+}
+// #endregion
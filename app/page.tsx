@@ -5,7 +5,8 @@ import { ConversationSidebar } from "@/components/conversation-sidebar";
 import { ChatView } from "@/components/chat-view";
 import { SettingsDialog } from "@/components/settings-dialog";
 import { useMobile } from "@/hooks/use-mobile";
-import { db, type Conversation } from "@/lib/db";
+import { db, type Conversation, type SummarizationPolicy } from "@/lib/db";
+import { createId } from "@/lib/ids";
 import { useToast } from "@/hooks/use-toast";
 
 /**
@@ -18,6 +19,8 @@ export default function Home() {
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [selectedConversationId, setSelectedConversationId] = useState<string | null>(null);
   const [conversations, setConversations] = useState<Conversation[]>([]);
+  /** 会話を開いたときに表示するメッセージ (分岐元へのリンクなどから開いた場合) */
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
   const isMobile = useMobile();
   const { toast } = useToast();
 
@@ -26,6 +29,12 @@ export default function Home() {
    */
   const selectedConversationData = conversations.find((c) => c.id === selectedConversationId) || null;
 
+  /**
+   * 選択中の会話が別の会話から分岐したものである場合、分岐元の会話 (削除されている場合は null)
+   */
+  const forkSourceConversation =
+    conversations.find((c) => c.id === selectedConversationData?.forkedFrom?.conversationId) || null;
+
   // アプリケーションマウント時にダークモードの初期化とDBの初期化を実行
   useEffect(() => {
     const isDarkMode = document.documentElement.classList.contains("dark");
@@ -73,7 +82,7 @@ export default function Home() {
    */
   const handleNewConversation = async () => {
     const newConversation: Conversation = {
-      id: `conv_${Date.now()}`,
+      id: createId("conv"),
       title: "新規チャット",
       createdAt: Date.now(),
       updatedAt: Date.now(),
@@ -112,6 +121,14 @@ export default function Home() {
     }
   };
 
+  /**
+   * チャット画面で保存された会話メタデータの変更を、会話の一覧に反映します。(DBへの書き込みは行わない)
+   * @param {Conversation} conversation - 保存済みの会話オブジェクト
+   */
+  const handleConversationSaved = (conversation: Conversation) => {
+    setConversations((prev) => prev.map((c) => (c.id === conversation.id ? conversation : c)));
+  };
+
   /**
    * 会話固有のシステムプロンプトを更新します。
    * @param {string} id - 更新する会話のID
@@ -127,6 +144,21 @@ export default function Home() {
     }
   };
 
+  /**
+   * 会話固有の要約ポリシーを更新します。
+   * @param {string} id - 更新する会話のID
+   * @param {SummarizationPolicy | undefined} summarization - 新しい要約ポリシー (undefined の場合はアプリ設定に従う)
+   */
+  const handleUpdateConversationSummarization = async (id: string, summarization: SummarizationPolicy | undefined) => {
+    const conversation = conversations.find((c) => c.id === id);
+    if (conversation) {
+      const updatedAt = Date.now();
+      const updated = { ...conversation, summarization, updatedAt };
+      await db.updateConversation(updated);
+      setConversations((prev) => prev.map((c) => (c.id === id ? updated : c)));
+    }
+  };
+
   /**
    * 既存の会話（履歴と設定を含む）を複製します。
    * @param {string} id - 複製元の会話ID
@@ -152,6 +184,42 @@ export default function Home() {
     }
   };
 
+  /**
+   * 選択中の会話の指定されたメッセージから分岐して、新しい会話を作成します。
+   * @param {string} messageId - 分岐するメッセージのID
+   */
+  const handleForkConversation = async (messageId: string) => {
+    if (!selectedConversationId) return;
+    try {
+      const newConversation = await db.forkConversation(selectedConversationId, messageId);
+
+      setConversations((prev) => [newConversation, ...prev]);
+
+      // 新しく作成した会話を選択状態にする
+      setSelectedConversationId(newConversation.id);
+
+      toast({
+        title: "新しい会話に分岐しました",
+      });
+    } catch (error) {
+      console.error("Failed to fork conversation:", error);
+      toast({
+        title: "分岐の作成に失敗しました",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * 会話を開き、指定されたメッセージを表示します。
+   * @param {string} conversationId - 開く会話のID
+   * @param {string} messageId - 表示するメッセージのID
+   */
+  const handleOpenMessage = (conversationId: string, messageId: string) => {
+    setSelectedConversationId(conversationId);
+    setFocusedMessageId(messageId);
+  };
+
   return (
     <div className="h-screen flex overflow-hidden bg-background">
       {/* --- デスクトップ用サイドバー --- */}
@@ -166,6 +234,7 @@ export default function Home() {
           onDeleteConversation={handleDeleteConversation}
           onUpdateConversationTitle={handleUpdateConversationTitle}
           onDuplicateConversation={handleDuplicateConversation}
+          onOpenMessage={handleOpenMessage}
         />
       )}
 
@@ -191,6 +260,10 @@ export default function Home() {
               onDeleteConversation={handleDeleteConversation}
               onUpdateConversationTitle={handleUpdateConversationTitle}
               onDuplicateConversation={handleDuplicateConversation}
+              onOpenMessage={(conversationId, messageId) => {
+                handleOpenMessage(conversationId, messageId);
+                toggleSidebar(); // 検索結果の選択時にドロワーを閉じる
+              }}
             />
           </div>
         </>
@@ -201,13 +274,19 @@ export default function Home() {
         selectedConversationData={selectedConversationData}
         onOpenSidebar={toggleSidebar}
         onOpenSettings={() => setIsSettingsOpen(true)}
-        onUpdateConversationTitle={handleUpdateConversationTitle}
+        onConversationSaved={handleConversationSaved}
         onNewConversation={handleNewConversation}
         onUpdateConversationSystemPrompt={handleUpdateConversationSystemPrompt}
+        onUpdateConversationSummarization={handleUpdateConversationSummarization}
+        forkSourceConversation={forkSourceConversation}
+        onForkConversation={handleForkConversation}
+        onOpenMessage={handleOpenMessage}
+        focusedMessageId={focusedMessageId}
+        onFocusedMessageShown={() => setFocusedMessageId(null)}
       />
 
       {/* --- 設定モーダル --- */}
-      <SettingsDialog open={isSettingsOpen} onOpenChange={setIsSettingsOpen} />
+      <SettingsDialog open={isSettingsOpen} onOpenChange={setIsSettingsOpen} onHistoryImported={initializeApp} />
     </div>
   );
 }
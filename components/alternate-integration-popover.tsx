@@ -0,0 +1,163 @@
+"use client";
+
+import { useState } from "react";
+import { Combine } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { db } from "@/lib/db";
+import type { IntegratorModelConfig } from "@/lib/chat-contract";
+import { getSuggestedModelNames } from "@/lib/model-catalog";
+import {
+  DEFAULT_INTEGRATION_FALLBACK,
+  DEFAULT_INTEGRATION_STRATEGY,
+  DEFAULT_INTEGRATION_TOP_K,
+  DEFAULT_PROVIDER_ID,
+  INTEGRATION_STRATEGIES,
+  LLM_PROVIDERS,
+} from "@/lib/constants";
+
+/**
+ * AlternateIntegrationPopoverコンポーネントのProps
+ */
+interface AlternateIntegrationPopoverProps {
+  /** 統合を実行するときのコールバック (選択された統合モデルの設定を受け取る) */
+  onRun: (integratorModel: IntegratorModelConfig) => void;
+}
+
+/**
+ * 統合モデルが設定されていない場合の初期値 (設定画面の統合モデルと同じ)
+ */
+const DEFAULT_ALTERNATE_INTEGRATOR: IntegratorModelConfig = {
+  provider: DEFAULT_PROVIDER_ID,
+  modelName: "zai-glm-4.6",
+  temperature: 0.5,
+  maxTokens: 30000,
+  strategy: DEFAULT_INTEGRATION_STRATEGY,
+  topK: DEFAULT_INTEGRATION_TOP_K,
+  fallback: DEFAULT_INTEGRATION_FALLBACK,
+};
+
+/**
+ * 保存済みの個別応答を、別の統合モデル・統合戦略で統合し直すためのポップオーバー。
+ * 開くたびに、設定画面の統合モデルを初期値として読み込みます。(ここでの変更は設定には保存されません)
+ * @param {AlternateIntegrationPopoverProps} props
+ */
+export function AlternateIntegrationPopover({ onRun }: AlternateIntegrationPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const [integratorModel, setIntegratorModel] = useState<IntegratorModelConfig>(DEFAULT_ALTERNATE_INTEGRATOR);
+
+  /**
+   * ポップオーバーの開閉ハンドラ。開いたときに統合モデルの設定を読み込みます。
+   * @param {boolean} nextOpen - 開くか
+   */
+  const handleOpenChange = async (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) return;
+    try {
+      const settings = await db.getAppSettings();
+      const current = { ...DEFAULT_ALTERNATE_INTEGRATOR, ...settings?.integratorModel };
+      // 「統合しない」戦略が設定されている場合は、デフォルトの戦略を初期値とする
+      setIntegratorModel(
+        current.strategy === "pass-through" ? { ...current, strategy: DEFAULT_INTEGRATION_STRATEGY } : current,
+      );
+    } catch (error) {
+      console.error("Failed to load integrator settings:", error);
+    }
+  };
+
+  /**
+   * 選択された設定で統合を実行し、ポップオーバーを閉じます。
+   */
+  const handleRun = () => {
+    setOpen(false);
+    onRun({ ...integratorModel, modelName: integratorModel.modelName.trim() });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-7 w-7" title="別の統合を試す">
+          <Combine className="h-3.5 w-3.5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 space-y-4">
+        <p className="text-sm font-semibold">別の統合を試す</p>
+        <div className="space-y-2">
+          <Label htmlFor="alternate-integration-strategy" className="text-xs">
+            統合戦略
+          </Label>
+          <Select
+            value={integratorModel.strategy}
+            onValueChange={(value) =>
+              setIntegratorModel((prev) => ({ ...prev, strategy: value as IntegratorModelConfig["strategy"] }))
+            }
+          >
+            <SelectTrigger id="alternate-integration-strategy" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {/* 「統合しない」は統合モデルを呼び出さないため除外 */}
+              {INTEGRATION_STRATEGIES.filter((s) => s.id !== "pass-through").map((s) => (
+                <SelectItem key={s.id} value={s.id}>
+                  {s.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="alternate-integration-provider" className="text-xs">
+            プロバイダー
+          </Label>
+          <Select
+            value={integratorModel.provider}
+            onValueChange={(provider) => setIntegratorModel((prev) => ({ ...prev, provider }))}
+          >
+            <SelectTrigger id="alternate-integration-provider" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LLM_PROVIDERS.map((p) => (
+                <SelectItem key={p.id} value={p.id}>
+                  {p.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="alternate-integration-model" className="text-xs">
+            モデル名
+          </Label>
+          <Input
+            id="alternate-integration-model"
+            className="font-mono"
+            list="alternate-integration-model-suggestions"
+            value={integratorModel.modelName}
+            onChange={(e) => setIntegratorModel((prev) => ({ ...prev, modelName: e.target.value }))}
+          />
+          {/* サジェストはCerebras・モックのモデルのみ (他のプロバイダーはカスタム入力) */}
+          <datalist id="alternate-integration-model-suggestions">
+            {getSuggestedModelNames(integratorModel.provider).map((name) => (
+              <option key={name} value={name} />
+            ))}
+          </datalist>
+        </div>
+        <Button
+          size="sm"
+          className="w-full"
+          onClick={handleRun}
+          disabled={!integratorModel.modelName.trim() || integratorModel.strategy === "pass-through"}
+        >
+          統合を実行
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          個別の応答は再生成せず、統合のみを実行します。結果は元の回答と並べて保存されます
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+}
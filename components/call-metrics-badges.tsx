@@ -0,0 +1,76 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import type { CallMetrics } from "@/lib/db";
+import { cn } from "@/lib/utils";
+
+/**
+ * CallMetricsBadgesコンポーネントのProps
+ */
+interface CallMetricsBadgesProps {
+  /** 表示する計測結果 */
+  metrics: CallMetrics;
+  /** (オプション) 先頭に表示するラベル (例: "統合") */
+  label?: string;
+  /** オプションの追加CSSクラス */
+  className?: string;
+}
+
+/**
+ * ミリ秒を表示用の文字列に変換します。(1秒以上は秒単位)
+ * @param {number} ms - ミリ秒
+ * @returns {string} 表示用の文字列
+ */
+function formatDuration(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+}
+
+/**
+ * モデル呼び出しの計測結果（トークン数・レイテンシなど）を小さなバッジの列として表示するコンポーネント。
+ * @param {CallMetricsBadgesProps} props
+ */
+export function CallMetricsBadges({ metrics, label, className }: CallMetricsBadgesProps) {
+  const items: { text: string; title: string }[] = [];
+
+  if (metrics.inputTokens !== undefined || metrics.outputTokens !== undefined) {
+    items.push({
+      text: `${metrics.inputTokens ?? "?"} → ${metrics.outputTokens ?? "?"} tok`,
+      title: "入力トークン数 → 出力トークン数",
+    });
+  }
+  if (metrics.timeToFirstTokenMs !== undefined) {
+    items.push({ text: `TTFT ${formatDuration(metrics.timeToFirstTokenMs)}`, title: "最初のトークンまでの時間" });
+  }
+  items.push({ text: formatDuration(metrics.latencyMs), title: "応答完了までの時間" });
+  if (metrics.finishReason) {
+    items.push({ text: metrics.finishReason, title: "終了理由" });
+  }
+  if (metrics.attempts > 1) {
+    items.push({ text: `${metrics.attempts}回目で成功`, title: "試行回数" });
+  }
+  if (metrics.droppedMessages) {
+    items.push({
+      text: `履歴${metrics.droppedMessages}件を省略`,
+      title: "コンテキストウィンドウに収めるために省略した古いメッセージの数",
+    });
+  }
+  if (metrics.keySuffix) {
+    items.push({ text: `key …${metrics.keySuffix}`, title: "使用したAPIキーの末尾" });
+  }
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-1", className)}>
+      {label && <span className="text-[10px] text-muted-foreground mr-1">{label}</span>}
+      {items.map((item) => (
+        <Badge
+          key={item.title}
+          variant="outline"
+          title={item.title}
+          className="px-1.5 py-0 text-[10px] font-normal text-muted-foreground"
+        >
+          {item.text}
+        </Badge>
+      ))}
+    </div>
+  );
+}
@@ -3,14 +3,102 @@
 import React, { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Menu, Settings, Send, Bot, Copy, RefreshCw, Loader2, ChevronDown, Pencil } from "lucide-react";
+import {
+  Menu,
+  Settings,
+  Send,
+  Bot,
+  Copy,
+  RefreshCw,
+  Loader2,
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  Pencil,
+  Square,
+  AlertTriangle,
+  ArrowUpToLine,
+  XCircle,
+  RotateCcw,
+  GitFork,
+  GitBranch,
+} from "lucide-react";
 import { useMobile } from "@/hooks/use-mobile";
 import { cn } from "@/lib/utils";
-import { db, type Message, type Conversation } from "@/lib/db";
-import { llmService } from "@/lib/llm-service";
+import {
+  db,
+  type AlternateAnswer,
+  type AppSettings,
+  type Message,
+  type Conversation,
+  type FailedModel,
+  type IntegrationInfo,
+  type ModelResponse,
+  type SummarizationPolicy,
+} from "@/lib/db";
+import { createId } from "@/lib/ids";
+import { llmService, isAbortError } from "@/lib/llm-service";
+import {
+  applyChatStreamEvent,
+  type ChatStreamEvent,
+  type HistoryCompaction,
+  type StreamingResponseState,
+} from "@/lib/chat-stream";
 import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
+import { promoteAlternateAnswer, promoteModelResponse } from "@/lib/message-answers";
+import { addVersion, getActiveVersionIndex, getVersions, selectVersion } from "@/lib/message-versions";
+import {
+  buildActivePath,
+  getBranchKey,
+  getPathTo,
+  getSiblings,
+  selectPathTo,
+  toModelContext,
+  type BranchSelections,
+} from "@/lib/message-tree";
 import { MarkdownRenderer } from "./markdown-renderer";
+import { CallMetricsBadges } from "./call-metrics-badges";
+import { ModelResponseCard } from "./model-response-card";
+import { INTEGRATION_FALLBACKS, INTEGRATION_STRATEGIES } from "@/lib/constants";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ConversationSummarizationSettings } from "./conversation-summarization-settings";
+import { AlternateIntegrationPopover } from "./alternate-integration-popover";
+import type { IntegratorModelConfig } from "@/lib/chat-contract";
+
+/**
+ * ストリーミング中の処理段階ごとの表示ラベル
+ */
+const STREAMING_PHASE_LABELS: Record<StreamingResponseState["phase"], string> = {
+  summarizing: "会話履歴を要約しています...",
+  inferring: "各モデルが回答を生成しています...",
+  integrating: "回答を統合しています...",
+};
+
+/**
+ * ストリーミング中の各モデルの状態ごとの表示ラベル
+ */
+const STREAMING_MODEL_STATUS_LABELS: Record<StreamingResponseState["models"][string]["status"], string> = {
+  streaming: "生成中",
+  done: "完了",
+  failed: "失敗",
+};
+
+/**
+ * 応答の統合に使用した統合モデルを、メッセージに記録する形式で取得します。
+ * @param {AppSettings} appSettings - 生成に使用したアプリ設定
+ * @param {IntegrationInfo | undefined} integration - 統合の実行内容 (統合していない場合は undefined)
+ * @returns {Message["integratorModel"]} 統合モデル (統合モデルを呼び出していない場合は undefined)
+ */
+function getUsedIntegratorModel(
+  appSettings: AppSettings,
+  integration: IntegrationInfo | undefined,
+): Message["integratorModel"] {
+  const integratorModel = appSettings.integratorModel;
+  if (!integration || integration.strategy === "pass-through" || !integratorModel) return undefined;
+  return { provider: integratorModel.provider, modelName: integratorModel.modelName };
+}
 
 /**
  * ChatViewコンポーネントのProps
@@ -22,12 +110,24 @@ interface ChatViewProps {
   onOpenSidebar: () => void;
   /** 設定ダイアログを開くためのコールバック */
   onOpenSettings: () => void;
-  /** 会話タイトルを更新するためのコールバック */
-  onUpdateConversationTitle: (id: string, title: string) => void;
+  /** チャット画面でDBに保存した会話メタデータの変更 (最初のメッセージによるタイトルの設定など) を反映するためのコールバック */
+  onConversationSaved: (conversation: Conversation) => void;
   /** 新規会話を作成するためのコールバック */
   onNewConversation: () => void;
   /** 会話のシステムプロンプトを更新するためのコールバック */
   onUpdateConversationSystemPrompt: (id: string, systemPrompt: string) => void;
+  /** 会話の要約ポリシーを更新するためのコールバック (undefined はアプリ設定に従うことを表す) */
+  onUpdateConversationSummarization: (id: string, summarization: SummarizationPolicy | undefined) => void;
+  /** 選択中の会話が別の会話から分岐したものである場合、分岐元の会話 (削除されている場合は null) */
+  forkSourceConversation: Conversation | null;
+  /** メッセージから分岐して新しい会話を作成するためのコールバック */
+  onForkConversation: (messageId: string) => void;
+  /** 会話を開いてメッセージを表示するためのコールバック (分岐元へのリンクで使用) */
+  onOpenMessage: (conversationId: string, messageId: string) => void;
+  /** 会話を開いたときに表示するメッセージのID (ない場合は null) */
+  focusedMessageId: string | null;
+  /** `focusedMessageId` のメッセージを表示した後に呼ばれるコールバック */
+  onFocusedMessageShown: () => void;
 }
 
 /**
@@ -38,10 +138,17 @@ export function ChatView({
   selectedConversationData,
   onOpenSidebar,
   onOpenSettings,
-  onUpdateConversationTitle,
+  onConversationSaved,
   onNewConversation,
   onUpdateConversationSystemPrompt,
+  onUpdateConversationSummarization,
+  forkSourceConversation,
+  onForkConversation,
+  onOpenMessage,
+  focusedMessageId,
+  onFocusedMessageShown,
 }: ChatViewProps) {
+  /** 会話のすべてのメッセージ (すべての分岐を含む) */
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
@@ -50,12 +157,30 @@ export function ChatView({
   const [currentSystemPrompt, setCurrentSystemPrompt] = useState("");
   const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
   const [editingContent, setEditingContent] = useState<string>("");
+  /** 別の統合結果を表示中のメッセージと、表示中の `alternateAnswers` のインデックス (元の回答を表示中の場合はなし) */
+  const [selectedAlternates, setSelectedAlternates] = useState<Record<string, number>>({});
+  /** 分岐点ごとに表示するメッセージ (選択がない分岐点では、最も新しいやり取りを含む分岐を表示) */
+  const [branchSelections, setBranchSelections] = useState<BranchSelections>({});
+  /** 応答を生成中のユーザーメッセージ (生成中は、このメッセージまでのパスを表示する) */
+  const [answeringMessageId, setAnsweringMessageId] = useState<string | null>(null);
+  /** サーバーからストリーミング中の応答 (生成中でない場合は null) */
+  const [streamingResponse, setStreamingResponse] = useState<StreamingResponseState | null>(null);
 
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  /** 生成中のリクエストを停止するためのAbortController */
+  const abortControllerRef = useRef<AbortController | null>(null);
+  /** 停止時に途中経過を保存するため、ストリーミング中の状態を非同期処理からも参照できるよう保持 */
+  const streamingResponseRef = useRef<StreamingResponseState | null>(null);
   const isMobile = useMobile();
   const { toast } = useToast();
 
+  // 表示中の分岐のパスと、そのうちモデルに送信されるメッセージ (要約に置き換えられたメッセージを除く)
+  const path = answeringMessageId
+    ? getPathTo(messages, answeringMessageId)
+    : buildActivePath(messages, branchSelections);
+  const contextIds = new Set(toModelContext(path).map((m) => m.id));
+
   // 選択中の会話が変更されたら、メッセージリストとシステムプロンプトを再読み込み
   useEffect(() => {
     if (selectedConversationData) {
@@ -68,10 +193,31 @@ export function ChatView({
     }
   }, [selectedConversationData]);
 
-  // メッセージリストが更新されたら、一番下にスクロール
+  // 別の会話に切り替えたら、分岐の選択をリセット (タイトルなどの更新では維持する)
+  useEffect(() => {
+    setBranchSelections({});
+  }, [selectedConversationData?.id]);
+
+  // アンマウント時に生成中のリクエストを中断（サーバー側の処理も停止させる）
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  // メッセージリスト（またはストリーミング中の応答）が更新されたら、一番下にスクロール
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [messages, streamingResponse]);
+
+  // 表示するメッセージが指定されている場合は、そのメッセージを含む分岐を表示してスクロール
+  // (会話の切り替え直後は、メッセージの読み込みが完了してから実行される)
+  useEffect(() => {
+    if (!focusedMessageId || !messages.some((m) => m.id === focusedMessageId)) return;
+    setBranchSelections((prev) => ({ ...prev, ...selectPathTo(messages, focusedMessageId) }));
+    requestAnimationFrame(() =>
+      document.getElementById(`message-${focusedMessageId}`)?.scrollIntoView({ block: "center" }),
+    );
+    onFocusedMessageShown();
+  }, [focusedMessageId, messages, onFocusedMessageShown]);
 
   /**
    * IndexedDBから指定された会話のメッセージを読み込みます。
@@ -91,6 +237,171 @@ export function ChatView({
     }
   };
 
+  /**
+   * サーバーから受信したストリームイベントを、ストリーミング表示用の状態に反映します。
+   * @param {ChatStreamEvent} event - 受信したイベント
+   */
+  const handleStreamEvent = (event: ChatStreamEvent) => {
+    streamingResponseRef.current = applyChatStreamEvent(streamingResponseRef.current, event);
+    setStreamingResponse(streamingResponseRef.current);
+  };
+
+  /**
+   * ストリーミングの状態を初期化し、停止用の AbortSignal を発行します。
+   * @returns {AbortSignal} サーバー呼び出しに渡すシグナル
+   */
+  const beginStreaming = (): AbortSignal => {
+    streamingResponseRef.current = null;
+    setStreamingResponse(null);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    return abortController.signal;
+  };
+
+  /**
+   * ストリーミングの状態を破棄します。(生成の成否に関わらず呼び出す)
+   */
+  const endStreaming = () => {
+    abortControllerRef.current = null;
+    streamingResponseRef.current = null;
+    setStreamingResponse(null);
+  };
+
+  /**
+   * 生成中のリクエストを停止します。
+   */
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  /**
+   * DBからアプリ設定を取得し、選択中の会話に固有の要約ポリシーがあれば上書きして返します。
+   * @returns {Promise<AppSettings>} サーバーに送信するアプリ設定
+   */
+  const getEffectiveAppSettings = async (): Promise<AppSettings> => {
+    const appSettings = (await db.getAppSettings()) || {};
+    const summarization = selectedConversationData?.summarization;
+    return summarization ? { ...appSettings, summarization } : appSettings;
+  };
+
+  /**
+   * サーバー側で実行された要約（履歴の圧縮）から、ローカルの履歴に追加する要約メッセージを作成します。
+   * 要約メッセージは要約に置き換えた最後のメッセージの子として追加され、それを含むパスでは
+   * 要約されたメッセージがコンテキストから除外されます。(要約されたメッセージは表示用にそのまま残す)
+   * @param {string} conversationId - 対象の会話ID
+   * @param {HistoryCompaction | undefined} compaction - サーバーから返された圧縮の内容
+   * @returns {Message[]} 追加する要約メッセージ (要約が実行されなかった場合は空)
+   */
+  const toSummaryMessages = (conversationId: string, compaction: HistoryCompaction | undefined): Message[] =>
+    compaction ? [{ ...compaction.summaryMessage, conversationId }] : []; // 会話IDを強制
+
+  /**
+   * ユーザーの操作で作成・更新したメッセージ (と会話メタデータ) を1つのトランザクションで保存し、画面に反映します。
+   * 保存に失敗した場合は何も書き込まれず、画面の状態も変更されません。
+   * @param {object} changes - 保存する変更
+   * @param {Message[]} [changes.added] - 追加するメッセージ (作成順、表示中の未保存のメッセージを含む)
+   * @param {Message[]} [changes.updated] - 更新するメッセージ
+   * @param {Conversation} [changes.conversation] - 更新する会話メタデータ
+   */
+  const commitChanges = async ({
+    added = [],
+    updated = [],
+    conversation,
+  }: {
+    added?: Message[];
+    updated?: Message[];
+    conversation?: Conversation;
+  }) => {
+    await db.runInTransaction((work) => {
+      added.forEach((message) => work.addMessage(message));
+      updated.forEach((message) => work.updateMessage(message));
+      if (conversation) work.updateConversation(conversation);
+    });
+
+    const saved = new Map([...added, ...updated].map((m) => [m.id, m]));
+    setMessages((prev) => {
+      const shown = new Set(prev.map((m) => m.id));
+      return [...prev.map((m) => saved.get(m.id) ?? m), ...[...saved.values()].filter((m) => !shown.has(m.id))];
+    });
+    if (conversation) onConversationSaved(conversation);
+  };
+
+  /**
+   * 応答の生成前に表示した未保存のメッセージを、画面から取り除きます。(生成・保存に失敗した場合)
+   * @param {Message} message - 取り除くメッセージ
+   */
+  const discardPendingMessage = (message: Message) => {
+    setMessages((prev) => prev.filter((m) => m.id !== message.id));
+  };
+
+  /**
+   * 分岐点で表示するメッセージを選択します。
+   * @param {Message} message - 表示するメッセージ
+   */
+  const selectBranch = (message: Message) => {
+    setBranchSelections((prev) => ({ ...prev, [getBranchKey(message)]: message.id }));
+  };
+
+  /**
+   * 停止された生成の途中経過を、「停止済み」の回答として取り出します。
+   * @returns {Pick<Message, "content" | "modelResponses" | "stopped"> | null} 途中までの回答 (何も出力されていなかった場合は null)
+   */
+  const collectStoppedResponse = (): Pick<Message, "content" | "modelResponses" | "stopped"> | null => {
+    const partial = streamingResponseRef.current;
+    const modelResponses: ModelResponse[] = Object.values(partial?.models ?? {})
+      .filter((response) => response.content)
+      .map((response) => ({
+        model: response.model,
+        provider: response.provider,
+        content: response.content,
+        ...(response.status === "done" ? {} : { status: "stopped" as const }),
+      }));
+
+    if (!partial || (!partial.integratorContent && modelResponses.length === 0)) {
+      return null;
+    }
+    return {
+      // 統合前に停止した場合、応答が1つだけならそれを本文として扱う
+      content: partial.integratorContent || (modelResponses.length === 1 ? modelResponses[0].content : ""),
+      modelResponses,
+      stopped: true,
+    };
+  };
+
+  /**
+   * 停止された生成の途中経過を「停止済み」のアシスタントメッセージとして、応答先のユーザーメッセージとともに保存します。
+   * 何も出力されていなかった場合は、ユーザーメッセージのみを保存します。
+   * @param {Message} userMessage - 応答先の未保存のユーザーメッセージ
+   * @param {Conversation} [conversation] - あわせて更新する会話メタデータ
+   */
+  const saveStoppedResponse = async (userMessage: Message, conversation?: Conversation) => {
+    const stopped = collectStoppedResponse();
+    const stoppedMessage: Message | null = stopped && {
+      id: createId("msg"),
+      role: "assistant",
+      timestamp: Date.now(),
+      conversationId: userMessage.conversationId,
+      parentId: userMessage.id,
+      ...stopped,
+    };
+
+    try {
+      await commitChanges({ added: stoppedMessage ? [userMessage, stoppedMessage] : [userMessage], conversation });
+    } catch (error) {
+      console.error("Failed to save stopped response:", error);
+      discardPendingMessage(userMessage);
+      toast({ title: "メッセージの保存に失敗しました", variant: "destructive" });
+      return;
+    }
+
+    if (!stoppedMessage) {
+      toast({ title: "生成を停止しました", duration: 2000 });
+      return;
+    }
+    selectBranch(stoppedMessage);
+    toast({ title: "生成を停止しました", description: "途中までの応答を保存しました。", duration: 2000 });
+  };
+
   /**
    * メッセージ送信フォームのハンドラ
    * @param {React.FormEvent} e - フォームイベント
@@ -99,79 +410,101 @@ export function ChatView({
     e.preventDefault();
     if (!input.trim() || isLoading) return;
 
-    const conversationId = selectedConversationData?.id;
-    if (!conversationId) {
+    if (!selectedConversationData) {
       // もし会話が選択されていなければ、新しい会話を作成してから処理を続行
       // (このケースは通常、`onNewConversation` が先に呼ばれるため稀)
       await onNewConversation();
       return;
     }
 
+    const conversationId = selectedConversationData.id;
     const userMessage: Message = {
-      id: `msg_${Date.now()}`,
+      id: createId("msg"),
       role: "user",
       content: input,
       timestamp: Date.now(),
       conversationId,
+      // 表示中の分岐の末尾に続ける
+      parentId: path.findLast((m) => m.role !== "system")?.id,
     };
+    // 会話の最初のメッセージの場合、自動でタイトルを更新
+    const renamedConversation: Conversation | undefined =
+      messages.length === 0
+        ? {
+            ...selectedConversationData,
+            title: input.slice(0, 30) + (input.length > 30 ? "..." : ""),
+            updatedAt: Date.now(),
+          }
+        : undefined;
 
     try {
-      // 1. ユーザーメッセージをDBとStateに追加
-      await db.addMessage(userMessage);
+      // 1. ユーザーメッセージを表示 (DBには応答とあわせて保存する)
       const nextMessages = [...messages, userMessage];
       setMessages(nextMessages);
+      selectBranch(userMessage);
+      setAnsweringMessageId(userMessage.id);
       setInput("");
       setIsLoading(true);
 
-      // 2. 会話の最初のメッセージの場合、自動でタイトルを更新
-      if (nextMessages.length === 1) {
-        const title = input.slice(0, 30) + (input.length > 30 ? "..." : "");
-        onUpdateConversationTitle(conversationId, title);
-      }
-
-      // 3. DBから最新のモデル設定を取得
+      // 2. DBから最新のモデル設定を取得
       const modelSettings = await db.getModelSettings();
-      const appSettings = await db.getAppSettings();
-
-      // 4. APIに送信する総文字数を計算（要約トリガー判定用）
-      const totalContentLength = nextMessages.reduce((acc, msg) => acc + msg.content.length, 0);
-
-      // 5. サーバーAPIを呼び出し
-      const { content, modelResponses, summaryExecuted, newHistoryContext } =
-        await llmService.generateResponseWithDetails(
-          nextMessages,
-          modelSettings,
-          appSettings || {},
-          currentSystemPrompt,
-          totalContentLength,
-        );
-
-      // 6. アシスタントの応答メッセージを作成
+      const appSettings = await getEffectiveAppSettings();
+
+      // 3. サーバーAPIを呼び出し
+      const {
+        content,
+        modelResponses,
+        compaction,
+        summarizerMetrics,
+        integratorMetrics,
+        integration,
+        integrationFailure,
+        failedModels,
+        debateRounds,
+      } = await llmService.generateResponseWithDetails(
+        toModelContext(getPathTo(nextMessages, userMessage.id)),
+        modelSettings,
+        appSettings,
+        currentSystemPrompt,
+        handleStreamEvent,
+        beginStreaming(),
+      );
+
+      // 4. アシスタントの応答メッセージを作成
       const assistantMessage: Message = {
-        id: `msg_${Date.now() + 1}`,
+        id: createId("msg"),
         role: "assistant",
         content,
         timestamp: Date.now(),
         conversationId,
+        parentId: userMessage.id,
         modelResponses,
+        summarizerMetrics,
+        integratorMetrics,
+        integration,
+        integratorModel: getUsedIntegratorModel(appSettings, integration),
+        integrationFailure,
+        failedModels,
+        debateRounds,
       };
 
-      // 7. サーバー側で要約が実行された場合の処理
-      if (summaryExecuted && newHistoryContext) {
-        console.log("[Sync] サーバー側で要約が実行されました。クライアントの履歴を同期します。");
-        // DBの履歴をサーバー側の新しい履歴（要約＋ユーザー＋アシスタント）で完全に置き換え
-        const newFullHistory = [...newHistoryContext, userMessage, assistantMessage];
-        await db.replaceHistory(conversationId, newFullHistory);
-        setMessages(newFullHistory);
-      } else {
-        // 8. 通常の応答処理
-        await db.addMessage(assistantMessage);
-        setMessages((prev) => [...prev, assistantMessage]);
-      }
+      // 5. ユーザーメッセージ・応答・要約・タイトルを1つのトランザクションで保存
+      await commitChanges({
+        added: [userMessage, assistantMessage, ...toSummaryMessages(conversationId, compaction)],
+        conversation: renamedConversation,
+      });
+      selectBranch(assistantMessage);
 
       console.log("Response saved successfully");
     } catch (error) {
+      if (isAbortError(error)) {
+        await saveStoppedResponse(userMessage, renamedConversation);
+        return;
+      }
       console.error("Failed to generate response:", error);
+      // 何も保存されていないため、送信前の状態に戻す
+      discardPendingMessage(userMessage);
+      setInput((current) => current || userMessage.content);
       toast({
         title: "応答の生成に失敗しました",
         description: error instanceof Error ? error.message : "エラーが発生しました",
@@ -179,6 +512,8 @@ export function ChatView({
       });
     } finally {
       setIsLoading(false);
+      setAnsweringMessageId(null);
+      endStreaming();
     }
   };
 
@@ -214,20 +549,20 @@ export function ChatView({
 
   /**
    * AIの応答を再生成します。
+   * 新しい応答はアシスタントメッセージの新しいバージョンとして追加され、以前の回答は切り替えて参照できます。
+   * (再生成に失敗した場合、メッセージは変更しません)
    * @param {string} messageId - 再生成するアシスタントメッセージのID
    */
   const handleRegenerate = async (messageId: string) => {
     if (isLoading || !selectedConversationData) return;
 
-    const messageIndex = messages.findIndex((m) => m.id === messageId);
+    const assistantMessage = messages.find((m) => m.id === messageId);
+    const userMessage = messages.find((m) => m.id === assistantMessage?.parentId);
     // ユーザー/アシスタントのペアが見つからない場合は終了
-    if (messageIndex < 1) {
+    if (!assistantMessage || !userMessage) {
       return;
     }
 
-    const assistantMessage = messages[messageIndex];
-    const userMessage = messages[messageIndex - 1];
-
     if (userMessage.role !== "user" || assistantMessage.role !== "assistant") {
       toast({ title: "このメッセージは再生成できません", variant: "destructive" });
       return;
@@ -235,72 +570,345 @@ export function ChatView({
 
     const conversationId = selectedConversationData.id;
     // 再生成対象のアシスタントメッセージ *より前* の履歴をAPIに送信する
-    const historyToResend = messages.slice(0, messageIndex);
+    const historyToResend = getPathTo(messages, userMessage.id);
 
     setIsLoading(true);
+    setAnsweringMessageId(userMessage.id);
 
     try {
-      // 1. DBとStateから、再生成対象のメッセージ *以降* を削除
-      await db.deleteMessagesAfter(messageId, conversationId);
-      setMessages(historyToResend);
-
-      // 2. モデル設定を取得
+      // 1. モデル設定を取得
       const modelSettings = await db.getModelSettings();
-      const appSettings = await db.getAppSettings();
-
-      // 3. 総文字数を計算
-      const totalContentLength = historyToResend.reduce((acc, msg) => acc + msg.content.length, 0);
-
-      // 4. APIを呼び出し
-      const { content, modelResponses, summaryExecuted, newHistoryContext } =
-        await llmService.generateResponseWithDetails(
-          historyToResend,
-          modelSettings,
-          appSettings || {},
-          currentSystemPrompt,
-          totalContentLength,
-        );
-
-      // 5. 新しいアシスタントメッセージを作成
-      const newAssistantMessage: Message = {
-        id: `msg_${Date.now() + 1}`,
-        role: "assistant",
+      const appSettings = await getEffectiveAppSettings();
+
+      // 2. APIを呼び出し
+      const {
         content,
-        timestamp: Date.now(),
-        conversationId,
         modelResponses,
-      };
-
-      // 6. 再生成中に要約がトリガーされた場合の処理
-      if (summaryExecuted && newHistoryContext) {
-        console.warn("[Regenerate] 再生成中に要約がトリガーされました。履歴を同期します。");
+        compaction,
+        summarizerMetrics,
+        integratorMetrics,
+        integration,
+        integrationFailure,
+        failedModels,
+        debateRounds,
+      } = await llmService.generateResponseWithDetails(
+        toModelContext(historyToResend),
+        modelSettings,
+        appSettings,
+        currentSystemPrompt,
+        handleStreamEvent,
+        beginStreaming(),
+      );
 
-        // historyToResend の最後のメッセージ（＝ユーザーの質問）を履歴に含める
-        const lastUserMessage = historyToResend.at(-1);
-        const historyWithSummary =
-          lastUserMessage && lastUserMessage.role === "user"
-            ? [...newHistoryContext, lastUserMessage, newAssistantMessage]
-            : [...newHistoryContext, newAssistantMessage]; // フォールバック
+      // 3. 新しい回答を、元の回答を残したまま新しいバージョンとして追加
+      const updatedMessage = addVersion(assistantMessage, {
+        content,
+        modelResponses,
+        summarizerMetrics,
+        integratorMetrics,
+        integration,
+        integratorModel: getUsedIntegratorModel(appSettings, integration),
+        integrationFailure,
+        failedModels,
+        debateRounds,
+        createdAt: Date.now(),
+      });
 
-        await db.replaceHistory(conversationId, historyWithSummary);
-        setMessages(historyWithSummary);
-      } else {
-        // 7. 通常の再生成処理
-        await db.addMessage(newAssistantMessage);
-        setMessages((prev) => [...prev, newAssistantMessage]);
-        console.log("Response regenerated successfully");
-      }
+      // 4. 応答と要約を1つのトランザクションで保存
+      await commitChanges({ updated: [updatedMessage], added: toSummaryMessages(conversationId, compaction) });
+      selectAnswer(messageId, undefined);
+      console.log("Response regenerated successfully");
     } catch (error) {
+      if (isAbortError(error)) {
+        // 途中までの応答は、新しいバージョンとして保存する
+        const stopped = collectStoppedResponse();
+        if (!stopped) {
+          toast({ title: "生成を停止しました", duration: 2000 });
+          return;
+        }
+        const updatedMessage = addVersion(assistantMessage, { ...stopped, createdAt: Date.now() });
+        try {
+          await commitChanges({ updated: [updatedMessage] });
+        } catch (saveError) {
+          console.error("Failed to save stopped response:", saveError);
+          toast({ title: "メッセージの保存に失敗しました", variant: "destructive" });
+          return;
+        }
+        selectAnswer(messageId, undefined);
+        toast({ title: "生成を停止しました", description: "途中までの応答を保存しました。", duration: 2000 });
+        return;
+      }
       console.error("Failed to regenerate response:", error);
       toast({
         title: "再生成に失敗しました",
         description: error instanceof Error ? error.message : "エラーが発生しました",
         variant: "destructive",
       });
-      // エラーが発生した場合は、DBから最新の状態を再読み込みして復元
-      await loadMessages(conversationId);
     } finally {
       setIsLoading(false);
+      setAnsweringMessageId(null);
+      endStreaming();
+    }
+  };
+
+  /**
+   * アシスタントメッセージの保存済みの個別応答を、指定された統合モデルで統合し直します。(推論は再実行しない)
+   * @param {Message} message - 対象のアシスタントメッセージ
+   * @param {ModelResponse[]} modelResponses - 統合する個別応答
+   * @param {IntegratorModelConfig} integratorModel - 使用する統合モデルの設定
+   * @returns {Promise<ChatResult>} 統合の結果 (`done` イベントの内容)
+   */
+  const integrateStoredResponses = (
+    message: Message,
+    modelResponses: ModelResponse[],
+    integratorModel: IntegratorModelConfig,
+  ) =>
+    // 対象メッセージ *より前* の履歴と、保存済みの個別応答を送信する
+    llmService.integrateResponses(
+      toModelContext(getPathTo(messages, message.parentId)),
+      modelResponses,
+      integratorModel,
+      currentSystemPrompt,
+      handleStreamEvent,
+      beginStreaming(),
+    );
+
+  /**
+   * 保存済みの個別応答を別の統合モデル・統合戦略で統合し、元の回答と並べて保存します。
+   * 元の最終回答（会話のコンテキストに使用される `content`）は変更しません。
+   * @param {string} messageId - 対象のアシスタントメッセージのID
+   * @param {IntegratorModelConfig} integratorModel - 使用する統合モデルの設定
+   */
+  const handleAlternateIntegration = async (messageId: string, integratorModel: IntegratorModelConfig) => {
+    if (isLoading || !selectedConversationData) return;
+
+    const message = messages.find((m) => m.id === messageId);
+    if (!message?.modelResponses || message.modelResponses.length < 2) return;
+
+    setIsLoading(true);
+    try {
+      const { content, integratorMetrics, integration } = await integrateStoredResponses(
+        message,
+        message.modelResponses,
+        integratorModel,
+      );
+
+      const alternateAnswers = [
+        ...(message.alternateAnswers ?? []),
+        {
+          content,
+          integration,
+          integratorMetrics,
+          integratorModel: { provider: integratorModel.provider, modelName: integratorModel.modelName },
+          createdAt: Date.now(),
+        },
+      ];
+      const updatedMessage: Message = { ...message, alternateAnswers };
+      await commitChanges({ updated: [updatedMessage] });
+      // 作成した統合結果を表示する
+      selectAnswer(messageId, alternateAnswers.length - 1);
+    } catch (error) {
+      if (isAbortError(error)) {
+        toast({ title: "統合を停止しました", duration: 2000 });
+        return;
+      }
+      console.error("Failed to run alternate integration:", error);
+      toast({
+        title: "統合に失敗しました",
+        description: error instanceof Error ? error.message : "エラーが発生しました",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+      endStreaming();
+    }
+  };
+
+  /**
+   * アシスタントメッセージの保存済みの個別応答から、統合のみを再実行して最終回答を置き換えます。
+   * (統合に失敗したメッセージの再試行や、失敗したモデルの再試行後の再統合に使用)
+   * 成功した場合は統合失敗の警告を消します。(失敗した場合、メッセージは変更しません)
+   * @param {string} messageId - 対象のアシスタントメッセージのID
+   * @param {Message} [target] - (オプション) 統合するメッセージ (直前に更新し、まだ表示に反映されていないメッセージを渡す場合に使用)
+   */
+  const handleRetryIntegration = async (messageId: string, target?: Message) => {
+    if (isLoading || !selectedConversationData) return;
+
+    const message = target ?? messages.find((m) => m.id === messageId);
+    if (!message?.modelResponses || message.modelResponses.length < 2) return;
+
+    const appSettings = await getEffectiveAppSettings();
+    if (!appSettings.integratorModel) {
+      toast({ title: "統合モデルが設定されていません", variant: "destructive" });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { content, integratorMetrics, integration } = await integrateStoredResponses(
+        message,
+        message.modelResponses,
+        appSettings.integratorModel,
+      );
+
+      const updatedMessage: Message = {
+        ...message,
+        content,
+        integratorMetrics,
+        integration,
+        integratorModel: getUsedIntegratorModel(appSettings, integration),
+        integrationFailure: undefined,
+        promotedFrom: undefined,
+      };
+      await commitChanges({ updated: [updatedMessage] });
+      toast({ title: "統合に成功しました", duration: 2000 });
+    } catch (error) {
+      if (isAbortError(error)) {
+        toast({ title: "統合の再試行を停止しました", duration: 2000 });
+        return;
+      }
+      console.error("Failed to retry integration:", error);
+      toast({
+        title: "統合の再試行に失敗しました",
+        description: error instanceof Error ? error.message : "エラーが発生しました",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+      endStreaming();
+    }
+  };
+
+  /**
+   * 応答に失敗した推論モデルのみを再実行し、成功した応答をメッセージの個別応答に追加します。
+   * 成功した場合、最終回答はそのままにして、統合し直すかをトーストで確認します。
+   * @param {string} messageId - 対象のアシスタントメッセージのID
+   * @param {FailedModel} failedModel - 再実行するモデル
+   */
+  const handleRetryModel = async (messageId: string, failedModel: FailedModel) => {
+    if (isLoading || !selectedConversationData) return;
+
+    const message = messages.find((m) => m.id === messageId);
+    if (!message) return;
+
+    // 温度などは現在の設定を使用する (設定が削除されている場合は再試行できない)
+    const modelSettings = (await db.getModelSettings()).find((m) => m.id === failedModel.modelId);
+    if (!modelSettings) {
+      toast({ title: "このモデルの設定が見つかりません", variant: "destructive" });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      // 対象メッセージ *より前* の履歴を送信する
+      const { modelResponses } = await llmService.inferSingleModel(
+        toModelContext(getPathTo(messages, message.parentId)),
+        modelSettings,
+        currentSystemPrompt,
+        handleStreamEvent,
+        beginStreaming(),
+      );
+
+      const remainingFailures = message.failedModels?.filter((f) => f.modelId !== failedModel.modelId) ?? [];
+      const updatedMessage: Message = {
+        ...message,
+        modelResponses: [...(message.modelResponses ?? []), ...modelResponses],
+        failedModels: remainingFailures.length > 0 ? remainingFailures : undefined,
+      };
+      await commitChanges({ updated: [updatedMessage] });
+
+      toast({
+        title: `${failedModel.model} の応答を追加しました`,
+        description: "最終回答は変更されていません。",
+        // 追加した応答を最終回答に反映するには、統合し直す
+        action:
+          updatedMessage.modelResponses!.length > 1 ? (
+            <ToastAction altText="統合し直す" onClick={() => handleRetryIntegration(messageId, updatedMessage)}>
+              統合し直す
+            </ToastAction>
+          ) : undefined,
+      });
+    } catch (error) {
+      if (isAbortError(error)) {
+        toast({ title: "生成を停止しました", duration: 2000 });
+        return;
+      }
+      console.error("Failed to retry model:", error);
+      toast({
+        title: "モデルの再試行に失敗しました",
+        description: error instanceof Error ? error.message : "エラーが発生しました",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+      endStreaming();
+    }
+  };
+
+  /**
+   * アシスタントメッセージの最終回答を切り替えられるか (生成中や、要約によりコンテキストから除外されたメッセージは不可)
+   * @param {Message} message - アシスタントメッセージ
+   * @returns {boolean} 切り替えられる場合は true
+   */
+  const canChangeAnswer = (message: Message) => !isLoading && contextIds.has(message.id);
+
+  /**
+   * 最終回答を切り替えたメッセージを保存し、表示を最終回答に戻します。
+   * @param {Message} updatedMessage - 更新後のメッセージ
+   */
+  const saveChangedAnswer = async (updatedMessage: Message) => {
+    try {
+      await commitChanges({ updated: [updatedMessage] });
+      selectAnswer(updatedMessage.id, undefined);
+      toast({
+        title: "最終回答を変更しました",
+        description: "以降の会話では、この回答がコンテキストとして使用されます。",
+        duration: 2000,
+      });
+    } catch (error) {
+      console.error("Failed to change answer:", error);
+      toast({ title: "最終回答の変更に失敗しました", variant: "destructive" });
+    }
+  };
+
+  /**
+   * 個別応答を最終回答に採用します。(それまでの最終回答は別の回答として残ります)
+   * @param {string} messageId - 対象のアシスタントメッセージのID
+   * @param {number} responseIndex - 採用する応答の `modelResponses` 内の位置
+   */
+  const handlePromoteResponse = async (messageId: string, responseIndex: number) => {
+    const message = messages.find((m) => m.id === messageId);
+    if (!message) return;
+    await saveChangedAnswer(promoteModelResponse(message, responseIndex));
+  };
+
+  /**
+   * 別の回答 (`alternateAnswers`) を最終回答に採用します。
+   * @param {string} messageId - 対象のアシスタントメッセージのID
+   * @param {number} alternateIndex - 採用する回答の `alternateAnswers` 内の位置
+   */
+  const handlePromoteAlternate = async (messageId: string, alternateIndex: number) => {
+    const message = messages.find((m) => m.id === messageId);
+    if (!message) return;
+    await saveChangedAnswer(promoteAlternateAnswer(message, alternateIndex));
+  };
+
+  /**
+   * アシスタントメッセージの回答のバージョンを切り替えます。
+   * 選択したバージョンの回答が、以降の会話のコンテキストとして使用されます。
+   * @param {string} messageId - 対象のアシスタントメッセージのID
+   * @param {number} index - 選択するバージョンの位置
+   */
+  const handleSelectVersion = async (messageId: string, index: number) => {
+    const message = messages.find((m) => m.id === messageId);
+    if (!message) return;
+    try {
+      const updatedMessage = selectVersion(message, index);
+      await commitChanges({ updated: [updatedMessage] });
+      selectAnswer(messageId, undefined);
+    } catch (error) {
+      console.error("Failed to select version:", error);
+      toast({ title: "回答の切り替えに失敗しました", variant: "destructive" });
     }
   };
 
@@ -323,6 +931,7 @@ export function ChatView({
 
   /**
    * ユーザーメッセージを編集し、そこから会話をやり直します。
+   * 編集後のメッセージは元のメッセージの兄弟（別の分岐）として追加され、元のメッセージとその続きは残ります。
    */
   const handleEditAndRetry = async () => {
     if (isLoading || !selectedConversationData || !editingMessageId) return;
@@ -335,83 +944,96 @@ export function ChatView({
     }
 
     setIsLoading(true);
-    const messageIndex = messages.findIndex((m) => m.id === editingMessageId);
-    if (messageIndex === -1) {
+    const originalMessage = messages.find((m) => m.id === editingMessageId);
+    if (!originalMessage) {
       setIsLoading(false);
       return;
     }
 
+    const editedMessage: Message = {
+      id: createId("msg"),
+      role: "user",
+      content: newContent,
+      timestamp: Date.now(),
+      conversationId,
+      parentId: originalMessage.parentId,
+    };
+
     try {
-      // 1. 編集対象メッセージの *次* のメッセージ（AIの応答）が存在すれば、それ以降をDBから削除
-      const nextMessage = messages[messageIndex + 1];
-      if (nextMessage) {
-        await db.deleteMessagesAfter(nextMessage.id, conversationId);
-      }
+      // 1. 編集後のメッセージを、元のメッセージと同じ親の新しい分岐として表示 (DBには応答とあわせて保存する)
+      const nextMessages = [...messages, editedMessage];
+      setMessages(nextMessages);
+      selectBranch(editedMessage);
+      setAnsweringMessageId(editedMessage.id);
 
-      // 2. 編集対象メッセージの内容を更新
-      await db.updateMessageContent(editingMessageId, newContent);
+      // 2. モデル設定を取得
+      const modelSettings = await db.getModelSettings();
+      const appSettings = await getEffectiveAppSettings();
 
-      // 3. DBから最新の履歴（編集済み）を読み込み
-      const historyToResend = await db.getMessages(conversationId);
-      setMessages(historyToResend);
+      // 3. APIを呼び出し
+      const {
+        content,
+        modelResponses,
+        compaction,
+        summarizerMetrics,
+        integratorMetrics,
+        integration,
+        integrationFailure,
+        failedModels,
+        debateRounds,
+      } = await llmService.generateResponseWithDetails(
+        toModelContext(getPathTo(nextMessages, editedMessage.id)),
+        modelSettings,
+        appSettings,
+        currentSystemPrompt,
+        handleStreamEvent,
+        beginStreaming(),
+      );
 
-      // 4. モデル設定を取得
-      const modelSettings = await db.getModelSettings();
-      const appSettings = await db.getAppSettings();
-      const totalContentLength = historyToResend.reduce((acc, msg) => acc + msg.content.length, 0);
-
-      // 5. APIを呼び出し
-      const { content, modelResponses, summaryExecuted, newHistoryContext } =
-        await llmService.generateResponseWithDetails(
-          historyToResend,
-          modelSettings,
-          appSettings || {},
-          currentSystemPrompt,
-          totalContentLength,
-        );
-
-      // 6. 新しいアシスタントメッセージを作成
+      // 4. 新しいアシスタントメッセージを作成
       const assistantMessage: Message = {
-        id: `msg_${Date.now() + 1}`,
+        id: createId("msg"),
         role: "assistant",
         content,
         timestamp: Date.now(),
         conversationId,
+        parentId: editedMessage.id,
         modelResponses,
+        summarizerMetrics,
+        integratorMetrics,
+        integration,
+        integratorModel: getUsedIntegratorModel(appSettings, integration),
+        integrationFailure,
+        failedModels,
+        debateRounds,
       };
 
-      // 7. 編集・やり直し中に要約がトリガーされた場合の処理
-      if (summaryExecuted && newHistoryContext) {
-        console.warn("[EditRetry] 編集・やり直し中に要約がトリガーされました。履歴を同期します。");
-
-        // historyToResend の最後のメッセージ（＝編集済みのユーザー質問）を履歴に含める
-        const editedUserMessage = historyToResend.at(-1);
-        const newFullHistory =
-          editedUserMessage && editedUserMessage.role === "user"
-            ? [...newHistoryContext, editedUserMessage, assistantMessage]
-            : [...newHistoryContext, assistantMessage]; // フォールバック
-
-        await db.replaceHistory(conversationId, newFullHistory);
-        setMessages(newFullHistory);
-      } else {
-        // 8. 通常のやり直し処理
-        await db.addMessage(assistantMessage);
-        setMessages((prev) => [...prev, assistantMessage]);
-      }
+      // 5. 編集後のメッセージ・応答・要約を1つのトランザクションで保存
+      await commitChanges({
+        added: [editedMessage, assistantMessage, ...toSummaryMessages(conversationId, compaction)],
+      });
+      selectBranch(assistantMessage);
     } catch (error) {
+      if (isAbortError(error)) {
+        await saveStoppedResponse(editedMessage);
+        return;
+      }
       console.error("Failed to edit and retry:", error);
+      // 何も保存されていないため、編集後のメッセージの分岐を取り除く
+      discardPendingMessage(editedMessage);
       toast({ title: "やり直しに失敗しました", variant: "destructive" });
-      await loadMessages(conversationId); // エラー時はDBから復元
     } finally {
       setIsLoading(false);
+      setAnsweringMessageId(null);
+      endStreaming();
       setEditingMessageId(null);
       setEditingContent("");
     }
   };
 
   /**
-   * 個別応答の開閉状態をトグルします。
-   * @param {string} messageId - 対象のアシスタントメッセージID
+   * 個別応答（または要約前のメッセージ）の開閉状態をトグルします。
+   * @param {string} messageId - 対象のアシスタントメッセージ（または要約メッセージ）のID
    */
   const toggleExpanded = (messageId: string) => {
     setExpandedMessages((prev) => {
@@ -425,6 +1047,165 @@ export function ChatView({
     });
   };
 
+  // 要約によりコンテキストから除外されたメッセージがある場合、モデルのコンテキストが始まる位置に区切り線を表示する
+  const contextStartId = path.some((m) => !contextIds.has(m.id))
+    ? path.find((m) => contextIds.has(m.id))?.id
+    : undefined;
+
+  /**
+   * 要約メッセージが置き換えた元のメッセージを取得します。
+   * @param {Message} summaryMessage - 要約メッセージ
+   * @returns {Message[]} 要約された元のメッセージ (表示中の履歴に残っているもののみ)
+   */
+  const getSummarizedMessages = (summaryMessage: Message) => {
+    const ids = new Set(summaryMessage.summarizedMessageIds);
+    return messages.filter((m) => ids.has(m.id));
+  };
+
+  /**
+   * アシスタントメッセージについて、表示中の最終回答（元の回答、または選択された別の統合結果）を取得します。
+   * @param {Message} message - アシスタントメッセージ
+   * @returns {Message | AlternateAnswer} 表示する最終回答
+   */
+  const getDisplayedAnswer = (message: Message): Message | AlternateAnswer =>
+    message.alternateAnswers?.[selectedAlternates[message.id]] ?? message;
+
+  /**
+   * アシスタントメッセージに表示する最終回答を切り替えます。
+   * @param {string} messageId - 対象のアシスタントメッセージのID
+   * @param {number | undefined} alternateIndex - 表示する `alternateAnswers` のインデックス (元の回答の場合は undefined)
+   */
+  const selectAnswer = (messageId: string, alternateIndex: number | undefined) => {
+    setSelectedAlternates((prev) => {
+      const next = { ...prev };
+      if (alternateIndex === undefined) {
+        delete next[messageId];
+      } else {
+        next[messageId] = alternateIndex;
+      }
+      return next;
+    });
+  };
+
+  /**
+   * 「< 2/3 >」形式の切り替えナビゲーションを描画します。(分岐・回答のバージョンで共通)
+   * @param {number} index - 表示中の位置 (0始まり)
+   * @param {number} count - 切り替えられる件数
+   * @param {(index: number) => void} onSelect - 位置を選択するコールバック
+   * @param {{ itemName: string; label?: string; title?: string; disabled: boolean }} options - ボタンの説明に使う名前など
+   */
+  const renderStepper = (
+    index: number,
+    count: number,
+    onSelect: (index: number) => void,
+    options: { itemName: string; label?: string; title?: string; disabled: boolean },
+  ) => (
+    <div className="flex items-center text-xs text-muted-foreground" title={options.title}>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7"
+        onClick={() => onSelect(index - 1)}
+        disabled={options.disabled || index === 0}
+        title={`前の${options.itemName}`}
+      >
+        <ChevronLeft className="h-3.5 w-3.5" />
+      </Button>
+      <span className="tabular-nums">
+        {options.label && `${options.label} `}
+        {index + 1}/{count}
+      </span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7"
+        onClick={() => onSelect(index + 1)}
+        disabled={options.disabled || index === count - 1}
+        title={`次の${options.itemName}`}
+      >
+        <ChevronRight className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  );
+
+  /**
+   * 兄弟の分岐があるメッセージについて、表示する分岐を切り替えるナビゲーションを描画します。
+   * @param {Message} message - ユーザーまたはアシスタントのメッセージ
+   */
+  const renderBranchNavigator = (message: Message) => {
+    const siblings = getSiblings(messages, message);
+    if (siblings.length < 2) return null;
+    return renderStepper(
+      siblings.findIndex((m) => m.id === message.id),
+      siblings.length,
+      (index) => selectBranch(siblings[index]),
+      { itemName: "分岐", disabled: isLoading },
+    );
+  };
+
+  /**
+   * 再生成した回答があるアシスタントメッセージについて、回答のバージョンを切り替えるナビゲーションを描画します。
+   * @param {Message} message - アシスタントメッセージ
+   */
+  const renderVersionNavigator = (message: Message) => {
+    const versions = getVersions(message);
+    if (versions.length < 2) return null;
+    const index = getActiveVersionIndex(message);
+    const { createdAt, integratorModel } = versions[index];
+    return renderStepper(index, versions.length, (i) => handleSelectVersion(message.id, i), {
+      itemName: "回答",
+      label: "回答",
+      title: `${new Date(createdAt).toLocaleString()} に生成${integratorModel ? ` (統合: ${integratorModel.modelName})` : ""}`,
+      disabled: !canChangeAnswer(message),
+    });
+  };
+
+  /**
+   * メッセージから分岐して新しい会話を作成するボタンを描画します。
+   * (要約によりコンテキストから除外されたメッセージからも分岐できる)
+   * @param {Message} message - ユーザーまたはアシスタントのメッセージ
+   */
+  const renderForkButton = (message: Message) => (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="h-7 w-7"
+      onClick={() => onForkConversation(message.id)}
+      title="ここから新しい会話に分岐"
+    >
+      <GitFork className="h-3.5 w-3.5" />
+    </Button>
+  );
+
+  /**
+   * 最終的な個別応答（統合に使用された応答）の一覧を、統合結果の補足付きで描画します。
+   * @param {Message} message - アシスタントメッセージ
+   */
+  const renderFinalModelResponses = (message: Message) => {
+    const { integration } = getDisplayedAnswer(message);
+    return message.modelResponses?.map((response, index) => (
+      <ModelResponseCard
+        key={index}
+        response={response}
+        onCopy={handleCopy}
+        onPromote={canChangeAnswer(message) ? () => handlePromoteResponse(message.id, index) : undefined}
+        annotations={
+          <>
+            {message.promotedFrom?.responseIndex === index && (
+              <span className="ml-2 font-normal text-primary">最終回答に使用中</span>
+            )}
+            {integration?.selectedIndices?.includes(index) && (
+              <span className="ml-2 font-normal text-primary">採用</span>
+            )}
+            {integration?.ranking?.includes(index) && (
+              <span className="ml-2 font-normal">{integration.ranking.indexOf(index) + 1}位</span>
+            )}
+          </>
+        }
+      />
+    ));
+  };
+
   return (
     <div className="flex-1 flex flex-col min-w-0">
       {/* --- ヘッダー --- */}
@@ -433,9 +1214,33 @@ export function ChatView({
           <Button variant="ghost" size="icon" onClick={onOpenSidebar} aria-label="サイドバーを開く">
             <Menu className="h-5 w-5" />
           </Button>
-          <h1 className="text-base font-semibold">
-            {selectedConversationData ? selectedConversationData.title : "新規チャット"}
-          </h1>
+          <div className="min-w-0">
+            <h1 className="text-base font-semibold">
+              {selectedConversationData ? selectedConversationData.title : "新規チャット"}
+            </h1>
+            {/* 分岐元の会話へのリンク */}
+            {selectedConversationData?.forkedFrom && (
+              <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                <GitBranch className="h-3 w-3" />
+                {forkSourceConversation ? (
+                  <button
+                    type="button"
+                    className="truncate underline-offset-2 hover:underline"
+                    onClick={() =>
+                      onOpenMessage(
+                        selectedConversationData.forkedFrom!.conversationId,
+                        selectedConversationData.forkedFrom!.messageId,
+                      )
+                    }
+                  >
+                    「{forkSourceConversation.title}」から分岐
+                  </button>
+                ) : (
+                  "分岐元の会話は削除されています"
+                )}
+              </p>
+            )}
+          </div>
         </div>
         <Button variant="ghost" size="icon" onClick={onOpenSettings} aria-label="設定を開く">
           <Settings className="h-5 w-5" />
@@ -444,7 +1249,7 @@ export function ChatView({
 
       {/* --- システムプロンプト入力欄 --- */}
       {selectedConversationData && (
-        <div className="p-4 border-b border-border">
+        <div className="p-4 border-b border-border flex items-stretch gap-2">
           <Textarea
             placeholder="システムプロンプト (この会話にのみ適用されます)"
             className="text-xs max-h-[100px] min-h-[50px] resize-none"
@@ -452,6 +1257,10 @@ export function ChatView({
             onChange={handleSystemPromptChange}
             onBlur={saveSystemPrompt} // フォーカスが外れたら自動保存
           />
+          <ConversationSummarizationSettings
+            summarization={selectedConversationData.summarization}
+            onChange={(summarization) => onUpdateConversationSummarization(selectedConversationData.id, summarization)}
+          />
         </div>
       )}
 
@@ -462,157 +1271,437 @@ export function ChatView({
             メッセージを送信して会話を開始しましょう
           </div>
         )}
-        {messages.map((message) => (
-          <React.Fragment key={message.id}>
-            {/* 要約などのシステムメッセージ */}
-            {message.role === "system" ? (
-              <div className="flex items-center justify-center">
-                <div className="max-w-[70%] rounded-lg border bg-card px-4 py-3 text-xs text-muted-foreground italic">
-                  <MarkdownRenderer content={message.content} className="text-xs" />
+        {/* 表示中の分岐のパス (新しい要約に引き継がれた古い要約は表示しない) */}
+        {path
+          .filter((message) => message.role !== "system" || contextIds.has(message.id))
+          .map((message) => (
+            <React.Fragment key={message.id}>
+              {/* モデルのコンテキストの開始位置 */}
+              {message.id === contextStartId && (
+                <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                  <div className="h-px flex-1 bg-border" />
+                  ここから下がモデルに送信されるコンテキストです
+                  <div className="h-px flex-1 bg-border" />
                 </div>
-              </div>
-            ) : (
-              // ユーザーまたはアシスタントのメッセージ
-              <div
-                className={cn("flex gap-3", message.role === "user" ? "justify-end" : "justify-start")}
-                onMouseEnter={() => setHoveredMessageId(message.id)}
-                onMouseLeave={() => setHoveredMessageId(null)}
-              >
-                {message.role === "assistant" && (
-                  <div className="w-8 h-8 rounded-md bg-primary flex items-center justify-center flex-shrink-0">
-                    <Bot className="w-5 h-5 text-primary-foreground" />
+              )}
+              {/* 要約などのシステムメッセージ */}
+              {message.role === "system" ? (
+                <div className="flex items-center justify-center">
+                  <div className="max-w-[70%] rounded-lg border bg-card px-4 py-3 text-xs text-muted-foreground italic">
+                    <MarkdownRenderer content={message.content} className="text-xs" />
+                    {/* 要約が置き換えた元のメッセージ */}
+                    {getSummarizedMessages(message).length > 0 && (
+                      <Collapsible
+                        open={expandedMessages.has(message.id)}
+                        onOpenChange={() => toggleExpanded(message.id)}
+                        className="mt-3 not-italic"
+                      >
+                        <CollapsibleTrigger asChild>
+                          <Button variant="ghost" size="sm" className="h-7 w-full justify-between text-xs">
+                            要約前のメッセージを表示 ({getSummarizedMessages(message).length})
+                            <ChevronDown
+                              className={cn(
+                                "h-3 w-3 transition-transform",
+                                expandedMessages.has(message.id) && "rotate-180",
+                              )}
+                            />
+                          </Button>
+                        </CollapsibleTrigger>
+                        <CollapsibleContent className="mt-2 space-y-2">
+                          {getSummarizedMessages(message).map((original) => (
+                            <div key={original.id} className="rounded-md border border-border bg-muted/30 p-2">
+                              <span className="font-semibold">
+                                {original.role === "user" ? "ユーザー" : "アシスタント"}
+                              </span>
+                              <p className="mt-1 line-clamp-4 whitespace-pre-wrap">{original.content}</p>
+                            </div>
+                          ))}
+                        </CollapsibleContent>
+                      </Collapsible>
+                    )}
                   </div>
-                )}
-
-                <div className="relative max-w-[70%] group">
-                  {/* ユーザーメッセージ編集中 */}
-                  {editingMessageId === message.id ? (
-                    <div className="w-full space-y-2">
-                      <Textarea
-                        value={editingContent}
-                        onChange={(e) => setEditingContent(e.target.value)}
-                        className="min-h-[80px]"
-                        autoFocus
-                      />
-                      <div className="flex justify-end gap-2">
-                        <Button variant="ghost" size="sm" onClick={handleCancelEdit}>
-                          キャンセル
-                        </Button>
-                        <Button size="sm" onClick={handleEditAndRetry} disabled={isLoading}>
-                          {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "保存して再生成"}
-                        </Button>
-                      </div>
+                </div>
+              ) : (
+                // ユーザーまたはアシスタントのメッセージ
+                <div
+                  className={cn(
+                    "flex gap-3",
+                    message.role === "user" ? "justify-end" : "justify-start",
+                    // 要約によりコンテキストから除外されたメッセージは薄く表示
+                    !contextIds.has(message.id) && "opacity-60",
+                  )}
+                  id={`message-${message.id}`}
+                  onMouseEnter={() => setHoveredMessageId(message.id)}
+                  onMouseLeave={() => setHoveredMessageId(null)}
+                >
+                  {message.role === "assistant" && (
+                    <div className="w-8 h-8 rounded-md bg-primary flex items-center justify-center flex-shrink-0">
+                      <Bot className="w-5 h-5 text-primary-foreground" />
                     </div>
-                  ) : (
-                    // 通常のメッセージ表示
-                    <div
-                      className={cn(
-                        "px-4 py-3 rounded-lg",
-                        message.role === "user"
-                          ? "bg-primary text-primary-foreground"
-                          : "bg-card text-card-foreground border border-border",
-                      )}
-                    >
-                      {/* メッセージ本文 */}
-                      {message.role === "assistant" ? (
-                        <MarkdownRenderer content={message.content} className="text-sm" />
-                      ) : (
-                        <p className="text-sm leading-relaxed whitespace-pre-wrap">{message.content}</p>
-                      )}
+                  )}
 
-                      {/* 個別応答の折りたたみ */}
-                      {message.role === "assistant" && message.modelResponses && message.modelResponses.length > 1 && (
-                        <Collapsible
-                          open={expandedMessages.has(message.id)}
-                          onOpenChange={() => toggleExpanded(message.id)}
-                          className="mt-4"
-                        >
-                          <CollapsibleTrigger asChild>
-                            <Button variant="outline" size="sm" className="w-full justify-between bg-transparent">
-                              <span className="text-xs">個別モデルの応答を表示 ({message.modelResponses.length})</span>
-                              <ChevronDown
-                                className={cn(
-                                  "h-4 w-4 transition-transform",
-                                  expandedMessages.has(message.id) && "rotate-180",
-                                )}
-                              />
-                            </Button>
-                          </CollapsibleTrigger>
-                          <CollapsibleContent className="mt-3 space-y-3">
-                            {message.modelResponses.map((response, index) => (
-                              <div key={index} className="border border-border rounded-md p-3 bg-muted/30">
-                                <div className="flex items-center justify-between mb-2">
-                                  <span className="text-xs font-semibold text-muted-foreground">{response.model}</span>
+                  <div className="relative max-w-[70%] group">
+                    {/* ユーザーメッセージ編集中 */}
+                    {editingMessageId === message.id ? (
+                      <div className="w-full space-y-2">
+                        <Textarea
+                          value={editingContent}
+                          onChange={(e) => setEditingContent(e.target.value)}
+                          className="min-h-[80px]"
+                          autoFocus
+                        />
+                        <div className="flex justify-end gap-2">
+                          <Button variant="ghost" size="sm" onClick={handleCancelEdit}>
+                            キャンセル
+                          </Button>
+                          <Button size="sm" onClick={handleEditAndRetry} disabled={isLoading}>
+                            {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "保存して再生成"}
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      // 通常のメッセージ表示
+                      <div
+                        className={cn(
+                          "px-4 py-3 rounded-lg",
+                          message.role === "user"
+                            ? "bg-primary text-primary-foreground"
+                            : "bg-card text-card-foreground border border-border",
+                        )}
+                      >
+                        {/* メッセージ本文 */}
+                        {message.role === "assistant" ? (
+                          <>
+                            {/* 別の統合結果がある場合の切り替え */}
+                            {message.alternateAnswers && message.alternateAnswers.length > 0 && (
+                              <div className="mb-3 flex flex-wrap gap-1">
+                                <Button
+                                  variant={selectedAlternates[message.id] === undefined ? "secondary" : "ghost"}
+                                  size="sm"
+                                  className="h-6 px-2 text-xs"
+                                  onClick={() => selectAnswer(message.id, undefined)}
+                                >
+                                  {message.promotedFrom ? `${message.promotedFrom.model} の回答` : "元の回答"}
+                                </Button>
+                                {message.alternateAnswers.map((alternate, index) => (
                                   <Button
-                                    variant="ghost"
-                                    size="icon"
-                                    className="h-6 w-6"
-                                    onClick={() => handleCopy(response.content)}
+                                    key={index}
+                                    variant={selectedAlternates[message.id] === index ? "secondary" : "ghost"}
+                                    size="sm"
+                                    className="h-6 px-2 text-xs"
+                                    title={
+                                      alternate.integratorModel &&
+                                      `${alternate.integratorModel.provider} / ${alternate.integratorModel.modelName}`
+                                    }
+                                    onClick={() => selectAnswer(message.id, index)}
                                   >
-                                    <Copy className="h-3 w-3" />
+                                    {alternate.integratorModel
+                                      ? `${
+                                          INTEGRATION_STRATEGIES.find((st) => st.id === alternate.integration?.strategy)
+                                            ?.label ?? "統合"
+                                        }: ${alternate.integratorModel.modelName}`
+                                      : "以前の最終回答"}
                                   </Button>
+                                ))}
+                                {/* 表示中の別の回答を、最終回答 (以降の会話のコンテキスト) に採用する */}
+                                {selectedAlternates[message.id] !== undefined && canChangeAnswer(message) && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="ml-auto h-6 px-2 text-xs"
+                                    onClick={() => handlePromoteAlternate(message.id, selectedAlternates[message.id])}
+                                  >
+                                    <ArrowUpToLine className="mr-1 h-3 w-3" />
+                                    この回答を使用
+                                  </Button>
+                                )}
+                              </div>
+                            )}
+                            {getDisplayedAnswer(message).integration?.strategy === "pass-through" &&
+                            message.modelResponses ? (
+                              // 統合しない戦略: 各モデルの応答を並べて表示
+                              <div className="grid gap-3 md:grid-cols-2">
+                                {message.modelResponses.map((response, index) => (
+                                  <ModelResponseCard
+                                    key={index}
+                                    response={response}
+                                    onCopy={handleCopy}
+                                    onPromote={
+                                      canChangeAnswer(message)
+                                        ? () => handlePromoteResponse(message.id, index)
+                                        : undefined
+                                    }
+                                  />
+                                ))}
+                              </div>
+                            ) : (
+                              <MarkdownRenderer content={getDisplayedAnswer(message).content} className="text-sm" />
+                            )}
+                            {message.stopped && (
+                              <p className="mt-2 text-xs text-muted-foreground italic">（生成を停止しました）</p>
+                            )}
+                            {/* 応答に失敗したモデル */}
+                            {message.failedModels && message.failedModels.length > 0 && (
+                              <div className="mt-3 flex flex-wrap gap-2">
+                                {message.failedModels.map((failed) => (
+                                  <div
+                                    key={failed.modelId}
+                                    className="flex items-center gap-1 rounded-full border border-destructive/50 bg-destructive/10 py-0.5 pl-3 pr-1 text-xs"
+                                    title={failed.error}
+                                  >
+                                    <XCircle className="h-3 w-3 text-destructive" />
+                                    <span className="font-mono">{failed.model}</span>
+                                    <span className="text-muted-foreground">
+                                      失敗{failed.status !== undefined && ` (${failed.status})`}
+                                    </span>
+                                    {contextIds.has(message.id) && (
+                                      <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-5 w-5 rounded-full"
+                                        onClick={() => handleRetryModel(message.id, failed)}
+                                        disabled={isLoading}
+                                        title="このモデルを再試行"
+                                      >
+                                        <RotateCcw className="h-3 w-3" />
+                                      </Button>
+                                    )}
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                            {/* 統合モデルが失敗し、フォールバックで最終回答を作成した場合の警告 */}
+                            {message.integrationFailure && (
+                              <div className="mt-3 flex items-start gap-2 rounded-md border border-amber-500/50 bg-amber-500/10 p-3 text-xs">
+                                <AlertTriangle className="h-4 w-4 flex-shrink-0 text-amber-500" />
+                                <div className="flex-1 space-y-1">
+                                  <p className="font-semibold">
+                                    統合モデルが失敗したため、代わりに「
+                                    {INTEGRATION_FALLBACKS.find((f) => f.id === message.integrationFailure?.fallback)
+                                      ?.label ?? message.integrationFailure.fallback}
+                                    」を使用しました
+                                  </p>
+                                  <p className="text-muted-foreground break-all">{message.integrationFailure.error}</p>
+                                  {contextIds.has(message.id) && (
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      className="h-7 text-xs"
+                                      onClick={() => handleRetryIntegration(message.id)}
+                                      disabled={isLoading}
+                                    >
+                                      <RefreshCw className="mr-1 h-3 w-3" />
+                                      統合を再試行
+                                    </Button>
+                                  )}
                                 </div>
-                                <MarkdownRenderer content={response.content} className="text-xs" />
                               </div>
-                            ))}
-                          </CollapsibleContent>
-                        </Collapsible>
-                      )}
-                    </div>
-                  )}
+                            )}
+                          </>
+                        ) : (
+                          <p className="text-sm leading-relaxed whitespace-pre-wrap">{message.content}</p>
+                        )}
 
-                  {/* アシスタント用操作ボタン */}
-                  {message.role === "assistant" && !isLoading && (
-                    <div className="absolute -bottom-8 left-0 flex gap-1">
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-7 w-7"
-                        onClick={() => handleCopy(message.content)}
-                        title="コピー"
-                      >
-                        <Copy className="h-3.5 w-3.5" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-7 w-7"
-                        onClick={() => handleRegenerate(message.id)}
-                        title="再生成"
-                      >
-                        <RefreshCw className="h-3.5 w-3.5" />
-                      </Button>
-                    </div>
-                  )}
+                        {/* 計測結果 (単一モデルの応答はそのモデル、複数の場合は統合モデル・要約モデル) */}
+                        {message.role === "assistant" && (
+                          <div className="mt-2 space-y-1 empty:hidden">
+                            {message.modelResponses?.length === 1 && message.modelResponses[0].metrics && (
+                              <CallMetricsBadges metrics={message.modelResponses[0].metrics} />
+                            )}
+                            {getDisplayedAnswer(message).integratorMetrics && (
+                              <CallMetricsBadges
+                                metrics={getDisplayedAnswer(message).integratorMetrics!}
+                                label={
+                                  INTEGRATION_STRATEGIES.find(
+                                    (s) => s.id === getDisplayedAnswer(message).integration?.strategy,
+                                  )?.label ?? "統合"
+                                }
+                              />
+                            )}
+                            {message.summarizerMetrics && (
+                              <CallMetricsBadges metrics={message.summarizerMetrics} label="要約" />
+                            )}
+                          </div>
+                        )}
 
-                  {/* ユーザー用操作ボタン */}
-                  {message.role === "user" && !isLoading && !editingMessageId && (
-                    <div className="absolute -bottom-8 right-0 flex gap-1">
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-7 w-7"
-                        onClick={() => handleCopy(message.content)}
-                        title="コピー"
-                      >
-                        <Copy className="h-3.5 w-3.5" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-7 w-7"
-                        onClick={() => handleEditClick(message)}
-                        title="編集して再生成"
-                      >
-                        <Pencil className="h-3.5 w-3.5" />
-                      </Button>
-                    </div>
-                  )}
+                        {/* 個別応答の折りたたみ */}
+                        {message.role === "assistant" &&
+                          message.modelResponses &&
+                          message.modelResponses.length > 1 &&
+                          getDisplayedAnswer(message).integration?.strategy !== "pass-through" && (
+                            <Collapsible
+                              open={expandedMessages.has(message.id)}
+                              onOpenChange={() => toggleExpanded(message.id)}
+                              className="mt-4"
+                            >
+                              <CollapsibleTrigger asChild>
+                                <Button variant="outline" size="sm" className="w-full justify-between bg-transparent">
+                                  <span className="text-xs">
+                                    個別モデルの応答を表示 ({message.modelResponses.length})
+                                    {message.debateRounds &&
+                                      message.debateRounds.length > 1 &&
+                                      ` / 討論 ${message.debateRounds.length}ラウンド`}
+                                  </span>
+                                  <ChevronDown
+                                    className={cn(
+                                      "h-4 w-4 transition-transform",
+                                      expandedMessages.has(message.id) && "rotate-180",
+                                    )}
+                                  />
+                                </Button>
+                              </CollapsibleTrigger>
+                              <CollapsibleContent className="mt-3 space-y-3">
+                                {/* 統合モデルによる判断の理由 (審査・多数決) */}
+                                {getDisplayedAnswer(message).integration?.rationale && (
+                                  <div className="rounded-md border border-dashed border-border p-3">
+                                    <p className="mb-1 text-xs font-semibold text-muted-foreground">統合モデルの判断</p>
+                                    <MarkdownRenderer
+                                      content={getDisplayedAnswer(message).integration!.rationale!}
+                                      className="text-xs"
+                                    />
+                                  </div>
+                                )}
+                                {message.debateRounds && message.debateRounds.length > 1 ? (
+                                  // 討論モード: ラウンドごとの応答をタブで切り替えて表示 (最終ラウンドは各モデルの最終的な立場)
+                                  <Tabs defaultValue={String(message.debateRounds.length - 1)}>
+                                    <TabsList className="w-full">
+                                      {message.debateRounds.map((_, round) => (
+                                        <TabsTrigger key={round} value={String(round)} className="text-xs">
+                                          ラウンド{round + 1}
+                                        </TabsTrigger>
+                                      ))}
+                                    </TabsList>
+                                    {message.debateRounds.map((roundResponses, round) => (
+                                      <TabsContent key={round} value={String(round)} className="mt-3 space-y-3">
+                                        {round === message.debateRounds!.length - 1
+                                          ? renderFinalModelResponses(message)
+                                          : roundResponses.map((response, index) => (
+                                              <ModelResponseCard key={index} response={response} onCopy={handleCopy} />
+                                            ))}
+                                      </TabsContent>
+                                    ))}
+                                  </Tabs>
+                                ) : (
+                                  renderFinalModelResponses(message)
+                                )}
+                              </CollapsibleContent>
+                            </Collapsible>
+                          )}
+                      </div>
+                    )}
+
+                    {/* アシスタント用操作ボタン (分岐がある場合は切り替えも表示) */}
+                    {message.role === "assistant" && (
+                      <div className="absolute -bottom-8 left-0 flex items-center gap-1">
+                        {renderBranchNavigator(message)}
+                        {renderVersionNavigator(message)}
+                        {contextIds.has(message.id) && !isLoading && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() => handleCopy(getDisplayedAnswer(message).content)}
+                              title="コピー"
+                            >
+                              <Copy className="h-3.5 w-3.5" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() => handleRegenerate(message.id)}
+                              title="再生成"
+                            >
+                              <RefreshCw className="h-3.5 w-3.5" />
+                            </Button>
+                            {/* 個別応答が複数ある場合のみ、統合のみを再実行できる */}
+                            {message.modelResponses && message.modelResponses.length > 1 && (
+                              <AlternateIntegrationPopover
+                                onRun={(integratorModel) => handleAlternateIntegration(message.id, integratorModel)}
+                              />
+                            )}
+                          </>
+                        )}
+                        {!isLoading && renderForkButton(message)}
+                      </div>
+                    )}
+
+                    {/* ユーザー用操作ボタン (分岐がある場合は切り替えも表示) */}
+                    {message.role === "user" && editingMessageId !== message.id && (
+                      <div className="absolute -bottom-8 right-0 flex items-center gap-1">
+                        {contextIds.has(message.id) && !isLoading && !editingMessageId && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() => handleCopy(message.content)}
+                              title="コピー"
+                            >
+                              <Copy className="h-3.5 w-3.5" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() => handleEditClick(message)}
+                              title="編集して再生成"
+                            >
+                              <Pencil className="h-3.5 w-3.5" />
+                            </Button>
+                          </>
+                        )}
+                        {!isLoading && !editingMessageId && renderForkButton(message)}
+                        {renderBranchNavigator(message)}
+                      </div>
+                    )}
+                  </div>
                 </div>
-              </div>
-            )}
-          </React.Fragment>
-        ))}
+              )}
+            </React.Fragment>
+          ))}
+
+        {/* --- ストリーミング中の応答 --- */}
+        {isLoading && streamingResponse && (
+          <div className="flex gap-3 justify-start">
+            <div className="w-8 h-8 rounded-md bg-primary flex items-center justify-center flex-shrink-0">
+              <Bot className="w-5 h-5 text-primary-foreground" />
+            </div>
+            <div className="max-w-[70%] px-4 py-3 rounded-lg bg-card text-card-foreground border border-border space-y-3">
+              {/* 統合モデルの出力が届き始めたら本文として表示 */}
+              {streamingResponse.integratorContent ? (
+                <MarkdownRenderer content={streamingResponse.integratorContent} className="text-sm" />
+              ) : (
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  {STREAMING_PHASE_LABELS[streamingResponse.phase]}
+                  {streamingResponse.phase === "inferring" &&
+                    streamingResponse.debateRound &&
+                    ` (討論 ラウンド${streamingResponse.debateRound.round}/${streamingResponse.debateRound.totalRounds})`}
+                </div>
+              )}
+
+              {/* 各モデルの途中経過 */}
+              {Object.entries(streamingResponse.models).map(([modelId, response]) => (
+                <div key={modelId} className="border border-border rounded-md p-3 bg-muted/30">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-xs font-semibold text-muted-foreground">{response.model}</span>
+                    <span
+                      className={cn(
+                        "text-xs text-muted-foreground",
+                        response.status === "failed" && "text-destructive",
+                      )}
+                    >
+                      {STREAMING_MODEL_STATUS_LABELS[response.status]}
+                    </span>
+                  </div>
+                  {response.content && <MarkdownRenderer content={response.content} className="text-xs" />}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
         {/* スクロール用の終端要素 */}
         <div ref={messagesEndRef} />
       </div>
@@ -636,15 +1725,30 @@ export function ChatView({
             }}
             disabled={editingMessageId !== null} // ユーザーメッセージ編集中は入力不可
           />
-          <Button
-            type="submit"
-            size="icon"
-            disabled={!input.trim() || isLoading || editingMessageId !== null} // ローディング中、編集中は送信不可
-            aria-label="送信"
-            className="flex-shrink-0"
-          >
-            {isLoading ? <Loader2 className="h-5 w-5 animate-spin" /> : <Send className="h-5 w-5" />}
-          </Button>
+          {isLoading ? (
+            // 生成中は送信ボタンの代わりに停止ボタンを表示
+            <Button
+              type="button"
+              size="icon"
+              variant="outline"
+              onClick={handleStop}
+              aria-label="生成を停止"
+              title="生成を停止"
+              className="flex-shrink-0"
+            >
+              <Square className="h-4 w-4 fill-current" />
+            </Button>
+          ) : (
+            <Button
+              type="submit"
+              size="icon"
+              disabled={!input.trim() || editingMessageId !== null} // 編集中は送信不可
+              aria-label="送信"
+              className="flex-shrink-0"
+            >
+              <Send className="h-5 w-5" />
+            </Button>
+          )}
         </form>
       </div>
     </div>
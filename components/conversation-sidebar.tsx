@@ -1,12 +1,13 @@
 "use client";
 
 import type React from "react";
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 // Avatar, AvatarFallback は不要になったため削除
-import { Plus, Pencil, Trash2, Sun, Moon, CopyPlus } from "lucide-react";
+import { Plus, Pencil, Trash2, Sun, Moon, CopyPlus, GitBranch, Search, X } from "lucide-react";
 import { cn } from "@/lib/utils";
-import type { Conversation } from "@/lib/db";
+import { db, type Conversation, type Message } from "@/lib/db";
+import { createSnippet } from "@/lib/search-index";
 import { Input } from "@/components/ui/input";
 import {
   AlertDialog,
@@ -42,6 +43,75 @@ interface ConversationSidebarProps {
   onUpdateConversationTitle: (id: string, title: string) => void;
   /** 会話複製のコールバック */
   onDuplicateConversation: (id: string) => void;
+  /** 検索結果のメッセージを開くコールバック (会話を開いてメッセージまでスクロールする) */
+  onOpenMessage: (conversationId: string, messageId: string) => void;
+}
+
+/**
+ * 検索語の入力が止まってから検索を実行するまでの待ち時間 (ミリ秒)
+ */
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * 1つの会話について表示する、検索結果のメッセージの最大数
+ */
+const MAX_HITS_PER_CONVERSATION = 3;
+
+/**
+ * 分岐した会話をインデントする最大の深さ (それより深い分岐は同じ位置に並べる)
+ */
+const MAX_LINEAGE_INDENT = 3;
+
+/**
+ * 会話リストを、分岐元の会話の直下に分岐した会話が並ぶ順に並べ替えます。
+ * (分岐元が削除されている会話は、通常の会話と同じ位置に並べる)
+ * @param {Conversation[]} conversations - ソート済みの会話リスト
+ * @returns {{ conversation: Conversation; depth: number }[]} 表示順の会話と、分岐の深さ (分岐元でない会話は 0)
+ */
+function arrangeByLineage(conversations: Conversation[]): { conversation: Conversation; depth: number }[] {
+  const ids = new Set(conversations.map((c) => c.id));
+  const forks = new Map<string, Conversation[]>();
+  const roots: Conversation[] = [];
+  for (const conversation of conversations) {
+    const sourceId = conversation.forkedFrom?.conversationId;
+    if (sourceId && ids.has(sourceId)) {
+      forks.set(sourceId, [...(forks.get(sourceId) ?? []), conversation]);
+    } else {
+      roots.push(conversation);
+    }
+  }
+
+  const arranged: { conversation: Conversation; depth: number }[] = [];
+  const visit = (conversation: Conversation, depth: number) => {
+    arranged.push({ conversation, depth });
+    for (const fork of forks.get(conversation.id) ?? []) {
+      visit(fork, depth + 1);
+    }
+  };
+  roots.forEach((conversation) => visit(conversation, 0));
+  return arranged;
+}
+
+/**
+ * 検索結果のメッセージを会話ごとにまとめます。(会話は最も新しい一致の順)
+ * @param {Message[]} hits - 検索結果のメッセージ (新しい順)
+ * @param {Conversation[]} conversations - 会話のリスト
+ * @returns {{ conversation: Conversation; hits: Message[] }[]} 会話ごとの検索結果
+ */
+function groupHitsByConversation(
+  hits: Message[],
+  conversations: Conversation[],
+): { conversation: Conversation; hits: Message[] }[] {
+  const byId = new Map(conversations.map((c) => [c.id, c]));
+  const groups = new Map<string, { conversation: Conversation; hits: Message[] }>();
+  for (const hit of hits) {
+    const conversation = byId.get(hit.conversationId);
+    if (!conversation) continue;
+    const group = groups.get(conversation.id) ?? { conversation, hits: [] };
+    group.hits.push(hit);
+    groups.set(conversation.id, group);
+  }
+  return [...groups.values()];
 }
 
 /**
@@ -58,6 +128,7 @@ export function ConversationSidebar({
   onDeleteConversation,
   onUpdateConversationTitle,
   onDuplicateConversation,
+  onOpenMessage,
 }: ConversationSidebarProps) {
   // ホバー中の会話ID（ボタン表示用）
   const [hoveredId, setHoveredId] = useState<string | null>(null);
@@ -69,8 +140,33 @@ export function ConversationSidebar({
   const [deleteTargetId, setDeleteTargetId] = useState<string | null>(null);
   // ESCキーでの編集キャンセルを検知するためのRef
   const cancelRenameRef = useRef(false);
+  // 全文検索の検索語と結果 (検索語が空の場合は会話リストを表示)
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchHits, setSearchHits] = useState<Message[]>([]);
   const { toast } = useToast();
 
+  // 検索語の入力が止まったら全文検索を実行 (会話の削除などで一覧が変わった場合も検索し直す)
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchHits([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const hits = await db.searchMessages(query);
+        if (!cancelled) setSearchHits(hits);
+      } catch (error) {
+        console.warn("[Search] 検索に失敗しました", error);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, conversations]);
+
   /**
    * 削除ボタンクリック時のハンドラ
    * @param {string} id - 削除対象のID
@@ -173,6 +269,52 @@ export function ConversationSidebar({
    */
   const stopPropagation = (e: React.MouseEvent) => e.stopPropagation();
 
+  /**
+   * 全文検索の結果を、一致した会話ごとに抜粋付きで描画します。
+   */
+  const renderSearchResults = () => {
+    const groups = groupHitsByConversation(searchHits, conversations);
+    if (groups.length === 0) {
+      return <div className="px-4 py-8 text-center text-sm text-muted-foreground">一致するメッセージはありません</div>;
+    }
+    return (
+      <div className="p-2 space-y-2">
+        {groups.map(({ conversation, hits }) => (
+          <div key={conversation.id} className="rounded-md">
+            <div className="truncate px-3 pt-1 text-xs font-medium text-muted-foreground">{conversation.title}</div>
+            {hits.slice(0, MAX_HITS_PER_CONVERSATION).map((hit) => (
+              <button
+                key={hit.id}
+                type="button"
+                onClick={() => onOpenMessage(conversation.id, hit.id)}
+                className={cn(
+                  "w-full rounded-md px-3 py-1.5 text-left text-xs leading-relaxed text-sidebar-foreground",
+                  "hover:bg-sidebar-accent focus:bg-sidebar-accent outline-none",
+                )}
+              >
+                <span className="mr-1 text-muted-foreground">
+                  {hit.role === "user" ? "ユーザー:" : "アシスタント:"}
+                </span>
+                {createSnippet(hit.content, searchQuery).map((segment, index) =>
+                  segment.highlighted ? (
+                    <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-500/40">
+                      {segment.text}
+                    </mark>
+                  ) : (
+                    <span key={index}>{segment.text}</span>
+                  ),
+                )}
+              </button>
+            ))}
+            {hits.length > MAX_HITS_PER_CONVERSATION && (
+              <div className="px-3 text-xs text-muted-foreground">他 {hits.length - MAX_HITS_PER_CONVERSATION} 件</div>
+            )}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   return (
     <>
       <div className="w-[280px] h-full flex flex-col bg-sidebar border-r border-sidebar-border">
@@ -182,18 +324,43 @@ export function ConversationSidebar({
             <Plus className="w-4 h-4" />
             新規チャット
           </Button>
+          {/* --- 全文検索 --- */}
+          <div className="relative mt-3">
+            <Search className="absolute left-2.5 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => e.key === "Escape" && setSearchQuery("")}
+              placeholder="メッセージを検索"
+              aria-label="メッセージを検索"
+              className="h-8 pl-8 pr-8 text-sm"
+            />
+            {searchQuery && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="absolute right-0.5 top-1/2 h-7 w-7 -translate-y-1/2"
+                onClick={() => setSearchQuery("")}
+                title="検索をクリア"
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            )}
+          </div>
         </div>
 
-        {/* --- 会話リスト --- */}
+        {/* --- 会話リスト (検索中は検索結果) --- */}
         <div className="flex-1 overflow-y-auto">
-          {conversations.length === 0 ? (
+          {searchQuery.trim() ? (
+            renderSearchResults()
+          ) : conversations.length === 0 ? (
             <div className="flex items-center justify-center h-full text-muted-foreground text-sm px-4 text-center">
               ここにチャット履歴が表示されます
             </div>
           ) : (
             <div className="p-2 space-y-1">
-              {/* 会話リストは親からソート済みで渡される */}
-              {conversations.map((conversation) => (
+              {/* 会話リストは親からソート済みで渡される (分岐した会話は分岐元の下に並べる) */}
+              {arrangeByLineage(conversations).map(({ conversation, depth }) => (
                 <div
                   role="button"
                   tabIndex={0}
@@ -214,6 +381,7 @@ export function ConversationSidebar({
                   }}
                   onMouseEnter={() => setHoveredId(conversation.id)}
                   onMouseLeave={() => setHoveredId(null)}
+                  style={{ paddingLeft: `${0.75 + Math.min(depth, MAX_LINEAGE_INDENT) * 0.75}rem` }}
                   className={cn(
                     "w-full text-left px-3 py-2.5 rounded-md transition-colors relative group outline-none",
                     "hover:bg-sidebar-accent focus:bg-sidebar-accent",
@@ -236,7 +404,13 @@ export function ConversationSidebar({
                   ) : (
                     // 通常表示
                     <div className="flex items-center justify-between">
-                      <span className="text-sm truncate pr-16">{conversation.title}</span>
+                      <span className="flex min-w-0 items-center gap-1.5 pr-16 text-sm">
+                        {/* 別の会話から分岐した会話 */}
+                        {conversation.forkedFrom && (
+                          <GitBranch className="h-3.5 w-3.5 flex-shrink-0 text-muted-foreground" />
+                        )}
+                        <span className="truncate">{conversation.title}</span>
+                      </span>
                       {/* ホバー中または選択中に操作ボタンを表示 */}
                       {(hoveredId === conversation.id || selectedConversation === conversation.id) && (
                         <div className="absolute right-2 flex gap-1">
@@ -0,0 +1,78 @@
+"use client";
+
+import { useState } from "react";
+import { Layers } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Switch } from "@/components/ui/switch";
+import { db, type SummarizationPolicy } from "@/lib/db";
+import { DEFAULT_SUMMARIZATION_POLICY, SUMMARIZATION_TRIGGERS } from "@/lib/constants";
+import { SummarizationPolicyFields } from "./settings/summarization-policy-fields";
+
+/**
+ * ConversationSummarizationSettingsコンポーネントのProps
+ */
+interface ConversationSummarizationSettingsProps {
+  /** この会話に固有の要約ポリシー (未設定の場合はアプリ設定に従う) */
+  summarization: SummarizationPolicy | undefined;
+  /** 要約ポリシーが変更されたときのコールバック (undefined はアプリ設定に従うことを表す) */
+  onChange: (summarization: SummarizationPolicy | undefined) => void;
+}
+
+/**
+ * 会話ごとに要約ポリシーを上書きするためのポップオーバー。
+ * @param {ConversationSummarizationSettingsProps} props
+ */
+export function ConversationSummarizationSettings({ summarization, onChange }: ConversationSummarizationSettingsProps) {
+  const [open, setOpen] = useState(false);
+  const triggerLabel = summarization
+    ? SUMMARIZATION_TRIGGERS.find((t) => t.id === summarization.trigger)?.label
+    : "アプリ設定";
+
+  /**
+   * 上書きの有効/無効を切り替えます。有効にした場合は、現在のアプリ設定の要約ポリシーを初期値とします。
+   * @param {boolean} checked - 上書きを有効にするか
+   */
+  const handleOverrideChange = async (checked: boolean) => {
+    if (!checked) {
+      onChange(undefined);
+      return;
+    }
+    try {
+      const settings = await db.getAppSettings();
+      onChange(settings?.summarization ?? DEFAULT_SUMMARIZATION_POLICY);
+    } catch (error) {
+      console.error("Failed to load summarization settings:", error);
+      onChange(DEFAULT_SUMMARIZATION_POLICY);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-auto shrink-0 text-xs" title="この会話の要約設定">
+          <Layers className="h-3 w-3" />
+          要約: {triggerLabel}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="conversation-summarization-override" className="text-sm">
+            この会話で要約設定を上書き
+          </Label>
+          <Switch
+            id="conversation-summarization-override"
+            checked={summarization !== undefined}
+            onCheckedChange={handleOverrideChange}
+          />
+        </div>
+        {summarization ? (
+          <SummarizationPolicyFields policy={summarization} onChange={onChange} idPrefix="conversation-summarization" />
+        ) : (
+          <p className="text-xs text-muted-foreground">設定画面の要約モデルの要約ポリシーが適用されます</p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import type React from "react";
+import { ArrowUpToLine, Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { ModelResponse } from "@/lib/db";
+import { cn } from "@/lib/utils";
+import { MarkdownRenderer } from "./markdown-renderer";
+import { CallMetricsBadges } from "./call-metrics-badges";
+
+/**
+ * ModelResponseCardコンポーネントのProps
+ */
+interface ModelResponseCardProps {
+  /** 表示する個別応答 */
+  response: ModelResponse;
+  /** コピーボタンが押されたときのコールバック */
+  onCopy: (content: string) => void;
+  /** (オプション) モデル名の横に表示する補足 (「採用」「1位」など) */
+  annotations?: React.ReactNode;
+  /** (オプション) 「この回答を使用」ボタンが押されたときのコールバック (省略時はボタンを表示しない) */
+  onPromote?: () => void;
+  /** オプションの追加CSSクラス */
+  className?: string;
+}
+
+/**
+ * 推論モデルの個別応答を、モデル名・本文・計測結果とともに表示するカード。
+ * @param {ModelResponseCardProps} props
+ */
+export function ModelResponseCard({ response, onCopy, annotations, onPromote, className }: ModelResponseCardProps) {
+  return (
+    <div className={cn("min-w-0 border border-border rounded-md p-3 bg-muted/30", className)}>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-semibold text-muted-foreground">
+          {response.model}
+          {response.status === "stopped" && <span className="ml-2 font-normal italic">停止</span>}
+          {annotations}
+        </span>
+        <div className="flex items-center">
+          {onPromote && (
+            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onPromote} title="この回答を使用">
+              <ArrowUpToLine className="h-3 w-3" />
+            </Button>
+          )}
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onCopy(response.content)}>
+            <Copy className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+      <MarkdownRenderer content={response.content} className="text-xs" />
+      {response.metrics && <CallMetricsBadges metrics={response.metrics} className="mt-2" />}
+    </div>
+  );
+}
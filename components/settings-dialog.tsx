@@ -14,6 +14,8 @@ interface SettingsDialogProps {
   open: boolean;
   /** 開閉状態が変更されたときのコールバック */
   onOpenChange: (open: boolean) => void;
+  /** 履歴のインポートが完了したときのコールバック */
+  onHistoryImported?: () => void;
 }
 
 /**
@@ -21,7 +23,7 @@ interface SettingsDialogProps {
  * APIキー、データ管理、モデル設定のタブを管理します。
  * @param {SettingsDialogProps} props
  */
-export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
+export function SettingsDialog({ open, onOpenChange, onHistoryImported }: SettingsDialogProps) {
   const [activeTab, setActiveTab] = useState("api");
 
   return (
@@ -42,7 +44,7 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
           <div className="flex-1 overflow-y-auto mt-4">
             {/* APIとデータ タブ */}
             <TabsContent value="api" className="mt-0">
-              <ApiDataTab />
+              <ApiDataTab onHistoryImported={onHistoryImported} />
             </TabsContent>
 
             {/* モデル設定 タブ */}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import {
   AlertDialog,
@@ -12,15 +12,49 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { db } from "@/lib/db";
+import { db, type Conversation } from "@/lib/db";
+import {
+  findConflicts,
+  parseHistoryExport,
+  planImport,
+  summarizeImport,
+  type ConflictResolution,
+  type HistoryEntry,
+  type ImportSummary,
+} from "@/lib/history-import";
 import { useToast } from "@/hooks/use-toast";
 
+/**
+ * 「APIとデータ」タブのProps
+ */
+interface ApiDataTabProps {
+  /** 履歴のインポートが完了したときのコールバック (会話リストの再読み込みに使用) */
+  onHistoryImported?: () => void;
+}
+
+/**
+ * インポートの確認待ちのファイルの内容
+ */
+interface PendingImport {
+  entries: HistoryEntry[];
+  /** 保存済みの会話とIDが重複する会話 */
+  conflicts: Conversation[];
+  /** 保存済みのメッセージID → 会話ID */
+  messageOwners: Map<string, string>;
+}
+
 /**
  * 設定ダイアログ内の「APIとデータ」タブ
- * IndexedDBからのデータのエクスポートと削除を管理します。
+ * IndexedDBのデータのエクスポート・インポートと削除を管理します。
+ * @param {ApiDataTabProps} props
  */
-export function ApiDataTab() {
+export function ApiDataTab({ onHistoryImported }: ApiDataTabProps) {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  // インポートの進捗 (書き込みが完了した会話の数 / 全体)
+  const [importProgress, setImportProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
   // APIキー関連のロジックは、サーバーサイド管理（.env.local）に
@@ -65,6 +99,72 @@ export function ApiDataTab() {
     }
   };
 
+  /**
+   * 選択されたJSONファイル (「履歴をエクスポート」の形式) を検証し、インポートします。
+   * 保存済みの会話とIDが重複する場合は、扱いを確認するダイアログを表示します。
+   * @param {React.ChangeEvent<HTMLInputElement>} event - ファイル選択イベント
+   */
+  const handleImportFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // 同じファイルを続けて選択できるようにリセット
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const entries = parseHistoryExport(await file.text());
+      const [conversations, messageOwners] = await Promise.all([db.getConversations(), db.getMessageOwners()]);
+      const conversationIds = new Set(conversations.map((c) => c.id));
+      const conflicts = findConflicts(entries, { conversationIds, messageOwners });
+
+      if (conflicts.length > 0) {
+        setPendingImport({ entries, conflicts, messageOwners });
+      } else {
+        await runImport({ entries, conflicts, messageOwners }, "skip");
+      }
+    } catch (error) {
+      console.error("Failed to import:", error);
+      toast({
+        title: "インポートに失敗しました",
+        description: error instanceof Error ? error.message : "エラーが発生しました",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * ファイルの会話とメッセージをDBに書き込み、結果を表示します。
+   * @param {PendingImport} pending - 検証済みのファイルの内容
+   * @param {ConflictResolution} resolution - 保存済みの会話とIDが重複した場合の扱い
+   */
+  const runImport = async ({ entries, messageOwners }: PendingImport, resolution: ConflictResolution) => {
+    setPendingImport(null);
+    setImportSummary(null);
+    setImportProgress({ completed: 0, total: entries.length });
+    try {
+      const conversationIds = new Set((await db.getConversations()).map((c) => c.id));
+      const plan = planImport(entries, { conversationIds, messageOwners }, resolution);
+      setImportProgress({ completed: 0, total: plan.items.length });
+      await db.importHistory(plan.items, (completed, total) => setImportProgress({ completed, total }));
+      const summary = summarizeImport(plan);
+      setImportSummary(summary);
+      toast({
+        title: "履歴をインポートしました",
+        description: `${plan.items.length} 件の会話、${summary.messages} 件のメッセージ`,
+      });
+    } catch (error) {
+      console.error("Failed to import:", error);
+      toast({
+        title: "インポートに失敗しました",
+        description: error instanceof Error ? error.message : "エラーが発生しました",
+        variant: "destructive",
+      });
+    } finally {
+      setImportProgress(null);
+      // 途中のバッチまで書き込まれている場合もあるため、失敗時も会話リストを再読み込みする
+      onHistoryImported?.();
+    }
+  };
+
   /**
    * IndexedDBからすべての会話とメッセージを削除します。
    * (注: モデル設定は削除されません)
@@ -101,12 +201,99 @@ export function ApiDataTab() {
           <Button variant="outline" className="w-full justify-start bg-transparent" onClick={handleExport}>
             履歴をエクスポート
           </Button>
+          <Button
+            variant="outline"
+            className="w-full justify-start bg-transparent"
+            disabled={importProgress !== null}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            履歴をインポート
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImportFileChange}
+          />
+
+          {/* インポートの進捗 */}
+          {importProgress && (
+            <div className="space-y-1">
+              <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+                <div
+                  className="h-full bg-primary transition-all"
+                  style={{
+                    width: `${importProgress.total > 0 ? (importProgress.completed / importProgress.total) * 100 : 0}%`,
+                  }}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                インポート中... {importProgress.completed} / {importProgress.total} 件の会話
+              </p>
+            </div>
+          )}
+
+          {/* インポートの結果 */}
+          {importSummary && (
+            <div className="rounded-md border p-3 text-sm space-y-1">
+              <p className="font-medium">インポートの結果</p>
+              <ul className="text-muted-foreground">
+                <li>新規作成: {importSummary.created} 件の会話</li>
+                {importSummary.merged > 0 && <li>統合: {importSummary.merged} 件の会話</li>}
+                {importSummary.overwritten > 0 && <li>上書き: {importSummary.overwritten} 件の会話</li>}
+                {importSummary.skipped > 0 && <li>スキップ: {importSummary.skipped} 件の会話</li>}
+                <li>追加したメッセージ: {importSummary.messages} 件</li>
+              </ul>
+            </div>
+          )}
+
           <Button variant="destructive" className="w-full justify-start" onClick={() => setShowDeleteDialog(true)}>
             全会話を削除
           </Button>
         </div>
       </div>
 
+      {/* インポート IDの重複の確認ダイアログ */}
+      <AlertDialog open={pendingImport !== null} onOpenChange={(open) => !open && setPendingImport(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>既存の会話と重複しています</AlertDialogTitle>
+            <AlertDialogDescription>
+              インポートする {pendingImport?.entries.length} 件の会話のうち、{pendingImport?.conflicts.length}{" "}
+              件が既に保存されています。重複する会話の扱いを選択してください。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <ul className="max-h-32 overflow-y-auto text-sm text-muted-foreground list-disc pl-5">
+            {pendingImport?.conflicts.map((conversation) => (
+              <li key={conversation.id} className="truncate">
+                {conversation.title}
+              </li>
+            ))}
+          </ul>
+          <div className="text-xs text-muted-foreground space-y-1">
+            <p>統合: 保存済みの会話に、まだないメッセージのみを追加します</p>
+            <p>スキップ: 重複する会話はインポートしません</p>
+            <p>上書き: 保存済みの会話を削除し、ファイルの内容に置き換えます</p>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>キャンセル</AlertDialogCancel>
+            <AlertDialogAction onClick={() => pendingImport && runImport(pendingImport, "merge")}>
+              統合
+            </AlertDialogAction>
+            <AlertDialogAction onClick={() => pendingImport && runImport(pendingImport, "skip")}>
+              スキップ
+            </AlertDialogAction>
+            <AlertDialogAction
+              onClick={() => pendingImport && runImport(pendingImport, "overwrite")}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              上書き
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* 全削除 確認ダイアログ */}
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
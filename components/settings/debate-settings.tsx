@@ -0,0 +1,99 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { db } from "@/lib/db";
+import { MAX_DEBATE_ROUNDS } from "@/lib/constants";
+
+/**
+ * 推論モデル同士が互いの回答を読んで自分の回答を改訂する
+ * 「討論モード」を設定するためのコンポーネント
+ */
+export function DebateSettings() {
+  const [enabled, setEnabled] = useState(false);
+  const [rounds, setRounds] = useState(2);
+  const [hasLoaded, setHasLoaded] = useState(false);
+
+  // マウント時にDBから設定を読み込む
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  /**
+   * IndexedDBから討論モード設定（appSettings.debate）を読み込みます。
+   */
+  const loadSettings = async () => {
+    try {
+      const settings = await db.getAppSettings();
+      if (settings?.debate) {
+        setEnabled(settings.debate.enabled);
+        setRounds(settings.debate.rounds);
+      }
+    } catch (error) {
+      console.error("Failed to load debate settings:", error);
+    } finally {
+      setHasLoaded(true);
+    }
+  };
+
+  // いずれかの設定値が変更されたら、自動でDBに保存
+  useEffect(() => {
+    if (!hasLoaded) {
+      return;
+    }
+    saveSettings();
+  }, [hasLoaded, enabled, rounds]);
+
+  /**
+   * 現在のstateを `appSettings.debate` としてDBに保存します。
+   */
+  const saveSettings = async () => {
+    try {
+      const currentSettings = await db.getAppSettings();
+      await db.saveAppSettings({
+        ...currentSettings, // 既存の要約・統合モデル設定を保持
+        debate: { enabled, rounds },
+      });
+      console.log("Debate settings saved");
+    } catch (error) {
+      console.error("Failed to save debate settings:", error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>討論モード</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="debate-enabled">討論モードを有効にする</Label>
+            <p className="text-xs text-muted-foreground">
+              最初の回答の後、各推論モデルが他のモデルの回答を読んで自分の回答を改訂します。統合モデルは最終的な回答を統合します
+            </p>
+          </div>
+          <Switch id="debate-enabled" checked={enabled} onCheckedChange={setEnabled} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="debate-rounds">ラウンド数 (最初の回答を含む): {rounds}</Label>
+          <Slider
+            id="debate-rounds"
+            min={2}
+            max={MAX_DEBATE_ROUNDS}
+            step={1}
+            value={[rounds]}
+            onValueChange={([value]) => setRounds(value)}
+            disabled={!enabled}
+          />
+          <p className="text-xs text-muted-foreground">
+            ラウンドごとに全モデルが再度呼び出されるため、応答時間とAPI使用量が増加します
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -12,11 +12,14 @@ import { Accordion, AccordionContent, AccordionItem } from "@/components/ui/acco
 import { Plus, Trash2, ChevronDownIcon, Check, ChevronsUpDown } from "lucide-react";
 import { Slider } from "@/components/ui/slider";
 import { db, type ModelSettings } from "@/lib/db";
+import { createId } from "@/lib/ids";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { DEFAULT_CEREBRAS_MODELS } from "@/lib/constants";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DEFAULT_PROVIDER_ID, LLM_PROVIDERS } from "@/lib/constants";
+import { getContextBudgetNotice, getSuggestedModelNames, validateMaxTokens } from "@/lib/model-catalog";
 
 /**
  * 並行推論に使用するモデルを設定するコンポーネント
@@ -43,7 +46,7 @@ export function InferenceModels() {
       if (settings.length === 0) {
         // 設定が空の場合、デフォルトのモデルを1つ作成
         const newModel: ModelSettings = {
-          id: `model_${Date.now()}`,
+          id: createId("model"),
           provider: "cerebras",
           modelName: "zai-glm-4.6",
           temperature: 0.6,
@@ -66,7 +69,7 @@ export function InferenceModels() {
    */
   const addModel = async () => {
     const newModel: ModelSettings = {
-      id: `model_${Date.now()}`,
+      id: createId("model"),
       provider: "cerebras",
       modelName: "zai-glm-4.6",
       temperature: 0.6,
@@ -158,6 +161,11 @@ export function InferenceModels() {
                   )}
                 >
                   <span className="text-sm font-medium">{model.modelName || ""}</span>
+                  {model.provider !== DEFAULT_PROVIDER_ID && (
+                    <span className="text-xs text-muted-foreground">
+                      {LLM_PROVIDERS.find((p) => p.id === model.provider)?.label ?? model.provider}
+                    </span>
+                  )}
                   <ChevronDownIcon className="text-muted-foreground pointer-events-none size-4 shrink-0 translate-y-0.5 transition-transform duration-200" />
                 </AccordionPrimitive.Trigger>
 
@@ -172,6 +180,25 @@ export function InferenceModels() {
               {/* アコーディオンコンテンツ */}
               <AccordionContent>
                 <div className="space-y-4 pt-4">
+                  {/* プロバイダー */}
+                  <div className="space-y-2">
+                    <Label htmlFor={`provider-${model.id}`}>プロバイダー</Label>
+                    <Select
+                      value={model.provider || DEFAULT_PROVIDER_ID}
+                      onValueChange={(value) => updateModel(model.id, "provider", value)}
+                    >
+                      <SelectTrigger id={`provider-${model.id}`} className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {LLM_PROVIDERS.map((provider) => (
+                          <SelectItem key={provider.id} value={provider.id}>
+                            {provider.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                   {/* モデル名 (ComboBox) */}
                   <div className="space-y-2">
                     <Label htmlFor={`model-name-${model.id}`}>モデル名</Label>
@@ -203,7 +230,8 @@ export function InferenceModels() {
                           <CommandList>
                             <CommandEmpty>モデルが見つかりません。</CommandEmpty>
                             <CommandGroup>
-                              {DEFAULT_CEREBRAS_MODELS.map((defaultModel) => (
+                              {/* サジェストはCerebras・モックのモデルのみ (他のプロバイダーはカスタム入力) */}
+                              {getSuggestedModelNames(model.provider).map((defaultModel) => (
                                 <CommandItem
                                   key={defaultModel}
                                   value={defaultModel}
@@ -254,7 +282,12 @@ export function InferenceModels() {
                       value={model.maxTokens}
                       onChange={(e) => updateModel(model.id, "maxTokens", Number.parseInt(e.target.value) || 0)}
                       placeholder="40960"
+                      aria-invalid={validateMaxTokens(model) !== null}
                     />
+                    {validateMaxTokens(model) && <p className="text-xs text-destructive">{validateMaxTokens(model)}</p>}
+                    {getContextBudgetNotice(model) && (
+                      <p className="text-xs text-muted-foreground">{getContextBudgetNotice(model)}</p>
+                    )}
                   </div>
                   {/* 削除ボタン */}
                   <Button
@@ -11,17 +11,36 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
 import { Check, ChevronsUpDown } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { DEFAULT_CEREBRAS_MODELS } from "@/lib/constants";
+import { getContextBudgetNotice, getSuggestedModelNames, validateMaxTokens } from "@/lib/model-catalog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DEFAULT_INTEGRATION_FALLBACK,
+  DEFAULT_INTEGRATION_STRATEGY,
+  DEFAULT_INTEGRATION_TOP_K,
+  DEFAULT_PROVIDER_ID,
+  INTEGRATION_FALLBACKS,
+  INTEGRATION_STRATEGIES,
+  LLM_PROVIDERS,
+  type IntegrationFallbackId,
+  type IntegrationStrategyId,
+} from "@/lib/constants";
 
 /**
  * 複数の応答をレビューし「最終回答」を生成する
  * 「統合モデル」を設定するためのコンポーネント
  */
 export function IntegratorModel() {
+  const [provider, setProvider] = useState<string>(DEFAULT_PROVIDER_ID);
   const [modelName, setModelName] = useState("zai-glm-4.6");
   const [temperature, setTemperature] = useState(0.5);
   const [maxTokens, setMaxTokens] = useState(30000);
+  const [strategy, setStrategy] = useState<IntegrationStrategyId>(DEFAULT_INTEGRATION_STRATEGY);
+  const [topK, setTopK] = useState(DEFAULT_INTEGRATION_TOP_K);
+  const [fallback, setFallback] = useState<IntegrationFallbackId>(DEFAULT_INTEGRATION_FALLBACK);
+  const [fallbackProvider, setFallbackProvider] = useState<string>(DEFAULT_PROVIDER_ID);
+  const [fallbackModelName, setFallbackModelName] = useState("");
   const [popoverOpen, setPopoverOpen] = useState(false);
+  const [fallbackPopoverOpen, setFallbackPopoverOpen] = useState(false);
   const [hasLoaded, setHasLoaded] = useState(false);
 
   // マウント時にDBから設定を読み込む
@@ -36,9 +55,16 @@ export function IntegratorModel() {
     try {
       const settings = await db.getAppSettings();
       if (settings?.integratorModel) {
+        setProvider(settings.integratorModel.provider || DEFAULT_PROVIDER_ID);
         setModelName(settings.integratorModel.modelName);
         setTemperature(settings.integratorModel.temperature);
         setMaxTokens(settings.integratorModel.maxTokens);
+        // 旧バージョンのデータには統合戦略が保存されていない
+        setStrategy(settings.integratorModel.strategy || DEFAULT_INTEGRATION_STRATEGY);
+        setTopK(settings.integratorModel.topK || DEFAULT_INTEGRATION_TOP_K);
+        setFallback(settings.integratorModel.fallback || DEFAULT_INTEGRATION_FALLBACK);
+        setFallbackProvider(settings.integratorModel.fallbackModel?.provider || DEFAULT_PROVIDER_ID);
+        setFallbackModelName(settings.integratorModel.fallbackModel?.modelName || "");
       }
     } catch (error) {
       console.error("Failed to load integrator settings:", error);
@@ -53,7 +79,18 @@ export function IntegratorModel() {
       return;
     }
     saveSettings();
-  }, [hasLoaded, modelName, temperature, maxTokens]);
+  }, [
+    hasLoaded,
+    provider,
+    modelName,
+    temperature,
+    maxTokens,
+    strategy,
+    topK,
+    fallback,
+    fallbackProvider,
+    fallbackModelName,
+  ]);
 
   /**
    * 現在のstateを `appSettings.integratorModel` としてDBに保存します。
@@ -64,10 +101,17 @@ export function IntegratorModel() {
       await db.saveAppSettings({
         ...currentSettings, // 既存の要約モデル設定などを保持
         integratorModel: {
-          provider: "cerebras",
+          provider,
           modelName,
           temperature,
           maxTokens,
+          strategy,
+          topK,
+          fallback,
+          // 予備の統合モデルは、統合モデルと同じ Temperature・最大トークン数で呼び出す
+          fallbackModel: fallbackModelName
+            ? { provider: fallbackProvider, modelName: fallbackModelName, temperature, maxTokens }
+            : undefined,
         },
       });
       console.log("Integrator settings saved");
@@ -76,12 +120,73 @@ export function IntegratorModel() {
     }
   };
 
+  // 最大トークン数がモデルの上限を超えていないか (カタログにあるモデルのみ)
+  const maxTokensError = validateMaxTokens({ provider, modelName, maxTokens });
+  const fallbackMaxTokensError =
+    fallback === "secondary" && fallbackModelName
+      ? validateMaxTokens({ provider: fallbackProvider, modelName: fallbackModelName, maxTokens })
+      : null;
+  // カタログにないモデルは履歴の省略が行われない
+  const contextBudgetNotice = getContextBudgetNotice({ provider, modelName });
+  const fallbackContextBudgetNotice =
+    fallback === "secondary" && fallbackModelName
+      ? getContextBudgetNotice({ provider: fallbackProvider, modelName: fallbackModelName })
+      : null;
+
   return (
     <Card>
       <CardHeader>
         <CardTitle>統合モデル</CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
+        {/* 統合戦略 */}
+        <div className="space-y-2">
+          <Label htmlFor="integrator-strategy">統合戦略</Label>
+          <Select value={strategy} onValueChange={(value) => setStrategy(value as IntegrationStrategyId)}>
+            <SelectTrigger id="integrator-strategy" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {INTEGRATION_STRATEGIES.map((s) => (
+                <SelectItem key={s.id} value={s.id}>
+                  {s.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {INTEGRATION_STRATEGIES.find((s) => s.id === strategy)?.description}
+          </p>
+        </div>
+        {/* 上位k件 (順位付け＋上位統合のみ) */}
+        {strategy === "rank-merge" && (
+          <div className="space-y-2">
+            <Label htmlFor="integrator-top-k">統合に使用する上位の応答数 (k)</Label>
+            <Input
+              id="integrator-top-k"
+              type="number"
+              min={1}
+              value={topK}
+              onChange={(e) => setTopK(Math.max(1, Number.parseInt(e.target.value) || 1))}
+            />
+          </div>
+        )}
+        {/* プロバイダー */}
+        <div className="space-y-2">
+          <Label htmlFor="integrator-provider">プロバイダー</Label>
+          <Select value={provider} onValueChange={setProvider}>
+            <SelectTrigger id="integrator-provider" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LLM_PROVIDERS.map((p) => (
+                <SelectItem key={p.id} value={p.id}>
+                  {p.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
         {/* モデル名 (ComboBox) */}
         <div className="space-y-2">
           <Label htmlFor="integrator-model">モデル名</Label>
@@ -107,7 +212,8 @@ export function IntegratorModel() {
                 <CommandList>
                   <CommandEmpty>モデルが見つかりません。</CommandEmpty>
                   <CommandGroup>
-                    {DEFAULT_CEREBRAS_MODELS.map((defaultModel) => (
+                    {/* サジェストはCerebras・モックのモデルのみ (他のプロバイダーはカスタム入力) */}
+                    {getSuggestedModelNames(provider).map((defaultModel) => (
                       <CommandItem
                         key={defaultModel}
                         value={defaultModel}
@@ -150,8 +256,106 @@ export function IntegratorModel() {
             value={maxTokens}
             onChange={(e) => setMaxTokens(Number.parseInt(e.target.value) || 0)}
             placeholder="30000"
+            aria-invalid={maxTokensError !== null}
           />
+          {maxTokensError && <p className="text-xs text-destructive">{maxTokensError}</p>}
+          {contextBudgetNotice && <p className="text-xs text-muted-foreground">{contextBudgetNotice}</p>}
+        </div>
+        {/* 統合に失敗した場合のフォールバック */}
+        <div className="space-y-2">
+          <Label htmlFor="integrator-fallback">統合に失敗した場合</Label>
+          <Select value={fallback} onValueChange={(value) => setFallback(value as IntegrationFallbackId)}>
+            <SelectTrigger id="integrator-fallback" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {INTEGRATION_FALLBACKS.map((f) => (
+                <SelectItem key={f.id} value={f.id}>
+                  {f.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {INTEGRATION_FALLBACKS.find((f) => f.id === fallback)?.description}
+          </p>
         </div>
+        {/* 予備の統合モデル (フォールバックが「予備の統合モデル」の場合のみ) */}
+        {fallback === "secondary" && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="integrator-fallback-provider">予備の統合モデルのプロバイダー</Label>
+              <Select value={fallbackProvider} onValueChange={setFallbackProvider}>
+                <SelectTrigger id="integrator-fallback-provider" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LLM_PROVIDERS.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="integrator-fallback-model">予備の統合モデル名</Label>
+              <Popover open={fallbackPopoverOpen} onOpenChange={setFallbackPopoverOpen}>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    role="combobox"
+                    className="w-full justify-between font-mono"
+                    id="integrator-fallback-model"
+                  >
+                    {fallbackModelName || "モデルを選択..."}
+                    <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-[--radix-popover-trigger-width] p-0">
+                  <Command>
+                    <CommandInput
+                      placeholder="モデル名を検索または入力..."
+                      value={fallbackModelName}
+                      onValueChange={setFallbackModelName} // カスタム入力に対応
+                    />
+                    <CommandList>
+                      <CommandEmpty>モデルが見つかりません。</CommandEmpty>
+                      <CommandGroup>
+                        {getSuggestedModelNames(fallbackProvider).map((defaultModel) => (
+                          <CommandItem
+                            key={defaultModel}
+                            value={defaultModel}
+                            onSelect={(currentValue) => {
+                              setFallbackModelName(currentValue);
+                              setFallbackPopoverOpen(false);
+                            }}
+                          >
+                            <Check
+                              className={cn(
+                                "mr-2 h-4 w-4",
+                                fallbackModelName === defaultModel ? "opacity-100" : "opacity-0",
+                              )}
+                            />
+                            {defaultModel}
+                          </CommandItem>
+                        ))}
+                      </CommandGroup>
+                    </CommandList>
+                  </Command>
+                </PopoverContent>
+              </Popover>
+              <p className="text-xs text-muted-foreground">
+                統合モデルと同じ Temperature・最大トークン数で呼び出します
+                {!fallbackModelName && "（モデル名が未設定の場合は、すべての応答を並べて表示します）"}
+              </p>
+              {fallbackMaxTokensError && <p className="text-xs text-destructive">{fallbackMaxTokensError}</p>}
+              {fallbackContextBudgetNotice && (
+                <p className="text-xs text-muted-foreground">{fallbackContextBudgetNotice}</p>
+              )}
+            </div>
+          </>
+        )}
       </CardContent>
     </Card>
   );
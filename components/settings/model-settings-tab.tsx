@@ -3,10 +3,11 @@
 import { InferenceModels } from "@/components/settings/inference-models";
 import { SummarizerModel } from "@/components/settings/summarizer-model";
 import { IntegratorModel } from "@/components/settings/integrator-model";
+import { DebateSettings } from "@/components/settings/debate-settings";
 
 /**
  * 設定ダイアログ内の「モデル設定」タブ
- * 3つの主要なAIモデル（推論、要約、統合）の設定コンポーネントを
+ * 3つの主要なAIモデル（推論、要約、統合）と討論モードの設定コンポーネントを
  * まとめて表示します。
  */
 export function ModelSettingsTab() {
@@ -20,6 +21,9 @@ export function ModelSettingsTab() {
 
       {/* 3. 統合モデル（単一設定） */}
       <IntegratorModel />
+
+      {/* 4. 討論モード */}
+      <DebateSettings />
     </div>
   );
 }
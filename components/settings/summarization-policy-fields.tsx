@@ -0,0 +1,97 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { SummarizationPolicy } from "@/lib/db";
+import { MAX_KEEP_RECENT_TURNS, SUMMARIZATION_TRIGGERS, type SummarizationTriggerId } from "@/lib/constants";
+
+/**
+ * SummarizationPolicyFieldsコンポーネントのProps
+ */
+interface SummarizationPolicyFieldsProps {
+  /** 編集中の要約ポリシー */
+  policy: SummarizationPolicy;
+  /** 要約ポリシーが変更されたときのコールバック */
+  onChange: (policy: SummarizationPolicy) => void;
+  /** 入力要素のIDの接頭辞 (同じ画面に複数配置する場合の重複を防ぐ) */
+  idPrefix: string;
+}
+
+/**
+ * 要約ポリシー（要約の条件・閾値・残す直近のやり取りの数）の入力欄。
+ * アプリ設定の要約モデルカードと、会話ごとの要約設定で共通して使用します。
+ * @param {SummarizationPolicyFieldsProps} props
+ */
+export function SummarizationPolicyFields({ policy, onChange, idPrefix }: SummarizationPolicyFieldsProps) {
+  const trigger = SUMMARIZATION_TRIGGERS.find((t) => t.id === policy.trigger) ?? SUMMARIZATION_TRIGGERS[0];
+
+  /**
+   * 要約の条件を変更します。閾値の単位が変わるため、閾値は条件ごとのデフォルト値に戻します。
+   * @param {string} value - 新しい条件のID
+   */
+  const handleTriggerChange = (value: string) => {
+    const next = SUMMARIZATION_TRIGGERS.find((t) => t.id === value);
+    if (!next) return;
+    onChange({ ...policy, trigger: next.id as SummarizationTriggerId, threshold: next.defaultThreshold });
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* 要約の条件 */}
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-trigger`}>要約の条件</Label>
+        <Select value={policy.trigger} onValueChange={handleTriggerChange}>
+          <SelectTrigger id={`${idPrefix}-trigger`} className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SUMMARIZATION_TRIGGERS.map((t) => (
+              <SelectItem key={t.id} value={t.id}>
+                {t.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {policy.trigger !== "off" && (
+        <>
+          {/* 閾値 */}
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-threshold`}>閾値 ({trigger.unit})</Label>
+            <Input
+              id={`${idPrefix}-threshold`}
+              type="number"
+              min={1}
+              value={policy.threshold}
+              onChange={(e) => onChange({ ...policy, threshold: Math.max(1, Number.parseInt(e.target.value) || 1) })}
+            />
+            <p className="text-xs text-muted-foreground">
+              会話履歴の{trigger.label}がこの値を超えると、古い履歴を要約します
+            </p>
+          </div>
+          {/* 残す直近のやり取りの数 */}
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-keep-recent`}>要約せずに残す直近のやり取り</Label>
+            <Input
+              id={`${idPrefix}-keep-recent`}
+              type="number"
+              min={0}
+              max={MAX_KEEP_RECENT_TURNS}
+              value={policy.keepRecentTurns}
+              onChange={(e) =>
+                onChange({
+                  ...policy,
+                  keepRecentTurns: Math.min(MAX_KEEP_RECENT_TURNS, Math.max(0, Number.parseInt(e.target.value) || 0)),
+                })
+              }
+            />
+            <p className="text-xs text-muted-foreground">
+              ユーザーの質問とその回答を1つとして数えます。0の場合は最新の質問以外をすべて要約します
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
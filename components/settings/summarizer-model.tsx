@@ -1,28 +1,38 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
-import { db } from "@/lib/db";
+import { db, type SummarizationPolicy } from "@/lib/db";
 import { Button } from "@/components/ui/button";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
 import { Check, ChevronsUpDown } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { DEFAULT_CEREBRAS_MODELS } from "@/lib/constants";
+import { getContextBudgetNotice, getSuggestedModelNames, validateMaxTokens } from "@/lib/model-catalog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DEFAULT_PROVIDER_ID, DEFAULT_SUMMARIZATION_POLICY, LLM_PROVIDERS } from "@/lib/constants";
+import { SummarizationPolicyFields } from "./summarization-policy-fields";
 
 /**
  * 長い会話履歴を自動で要約（圧縮）する
  * 「要約モデル」を設定するためのコンポーネント
  */
 export function SummarizerModel() {
+  const [provider, setProvider] = useState<string>(DEFAULT_PROVIDER_ID);
   const [modelName, setModelName] = useState("zai-glm-4.6");
   const [temperature, setTemperature] = useState(0.3);
   const [maxTokens, setMaxTokens] = useState(30000);
+  const [policy, setPolicy] = useState<SummarizationPolicy>(DEFAULT_SUMMARIZATION_POLICY);
   const [popoverOpen, setPopoverOpen] = useState(false);
   const [hasLoaded, setHasLoaded] = useState(false);
+  /**
+   * 読み込み直後の保存をスキップするためのフラグ
+   * (開いただけで未保存のデフォルト値がDBに書き込まれないようにする)
+   */
+  const skipNextSaveRef = useRef(true);
 
   // マウント時にDBから設定を読み込む
   useEffect(() => {
@@ -30,16 +40,20 @@ export function SummarizerModel() {
   }, []);
 
   /**
-   * IndexedDBから要約モデル設定（appSettings.summarizerModel）を読み込みます。
+   * IndexedDBから要約モデル設定（appSettings.summarizerModel）と要約ポリシー（appSettings.summarization）を読み込みます。
    */
   const loadSettings = async () => {
     try {
       const settings = await db.getAppSettings();
       if (settings?.summarizerModel) {
+        setProvider(settings.summarizerModel.provider || DEFAULT_PROVIDER_ID);
         setModelName(settings.summarizerModel.modelName);
         setTemperature(settings.summarizerModel.temperature);
         setMaxTokens(settings.summarizerModel.maxTokens);
       }
+      if (settings?.summarization) {
+        setPolicy(settings.summarization);
+      }
     } catch (error) {
       console.error("Failed to load summarizer settings:", error);
     } finally {
@@ -47,16 +61,20 @@ export function SummarizerModel() {
     }
   };
 
-  // いずれかの設定値が変更されたら、自動でDBに保存
+  // いずれかの設定値が変更されたら、自動でDBに保存 (読み込み直後は保存しない)
   useEffect(() => {
     if (!hasLoaded || !modelName) {
       return;
     }
+    if (skipNextSaveRef.current) {
+      skipNextSaveRef.current = false;
+      return;
+    }
     saveSettings();
-  }, [hasLoaded, modelName, temperature, maxTokens]);
+  }, [hasLoaded, provider, modelName, temperature, maxTokens, policy]);
 
   /**
-   * 現在のstateを `appSettings.summarizerModel` としてDBに保存します。
+   * 現在のstateを `appSettings.summarizerModel` と `appSettings.summarization` としてDBに保存します。
    */
   const saveSettings = async () => {
     try {
@@ -64,11 +82,12 @@ export function SummarizerModel() {
       await db.saveAppSettings({
         ...currentSettings, // 既存の統合モデル設定などを保持
         summarizerModel: {
-          provider: "cerebras",
+          provider,
           modelName,
           temperature,
           maxTokens,
         },
+        summarization: policy,
       });
       console.log("Summarizer settings saved");
     } catch (error) {
@@ -76,12 +95,33 @@ export function SummarizerModel() {
     }
   };
 
+  // 最大トークン数がモデルの上限を超えていないか (カタログにあるモデルのみ)
+  const maxTokensError = validateMaxTokens({ provider, modelName, maxTokens });
+  // カタログにないモデルは履歴の省略が行われない
+  const contextBudgetNotice = getContextBudgetNotice({ provider, modelName });
+
   return (
     <Card>
       <CardHeader>
         <CardTitle>要約モデル</CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
+        {/* プロバイダー */}
+        <div className="space-y-2">
+          <Label htmlFor="summarizer-provider">プロバイダー</Label>
+          <Select value={provider} onValueChange={setProvider}>
+            <SelectTrigger id="summarizer-provider" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LLM_PROVIDERS.map((p) => (
+                <SelectItem key={p.id} value={p.id}>
+                  {p.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
         {/* モデル名 (ComboBox) */}
         <div className="space-y-2">
           <Label htmlFor="summarizer-model">モデル名</Label>
@@ -107,7 +147,8 @@ export function SummarizerModel() {
                 <CommandList>
                   <CommandEmpty>モデルが見つかりません。</CommandEmpty>
                   <CommandGroup>
-                    {DEFAULT_CEREBRAS_MODELS.map((defaultModel) => (
+                    {/* サジェストはCerebras・モックのモデルのみ (他のプロバイダーはカスタム入力) */}
+                    {getSuggestedModelNames(provider).map((defaultModel) => (
                       <CommandItem
                         key={defaultModel}
                         value={defaultModel}
@@ -150,8 +191,13 @@ export function SummarizerModel() {
             value={maxTokens}
             onChange={(e) => setMaxTokens(Number.parseInt(e.target.value) || 0)}
             placeholder="500"
+            aria-invalid={maxTokensError !== null}
           />
+          {maxTokensError && <p className="text-xs text-destructive">{maxTokensError}</p>}
+          {contextBudgetNotice && <p className="text-xs text-muted-foreground">{contextBudgetNotice}</p>}
         </div>
+        {/* 要約ポリシー */}
+        <SummarizationPolicyFields policy={policy} onChange={setPolicy} idPrefix="summarizer-policy" />
       </CardContent>
     </Card>
   );
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ApiKeyPool, parseRateLimitHeaders } from "./api-key-pool";
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("parseRateLimitHeaders", () => {
+  it("Retry-After の秒数をミリ秒に変換する", () => {
+    expect(parseRateLimitHeaders({ "Retry-After": "2" })).toEqual({ retryAfterMs: 2000, remainingRequests: undefined });
+  });
+
+  it("残りリクエスト数は最小の値を使い、使い切った制限のリセット時刻をクールダウン時間とする", () => {
+    const result = parseRateLimitHeaders({
+      "x-ratelimit-remaining-requests-minute": "5",
+      "x-ratelimit-remaining-requests-day": "0",
+      "x-ratelimit-reset-requests-day": "6m0s",
+    });
+    expect(result).toEqual({ retryAfterMs: 360_000, remainingRequests: 0 });
+  });
+
+  it("ヘッダーがない場合は空のオブジェクトを返す", () => {
+    expect(parseRateLimitHeaders(undefined)).toEqual({});
+  });
+});
+
+describe("ApiKeyPool", () => {
+  it("実行中の呼び出しが少ないキーから順に割り当てる", () => {
+    const pool = new ApiKeyPool("test", ["key-1", "key-2"]);
+    const first = pool.acquireKey();
+    const second = pool.acquireKey();
+    expect(new Set([first, second])).toEqual(new Set(["key-1", "key-2"]));
+
+    // 解放したキーが次に割り当てられる
+    pool.release(first!);
+    expect(pool.acquireKey()).toBe(first);
+  });
+
+  it("401/403 を返したキーを無効化し、すべて無効化されると枯渇とみなす", () => {
+    const pool = new ApiKeyPool("test", ["key-1", "key-2"]);
+    pool.reportFailure(pool.acquireKey()!, 401);
+    expect(pool.keyCount).toBe(1);
+    expect(pool.isExhausted()).toBe(false);
+
+    pool.reportFailure(pool.acquireKey()!, 403);
+    expect(pool.keyCount).toBe(0);
+    expect(pool.isExhausted()).toBe(true);
+    expect(pool.acquireKey()).toBeNull();
+  });
+
+  it("429 を返したキーは Retry-After の間クールダウンし、その後に復帰する", () => {
+    vi.useFakeTimers();
+    try {
+      const pool = new ApiKeyPool("test", ["key-1"]);
+      pool.reportFailure(pool.acquireKey()!, 429, { "retry-after": "2" });
+      expect(pool.acquireKey()).toBeNull();
+      // 短いクールダウンはキーの数から除外せず、枯渇ともみなさない
+      expect(pool.keyCount).toBe(1);
+      expect(pool.isExhausted()).toBe(false);
+
+      vi.advanceTimersByTime(2000);
+      expect(pool.acquireKey()).toBe("key-1");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("長時間のクールダウン中のキーしかない場合は枯渇とみなす", () => {
+    const pool = new ApiKeyPool("test", ["key-1"]);
+    pool.reportFailure(pool.acquireKey()!, 429, { "retry-after": "120" });
+    expect(pool.isExhausted()).toBe(true);
+  });
+
+  it("404 や 5xx ではキーの状態を変更しない", () => {
+    const pool = new ApiKeyPool("test", ["key-1"]);
+    pool.reportFailure(pool.acquireKey()!, 404);
+    pool.reportFailure(pool.acquireKey()!, 500);
+    expect(pool.acquireKey()).toBe("key-1");
+  });
+
+  it("キーを同期しても、既存のキーの状態は保持される", () => {
+    const pool = new ApiKeyPool("test", ["key-1", "key-2"]);
+    pool.reportFailure("key-1", 401);
+    pool.syncKeys(["key-1", "key-2", "key-3"]);
+    expect(pool.keyCount).toBe(2);
+  });
+});
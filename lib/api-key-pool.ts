@@ -0,0 +1,305 @@
+// プロセス全体で共有されるAPIキーのプールと、各キーの健全性の管理
+// (サーバーサイド専用。リクエストをまたいでキーの状態を保持します)
+
+import { sleep } from "./retry";
+
+// #region 型定義
+
+/**
+ * APIキーの状態
+ * - `healthy`: 利用可能
+ * - `cooling`: レートリミット等により `until` (エポックミリ秒) まで利用停止中
+ * - `disabled`: 認証・権限エラー (401/403) により無効化済み
+ */
+type KeyState = { status: "healthy" } | { status: "cooling"; until: number } | { status: "disabled" };
+
+/**
+ * プール内の各APIキーの健全性情報
+ */
+interface KeyHealth {
+  key: string;
+  state: KeyState;
+  /** レスポンスヘッダーから取得した残りリクエスト数 (不明な場合は undefined) */
+  remainingRequests?: number;
+  /** このキーで実行中の呼び出し数 */
+  inFlight: number;
+  /** 最後にこのキーを割り当てた時刻 */
+  lastUsedAt: number;
+}
+// #endregion
+
+// #region 定数
+/**
+ * 429 応答にクールダウン時間の情報が含まれない場合のクールダウン時間 (ミリ秒)
+ */
+const DEFAULT_RATE_LIMIT_COOLDOWN_MS = 10_000;
+/**
+ * クールダウン中のキーの復帰を待つ最大時間 (ミリ秒)
+ * これより長くすべてのキーが利用できない場合は、プールが枯渇したものとみなします。
+ */
+const MAX_KEY_WAIT_MS = 30_000;
+// #endregion
+
+// #region レートリミットヘッダーの解析
+
+/**
+ * `1.5`, `6m0s`, `20ms` などの形式の時間表記をミリ秒に変換します。
+ * (数値のみの場合は秒として扱います)
+ * @param {string} value - ヘッダーの値
+ * @returns {number | undefined} ミリ秒 (解釈できない場合は undefined)
+ */
+function parseDurationMs(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Number.parseFloat(trimmed) * 1000;
+  }
+
+  const pattern = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+  let total = 0;
+  let matched = false;
+  for (const [, amount, unit] of trimmed.matchAll(pattern)) {
+    matched = true;
+    const n = Number.parseFloat(amount);
+    total += unit === "h" ? n * 3_600_000 : unit === "m" ? n * 60_000 : unit === "s" ? n * 1000 : n;
+  }
+  return matched ? total : undefined;
+}
+
+/**
+ * レスポンスヘッダーからレートリミットに関する情報を抽出します。
+ * - `retryAfterMs`: `Retry-After`、または使い切った制限 (`x-ratelimit-remaining-*` が 0) の
+ *   `x-ratelimit-reset-*` から求めた、再試行可能になるまでの時間
+ * - `remainingRequests`: `x-ratelimit-remaining-requests*` のうち最小の値
+ * @param {Record<string, string> | undefined} headers - レスポンスヘッダー
+ * @returns {{ retryAfterMs?: number; remainingRequests?: number }}
+ */
+export function parseRateLimitHeaders(headers: Record<string, string> | undefined): {
+  retryAfterMs?: number;
+  remainingRequests?: number;
+} {
+  if (!headers) return {};
+  const lower: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    lower[name.toLowerCase()] = value;
+  }
+
+  let retryAfterMs: number | undefined;
+  const retryAfter = lower["retry-after"];
+  if (retryAfter) {
+    // 秒数、または HTTP-date 形式
+    retryAfterMs = parseDurationMs(retryAfter) ?? Math.max(0, Date.parse(retryAfter) - Date.now());
+    if (Number.isNaN(retryAfterMs)) retryAfterMs = undefined;
+  }
+
+  let remainingRequests: number | undefined;
+  for (const [name, value] of Object.entries(lower)) {
+    if (!name.startsWith("x-ratelimit-remaining-")) continue;
+    const remaining = Number.parseFloat(value);
+    if (Number.isNaN(remaining)) continue;
+
+    if (name.startsWith("x-ratelimit-remaining-requests")) {
+      remainingRequests = Math.min(remainingRequests ?? Infinity, remaining);
+    }
+    // 使い切った制限については、対応するリセット時刻までをクールダウン時間の候補とする
+    if (remaining <= 0 && retryAfterMs === undefined) {
+      const reset = lower[name.replace("-remaining-", "-reset-")];
+      const resetMs = reset ? parseDurationMs(reset) : undefined;
+      if (resetMs !== undefined) {
+        retryAfterMs = Math.max(retryAfterMs ?? 0, resetMs);
+      }
+    }
+  }
+
+  return { retryAfterMs, remainingRequests };
+}
+// #endregion
+
+/**
+ * プロバイダー単位でAPIキーの健全性を追跡し、最適なキーを割り当てるクラス
+ * リクエストをまたいで共有されるため、直前に 429 や 401 を返したキーは
+ * 次のリクエストでも回避されます。
+ */
+export class ApiKeyPool {
+  private keys: KeyHealth[] = [];
+
+  /**
+   * ApiKeyPoolのコンストラクタ
+   * @param {string} name - ログ出力用の名前 (プロバイダーID)
+   * @param {string[]} keys - 使用するAPIキーの配列
+   */
+  constructor(
+    private readonly name: string,
+    keys: string[],
+  ) {
+    this.syncKeys(keys);
+  }
+
+  /**
+   * 環境変数の変更に追従するため、プールのキーを指定された配列と同期します。
+   * 既存のキーの状態は保持されます。
+   * @param {string[]} keys - 現在設定されているAPIキーの配列
+   */
+  public syncKeys(keys: string[]) {
+    const existing = new Map(this.keys.map((k) => [k.key, k]));
+    this.keys = keys.map(
+      (key) => existing.get(key) ?? { key, state: { status: "healthy" }, inFlight: 0, lastUsedAt: 0 },
+    );
+  }
+
+  /**
+   * 無効化されていない（クールダウン中を含む）APIキーの数を取得します。
+   * @returns {number} キーの数
+   */
+  public get keyCount(): number {
+    return this.keys.filter((k) => k.state.status !== "disabled").length;
+  }
+
+  /**
+   * 一定時間内に利用可能になるキーが存在しないか（プールが枯渇しているか）を判定します。
+   * @returns {boolean} 枯渇していれば true
+   */
+  public isExhausted(): boolean {
+    const waitMs = this.getWaitTimeMs();
+    return waitMs === null || waitMs > MAX_KEY_WAIT_MS;
+  }
+
+  /**
+   * 次にいずれかのキーが利用可能になるまでの時間を取得します。
+   * @returns {number | null} 待機時間 (ミリ秒、即時利用可能なら 0)。全キーが無効化済みの場合は null
+   */
+  private getWaitTimeMs(): number | null {
+    const now = Date.now();
+    let minWait: number | null = null;
+    for (const k of this.keys) {
+      if (k.state.status === "disabled") continue;
+      const wait = k.state.status === "cooling" ? Math.max(0, k.state.until - now) : 0;
+      minWait = minWait === null ? wait : Math.min(minWait, wait);
+    }
+    return minWait;
+  }
+
+  /**
+   * 現在利用可能なキーの中から最適なものを割り当てます。
+   * 実行中の呼び出しが少ないキー → 残りリクエスト数が多いキー → 最後の使用が古いキー の順に優先します。
+   * @returns {string | null} APIキー。利用可能なキーがない場合は null
+   */
+  public acquireKey(): string | null {
+    const now = Date.now();
+    const candidates = this.keys.filter((k) => {
+      if (k.state.status === "cooling" && k.state.until <= now) {
+        // クールダウン期間が終了したキーは復帰させる
+        k.state = { status: "healthy" };
+      }
+      return k.state.status === "healthy";
+    });
+    if (candidates.length === 0) return null;
+
+    candidates.sort(
+      (a, b) =>
+        a.inFlight - b.inFlight ||
+        (b.remainingRequests ?? Infinity) - (a.remainingRequests ?? Infinity) ||
+        a.lastUsedAt - b.lastUsedAt,
+    );
+    const chosen = candidates[0];
+    chosen.inFlight++;
+    chosen.lastUsedAt = now;
+    return chosen.key;
+  }
+
+  /**
+   * キーが利用可能になるまで待機してから割り当てます。
+   * @param {AbortSignal} [signal] - (オプション) 待機を中断するためのシグナル
+   * @returns {Promise<string | null>} APIキー。プールが枯渇している場合は null
+   */
+  public async waitForKey(signal?: AbortSignal): Promise<string | null> {
+    while (true) {
+      const key = this.acquireKey();
+      if (key) return key;
+      if (this.isExhausted()) return null;
+      await sleep(Math.max(this.getWaitTimeMs() ?? 0, 50), signal);
+    }
+  }
+
+  /**
+   * 呼び出しの成功を記録します。
+   * @param {string} key - 使用したAPIキー
+   * @param {Record<string, string>} [responseHeaders] - (オプション) レスポンスヘッダー (残りクォータの取得に使用)
+   */
+  public reportSuccess(key: string, responseHeaders?: Record<string, string>) {
+    const health = this.release(key);
+    if (!health) return;
+    const { remainingRequests } = parseRateLimitHeaders(responseHeaders);
+    if (remainingRequests !== undefined) {
+      health.remainingRequests = remainingRequests;
+    }
+  }
+
+  /**
+   * 呼び出しの失敗を記録し、ステータスに応じてキーの状態を更新します。
+   * - 401/403: キーを無効化
+   * - 429: `Retry-After` 等のヘッダーから求めた時刻までクールダウン
+   * - その他: 状態は変更しない (キー起因ではないため)
+   * @param {string} key - 使用したAPIキー
+   * @param {number} status - HTTPステータスコード
+   * @param {Record<string, string>} [responseHeaders] - (オプション) レスポンスヘッダー
+   */
+  public reportFailure(key: string, status: number, responseHeaders?: Record<string, string>) {
+    const health = this.release(key);
+    if (!health) return;
+
+    if (status === 401 || status === 403) {
+      if (health.state.status !== "disabled") {
+        health.state = { status: "disabled" };
+        console.warn(
+          `[ApiKeyPool:${this.name}] APIキー (末尾...${key.slice(-4)}) を無効化しました (永続的エラー: ${status})。`,
+        );
+      }
+      return;
+    }
+
+    if (status === 429) {
+      const { retryAfterMs, remainingRequests } = parseRateLimitHeaders(responseHeaders);
+      const cooldownMs = retryAfterMs ?? DEFAULT_RATE_LIMIT_COOLDOWN_MS;
+      health.state = { status: "cooling", until: Date.now() + cooldownMs };
+      health.remainingRequests = remainingRequests ?? 0;
+      console.warn(
+        `[ApiKeyPool:${this.name}] APIキー (末尾...${key.slice(-4)}) を ${Math.ceil(cooldownMs / 1000)} 秒間クールダウンします。`,
+      );
+    }
+  }
+
+  /**
+   * キーの割り当てを解除します。(中断時など、結果を記録しない場合にも使用)
+   * @param {string} key - 使用したAPIキー
+   * @returns {KeyHealth | undefined} キーの健全性情報
+   */
+  public release(key: string): KeyHealth | undefined {
+    const health = this.keys.find((k) => k.key === key);
+    if (health) {
+      health.inFlight = Math.max(0, health.inFlight - 1);
+    }
+    return health;
+  }
+}
+
+/**
+ * プロバイダーIDごとのキープール (プロセス全体で共有)
+ */
+const pools = new Map<string, ApiKeyPool>();
+
+/**
+ * プロバイダーのキープールを取得します。未作成の場合は作成します。
+ * @param {string} providerId - プロバイダーID
+ * @param {string[]} keys - 現在設定されているAPIキーの配列
+ * @returns {ApiKeyPool} キープール
+ */
+export function getApiKeyPool(providerId: string, keys: string[]): ApiKeyPool {
+  let pool = pools.get(providerId);
+  if (pool) {
+    pool.syncKeys(keys);
+  } else {
+    pool = new ApiKeyPool(providerId, keys);
+    pools.set(providerId, pool);
+  }
+  return pool;
+}
@@ -0,0 +1,443 @@
+// クライアントと /api/chat の間で受け渡されるデータの契約 (zod スキーマ)
+// DB (lib/db.ts) に保存されるメッセージ・モデル設定の型も、ここで定義したスキーマから導出します。
+
+import { z } from "zod";
+import {
+  DEFAULT_INTEGRATION_FALLBACK,
+  DEFAULT_INTEGRATION_STRATEGY,
+  DEFAULT_INTEGRATION_TOP_K,
+  DEFAULT_PROVIDER_ID,
+  INTEGRATION_FALLBACKS,
+  INTEGRATION_STRATEGIES,
+  MAX_DEBATE_ROUNDS,
+  MAX_KEEP_RECENT_TURNS,
+  SUMMARIZATION_TRIGGERS,
+  type IntegrationFallbackId,
+  type IntegrationStrategyId,
+  type SummarizationTriggerId,
+} from "./constants";
+
+// #region 定数
+/**
+ * /api/chat のプロトコルバージョン
+ * リクエスト・レスポンスの形式を互換性のない形で変更した場合はインクリメントしてください。
+ * (古いクライアントからのリクエストは 400 エラーとなり、再読み込みを促します)
+ */
+export const CHAT_PROTOCOL_VERSION = 2;
+
+/**
+ * 1回の呼び出しで指定できる最大出力トークン数の上限
+ */
+export const MAX_TOKENS_LIMIT = 131072;
+
+/**
+ * モデル名として許可する文字 (例: `llama-3.3-70b`, `qwen2.5:7b`, `meta-llama/Llama-3.1-8B`)
+ */
+const MODEL_NAME_PATTERN = /^[A-Za-z0-9._:/@-]+$/;
+// #endregion
+
+// #region スキーマ定義
+
+/**
+ * モデルの呼び出し設定 (要約・統合モデル、および推論モデルの共通部分)
+ */
+export const llmModelConfigSchema = z.object({
+  /** 使用するプロバイダーID (未指定の場合は DEFAULT_PROVIDER_ID) */
+  provider: z.string().min(1).default(DEFAULT_PROVIDER_ID),
+  modelName: z
+    .string()
+    .trim()
+    .min(1, "モデル名が空です")
+    .max(200, "モデル名が長すぎます")
+    .regex(MODEL_NAME_PATTERN, "モデル名に使用できない文字が含まれています"),
+  temperature: z.number().min(0, "0以上で指定してください").max(2, "2以下で指定してください"),
+  maxTokens: z
+    .number()
+    .int("整数で指定してください")
+    .positive("1以上で指定してください")
+    .max(MAX_TOKENS_LIMIT, `${MAX_TOKENS_LIMIT}以下で指定してください`),
+});
+
+/**
+ * 並行推論モデルの設定
+ */
+export const modelSettingsSchema = llmModelConfigSchema.extend({
+  id: z.string().min(1),
+  /** このモデルを並行推論で使用するか否か */
+  enabled: z.boolean(),
+});
+
+/**
+ * 統合戦略のID
+ */
+export const integrationStrategySchema = z.enum(
+  INTEGRATION_STRATEGIES.map((s) => s.id) as [IntegrationStrategyId, ...IntegrationStrategyId[]],
+);
+
+/**
+ * 統合モデルが失敗した場合のフォールバックのID
+ */
+export const integrationFallbackSchema = z.enum(
+  INTEGRATION_FALLBACKS.map((f) => f.id) as [IntegrationFallbackId, ...IntegrationFallbackId[]],
+);
+
+/**
+ * 統合モデルの設定 (呼び出し設定 + 統合戦略 + フォールバック)
+ */
+export const integratorModelSchema = llmModelConfigSchema.extend({
+  /** 複数の応答から最終回答を作成する方法 */
+  strategy: integrationStrategySchema.default(DEFAULT_INTEGRATION_STRATEGY),
+  /** 「順位付け＋上位統合」戦略で統合に使用する応答数 */
+  topK: z.number().int("整数で指定してください").min(1, "1以上で指定してください").default(DEFAULT_INTEGRATION_TOP_K),
+  /** 統合モデルの呼び出しがすべて失敗した場合の代替手段 */
+  fallback: integrationFallbackSchema.default(DEFAULT_INTEGRATION_FALLBACK),
+  /** 予備の統合モデル (フォールバックが "secondary" の場合のみ使用) */
+  fallbackModel: llmModelConfigSchema.optional(),
+});
+
+/**
+ * 討論モードの設定
+ */
+export const debateSettingsSchema = z.object({
+  enabled: z.boolean(),
+  /** 最初の並行推論を含むラウンド数 */
+  rounds: z
+    .number()
+    .int("整数で指定してください")
+    .min(2, "2以上で指定してください")
+    .max(MAX_DEBATE_ROUNDS, `${MAX_DEBATE_ROUNDS}以下で指定してください`),
+});
+
+/**
+ * 要約をトリガーする条件のID
+ */
+export const summarizationTriggerSchema = z.enum(
+  SUMMARIZATION_TRIGGERS.map((t) => t.id) as [SummarizationTriggerId, ...SummarizationTriggerId[]],
+);
+
+/**
+ * 会話履歴の自動要約のポリシー (アプリ設定と、会話ごとの上書き設定で共通)
+ */
+export const summarizationPolicySchema = z.object({
+  trigger: summarizationTriggerSchema,
+  /** 要約をトリガーする閾値 (単位は `trigger` により、件数・文字数・推定トークン数のいずれか) */
+  threshold: z.number().int("整数で指定してください").min(1, "1以上で指定してください"),
+  /** 要約せずにそのまま残す直近のやり取り（ユーザーの質問とその回答）の数 */
+  keepRecentTurns: z
+    .number()
+    .int("整数で指定してください")
+    .min(0, "0以上で指定してください")
+    .max(MAX_KEEP_RECENT_TURNS, `${MAX_KEEP_RECENT_TURNS}以下で指定してください`),
+});
+
+/**
+ * アプリケーション全体の設定（要約・統合・討論）
+ */
+export const appSettingsSchema = z.object({
+  summarizerModel: llmModelConfigSchema.optional(),
+  /** 要約ポリシー (未設定の場合は DEFAULT_SUMMARIZATION_POLICY。会話ごとの設定がある場合はクライアントで上書きして送信される) */
+  summarization: summarizationPolicySchema.optional(),
+  integratorModel: integratorModelSchema.optional(),
+  /** 討論モード (推論モデル同士が互いの回答を読んで改訂する) */
+  debate: debateSettingsSchema.optional(),
+});
+
+/**
+ * 1回のモデル呼び出し（推論・要約・統合）の計測結果
+ * (トークン数と終了理由はプロバイダーが報告しない場合があるため省略可能)
+ */
+export const callMetricsSchema = z.object({
+  /** 入力トークン数 */
+  inputTokens: z.number().optional(),
+  /** 出力トークン数 */
+  outputTokens: z.number().optional(),
+  /** 最初のトークンを受信するまでの時間 (ミリ秒) */
+  timeToFirstTokenMs: z.number().optional(),
+  /** 成功した試行の開始から応答完了までの時間 (ミリ秒) */
+  latencyMs: z.number(),
+  /** 終了理由 (`stop`, `length` など) */
+  finishReason: z.string().optional(),
+  /** 成功までに要した試行回数 */
+  attempts: z.number(),
+  /** コンテキストウィンドウに収めるために省略した古いメッセージの数 (省略しなかった場合は省略) */
+  droppedMessages: z.number().optional(),
+  /** 成功した試行で使用したAPIキーの末尾4文字 (APIキーが不要なプロバイダーの場合は省略) */
+  keySuffix: z.string().optional(),
+});
+
+/**
+ * 統合の実行内容 (どの戦略で、どの応答が選ばれたか)
+ * 応答のインデックスは `modelResponses` 内の位置 (0始まり) です。
+ */
+export const integrationInfoSchema = z.object({
+  strategy: integrationStrategySchema,
+  /** 最終回答として選ばれた応答 (審査: 1件、多数決: 多数派の全件) */
+  selectedIndices: z.array(z.number()).optional(),
+  /** 応答の順位 (順位付け＋上位統合のみ。先頭が1位) */
+  ranking: z.array(z.number()).optional(),
+  /** 統合モデルによる判断の理由 */
+  rationale: z.string().optional(),
+});
+
+/**
+ * 統合モデルの呼び出しに失敗し、フォールバックで最終回答を作成した場合の情報
+ */
+export const integrationFailureSchema = z.object({
+  /** 統合モデルの最後のエラーメッセージ */
+  error: z.string(),
+  /** 実際に使用したフォールバック (予備の統合モデルも失敗した場合は "none") */
+  fallback: integrationFallbackSchema,
+});
+
+/**
+ * 保存済みの個別応答から、統合のみを再実行して作成した別の最終回答
+ * (元の最終回答は置き換えず、メッセージの `alternateAnswers` に追加される)
+ * 個別応答などを最終回答に採用した場合は、それまでの最終回答もここに退避される
+ */
+export const alternateAnswerSchema = z.object({
+  content: z.string(),
+  /** 使用した統合戦略とその結果 */
+  integration: integrationInfoSchema.optional(),
+  /** 統合モデルの呼び出しの計測結果 */
+  integratorMetrics: callMetricsSchema.optional(),
+  /** 使用した統合モデル (最終回答から退避した回答など、不明な場合は省略) */
+  integratorModel: llmModelConfigSchema.pick({ provider: true, modelName: true }).optional(),
+  /** 作成日時 */
+  createdAt: z.number(),
+});
+
+/**
+ * リトライ上限まで失敗し、応答を得られなかった推論モデル
+ */
+export const failedModelSchema = z.object({
+  /** 推論モデルの設定のID (「このモデルを再試行」で設定を特定するために使用) */
+  modelId: z.string(),
+  model: z.string(),
+  provider: z.string(),
+  /** 最後のエラーのHTTPステータス (すべてのAPIキーが利用不可になった場合などは省略) */
+  status: z.number().optional(),
+  /** 最後のエラーメッセージ */
+  error: z.string(),
+});
+
+/**
+ * アシスタントメッセージに紐づく、各推論モデルの個別応答
+ */
+export const modelResponseSchema = z.object({
+  model: z.string(),
+  provider: z.string(),
+  content: z.string(),
+  /** 生成途中で停止された場合は "stopped" */
+  status: z.literal("stopped").optional(),
+  /** 呼び出しの計測結果 (停止された応答などでは省略) */
+  metrics: callMetricsSchema.optional(),
+});
+
+/**
+ * チャットメッセージの構造 (回答のバージョンを除く)
+ */
+const messageFieldsSchema = z.object({
+  id: z.string().min(1),
+  /** メッセージの送信者 (systemは要約などに使用) */
+  role: z.enum(["user", "assistant", "system"]),
+  content: z.string(),
+  timestamp: z.number(),
+  conversationId: z.string().min(1),
+  /** 直前のメッセージのID (会話の最初のメッセージの場合はなし)。メッセージの編集では同じ親に分岐が作られる */
+  parentId: z.string().optional(),
+  /** 会話内の通し番号 (1始まり)。DBへの追加時に割り当てられる */
+  sequence: z.number().int().positive().optional(),
+  /** アシスタントの場合、各モデルの個別応答を保持 */
+  modelResponses: z.array(modelResponseSchema).optional(),
+  /** アシスタントの場合、応答を得られなかった推論モデル (再試行に成功すると `modelResponses` に移る) */
+  failedModels: z.array(failedModelSchema).optional(),
+  /** 生成がユーザーによって停止された応答か (途中までの出力を保持) */
+  stopped: z.boolean().optional(),
+  /** この応答の生成時に要約が実行された場合、要約モデルの呼び出しの計測結果 */
+  summarizerMetrics: callMetricsSchema.optional(),
+  /** 統合モデルの呼び出しの計測結果 */
+  integratorMetrics: callMetricsSchema.optional(),
+  /** 複数の応答を統合した場合、使用した統合戦略とその結果 */
+  integration: integrationInfoSchema.optional(),
+  /** 複数の応答を統合した場合、使用した統合モデル */
+  integratorModel: llmModelConfigSchema.pick({ provider: true, modelName: true }).optional(),
+  /** 統合モデルの呼び出しに失敗し、フォールバックで最終回答を作成した場合の情報 (統合を再試行して成功すると削除される) */
+  integrationFailure: integrationFailureSchema.optional(),
+  /** 同じ個別応答から、別の統合モデル・統合戦略で作成した最終回答 (会話のコンテキストには `content` が使用される) */
+  alternateAnswers: z.array(alternateAnswerSchema).optional(),
+  /** ユーザーが個別応答を最終回答に採用した場合、採用した応答 (`content` はその応答の本文になる) */
+  promotedFrom: z
+    .object({
+      /** `modelResponses` 内の位置 (0始まり) */
+      responseIndex: z.number(),
+      model: z.string(),
+    })
+    .optional(),
+  /** 討論モードの場合、各ラウンドの応答 (先頭が最初の並行推論。`modelResponses` は各モデルの最終的な立場) */
+  debateRounds: z.array(z.array(modelResponseSchema)).optional(),
+  /**
+   * (旧形式) 要約によりモデルのコンテキストから除外されたか。
+   * 分岐ごとにコンテキストが異なるため、現在はパス上の要約メッセージの `summarizedMessageIds` から判定する
+   */
+  archived: z.boolean().optional(),
+  /** 要約メッセージの場合、この要約が置き換えた元のメッセージのID (以前の要約が置き換えたものを含む) */
+  summarizedMessageIds: z.array(z.string()).optional(),
+});
+
+/**
+ * アシスタントメッセージの回答の1つのバージョン (再生成するたびに追加される)
+ */
+export const messageVersionSchema = messageFieldsSchema
+  .pick({
+    content: true,
+    modelResponses: true,
+    failedModels: true,
+    stopped: true,
+    summarizerMetrics: true,
+    integratorMetrics: true,
+    integration: true,
+    integratorModel: true,
+    integrationFailure: true,
+    alternateAnswers: true,
+    promotedFrom: true,
+    debateRounds: true,
+  })
+  .extend({
+    /** 作成日時 */
+    createdAt: z.number(),
+  });
+
+/**
+ * チャットメッセージの構造
+ */
+export const messageSchema = messageFieldsSchema.extend({
+  /**
+   * アシスタントの場合、再生成で作成された回答のバージョン (作成順、再生成していない場合は省略)。
+   * 選択中のバージョンの内容は `content` などに展開され、会話のコンテキストにはそれが使用される
+   */
+  versions: z.array(messageVersionSchema).optional(),
+  /** 選択中のバージョンの `versions` 内の位置 */
+  activeVersion: z.number().optional(),
+});
+
+/**
+ * リクエストのプロトコルバージョン (/api/chat, /api/integrate で共通)
+ */
+const protocolVersionSchema = z.literal(CHAT_PROTOCOL_VERSION, {
+  errorMap: () => ({
+    message: `サポートされていないプロトコルバージョンです (サーバー: ${CHAT_PROTOCOL_VERSION})。ページを再読み込みしてください`,
+  }),
+});
+
+/**
+ * モデルに送信する会話履歴 (最後はユーザーの質問)
+ */
+const conversationHistorySchema = z
+  .array(messageSchema)
+  .min(1, "メッセージがありません")
+  .refine((messages) => messages.at(-1)?.role === "user", "最後のメッセージはユーザーのメッセージである必要があります");
+
+/**
+ * /api/chat へのリクエストボディ
+ */
+export const chatRequestSchema = z.object({
+  protocolVersion: protocolVersionSchema,
+  messages: conversationHistorySchema,
+  /** 有効な推論モデルの設定 */
+  modelSettings: z.array(modelSettingsSchema).min(1, "有効な推論モデルが設定されていません"),
+  appSettings: appSettingsSchema.nullish().transform((settings) => settings ?? {}),
+  systemPrompt: z.string().optional(),
+});
+
+/**
+ * /api/integrate へのリクエストボディ (保存済みの個別応答から統合のみを再実行する)
+ */
+export const integrateRequestSchema = z.object({
+  protocolVersion: protocolVersionSchema,
+  /** 統合する応答の元になった会話履歴 (最後はユーザーの質問) */
+  messages: conversationHistorySchema,
+  /** 統合する各モデルの個別応答 */
+  modelResponses: z.array(modelResponseSchema).min(2, "統合するには2つ以上の応答が必要です"),
+  integratorModel: integratorModelSchema,
+  systemPrompt: z.string().optional(),
+});
+
+/**
+ * /api/infer へのリクエストボディ (1つの推論モデルのみを再実行する)
+ */
+export const inferRequestSchema = z.object({
+  protocolVersion: protocolVersionSchema,
+  /** 応答を生成する会話履歴 (最後はユーザーの質問) */
+  messages: conversationHistorySchema,
+  model: modelSettingsSchema,
+  systemPrompt: z.string().optional(),
+});
+// #endregion
+
+// #region 型定義
+export type LlmModelConfig = z.infer<typeof llmModelConfigSchema>;
+export type ModelSettings = z.infer<typeof modelSettingsSchema>;
+export type IntegratorModelConfig = z.infer<typeof integratorModelSchema>;
+export type DebateSettings = z.infer<typeof debateSettingsSchema>;
+export type SummarizationPolicy = z.infer<typeof summarizationPolicySchema>;
+export type AppSettings = z.infer<typeof appSettingsSchema>;
+export type IntegrationInfo = z.infer<typeof integrationInfoSchema>;
+export type IntegrationFailure = z.infer<typeof integrationFailureSchema>;
+export type FailedModel = z.infer<typeof failedModelSchema>;
+export type AlternateAnswer = z.infer<typeof alternateAnswerSchema>;
+export type CallMetrics = z.infer<typeof callMetricsSchema>;
+export type ModelResponse = z.infer<typeof modelResponseSchema>;
+export type MessageVersion = z.infer<typeof messageVersionSchema>;
+export type Message = z.infer<typeof messageSchema>;
+/** /api/chat へのリクエストボディ (バリデーション前の送信形式) */
+export type ChatRequest = z.input<typeof chatRequestSchema>;
+export type IntegrateRequest = z.input<typeof integrateRequestSchema>;
+export type InferRequest = z.input<typeof inferRequestSchema>;
+
+/**
+ * バリデーションエラーの詳細 (どのフィールドが不正か)
+ */
+export interface ChatRequestIssue {
+  /** 不正なフィールドのパス (例: `modelSettings[0].maxTokens`) */
+  field: string;
+  message: string;
+}
+
+/**
+ * /api/chat (および /api/integrate, /api/infer) がストリーム開始前に返すエラー応答 (JSON)
+ */
+export interface ChatErrorResponse {
+  error: string;
+  /** リクエストのバリデーションに失敗した場合の詳細 */
+  issues?: ChatRequestIssue[];
+}
+// #endregion
+
+/**
+ * zod のエラーパスを `modelSettings[0].maxTokens` 形式の文字列に変換します。
+ * @param {(string | number)[]} path - エラーパス
+ * @returns {string} フィールド名
+ */
+function formatFieldPath(path: (string | number)[]): string {
+  return path.reduce<string>(
+    (acc, segment) => (typeof segment === "number" ? `${acc}[${segment}]` : acc ? `${acc}.${segment}` : segment),
+    "",
+  );
+}
+
+/**
+ * バリデーションエラーを、フィールド名を含むエラー応答に変換します。
+ * @param {z.ZodError} error - zod のバリデーションエラー
+ * @returns {ChatErrorResponse} エラー応答
+ */
+export function toChatErrorResponse(error: z.ZodError): ChatErrorResponse {
+  const issues = error.issues.map((issue) => ({
+    field: formatFieldPath(issue.path) || "(body)",
+    message: issue.message,
+  }));
+  const first = issues[0];
+  return {
+    error: `リクエストが不正です: ${first.field} - ${first.message}`,
+    issues,
+  };
+}
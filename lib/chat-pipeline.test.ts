@@ -0,0 +1,506 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ApiKeyPool } from "./api-key-pool";
+import type { AppSettings, LlmModelConfig, Message, ModelSettings } from "./chat-contract";
+import type { ChatStreamEvent } from "./chat-stream";
+import {
+  createInferenceTask,
+  runChatPipeline,
+  runInferenceRound,
+  runIntegration,
+  runSingleInference,
+  type PipelineContext,
+} from "./chat-pipeline";
+import { LlmApiError, type LlmCaller, type LlmMessage } from "./llm-call";
+
+// リトライのバックオフを待たずにテストする
+vi.mock("./retry", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./retry")>()),
+  computeBackoffDelay: () => 0,
+}));
+
+// #region テスト用のデータとスタブ
+
+/**
+ * スタブのモデル層が受け取った1回分の呼び出し
+ */
+interface RecordedCall {
+  apiKey: string;
+  modelName: string;
+  messages: LlmMessage[];
+}
+
+/**
+ * 呼び出しごとに応答（文字列）または失敗（LlmApiError）を返す、スタブのモデル層を作成します。
+ * @param {(call: RecordedCall, index: number) => string | LlmApiError} respond - 何番目の呼び出しか (0始まり) を受け取り、応答を決める関数
+ */
+function createStubLlm(respond: (call: RecordedCall, index: number) => string | LlmApiError) {
+  const calls: RecordedCall[] = [];
+  const callLlm: LlmCaller = async (apiKey, messages, modelSettings, onDelta) => {
+    const call = { apiKey, modelName: modelSettings.modelName, messages };
+    const response = respond(call, calls.length);
+    calls.push(call);
+    if (response instanceof LlmApiError) throw response;
+    onDelta?.(response);
+    return { text: response, metrics: { latencyMs: 1 } };
+  };
+  return { callLlm, calls };
+}
+
+const baseModel = { provider: "cerebras", temperature: 0.7, maxTokens: 1000 };
+
+function inferenceModel(id: string, modelName: string): ModelSettings {
+  return { ...baseModel, id, modelName, enabled: true };
+}
+
+const summarizerModel: LlmModelConfig = { ...baseModel, modelName: "summarizer" };
+const integratorModel = {
+  ...baseModel,
+  modelName: "integrator",
+  strategy: "synthesize" as const,
+  topK: 3,
+  fallback: "none" as const,
+};
+
+/**
+ * ユーザーとアシスタントが交互に発言した会話履歴を作成します。(最後はユーザーの質問)
+ */
+function conversation(length: number): Message[] {
+  return Array.from({ length }, (_, i) => ({
+    id: `msg_${1000 + i}`,
+    role: i % 2 === 0 ? "user" : "assistant",
+    content: `メッセージ${i}`,
+    timestamp: 1000 + i,
+    conversationId: "conv_1",
+  }));
+}
+
+/**
+ * パイプラインを実行し、結果（またはエラー）と送信されたイベントを返します。
+ */
+async function runPipeline(options: {
+  keys?: string[];
+  messages?: Message[];
+  models: ModelSettings[];
+  appSettings?: AppSettings;
+  callLlm: LlmCaller;
+}) {
+  const pool = new ApiKeyPool("cerebras", options.keys ?? ["key-aaaa", "key-bbbb"]);
+  const events: ChatStreamEvent[] = [];
+  const run = runChatPipeline(
+    {
+      apiKeyPools: new Map([["cerebras", pool]]),
+      messages: options.messages ?? conversation(1),
+      enabledModels: options.models,
+      appSettings: options.appSettings ?? {},
+      abortSignal: new AbortController().signal,
+      callLlm: options.callLlm,
+    },
+    (event) => events.push(event),
+  );
+  const [result, error] = await run.then(
+    (r) => [r, null] as const,
+    (e: Error) => [null, e] as const,
+  );
+  return { result, error, events, pool };
+}
+// #endregion
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("runInferenceRound", () => {
+  it("同じプロバイダーのキーが無効化されたら、試行回数の上限を引き上げて残りのキーを試す", async () => {
+    const pool = new ApiKeyPool("cerebras", ["key-1111", "key-2222", "key-3333"]);
+    const revoked = new Set(["key-2222", "key-3333"]);
+    const { callLlm, calls } = createStubLlm(({ apiKey }, index) => {
+      if (index === 0) return new LlmApiError("server error", 500, apiKey);
+      if (revoked.has(apiKey)) return new LlmApiError("unauthorized", 401, apiKey);
+      return "回答";
+    });
+    const task = createInferenceTask("m1", inferenceModel("m1", "model-a"), pool, []);
+    expect(task.maxAttempts).toBe(3);
+
+    const ctx: PipelineContext = {
+      getPoolFor: () => pool,
+      callLlm,
+      emit: () => {},
+      abortSignal: new AbortController().signal,
+    };
+    await runInferenceRound([task], ctx);
+
+    expect(task.status).toBe("fulfilled");
+    expect(task.attempts).toBe(4);
+    expect(task.maxAttempts).toBe(4);
+    expect(calls.map((c) => c.apiKey)).toEqual(["key-1111", "key-2222", "key-3333", "key-1111"]);
+  });
+});
+
+describe("runChatPipeline", () => {
+  it("すべての推論モデルの応答を統合モデルでまとめる", async () => {
+    const { callLlm, calls } = createStubLlm(({ modelName }) =>
+      modelName === "integrator" ? "統合された回答" : `${modelName} の回答`,
+    );
+
+    const { result, error } = await runPipeline({
+      models: [inferenceModel("m1", "model-a"), inferenceModel("m2", "model-b")],
+      appSettings: { integratorModel },
+      callLlm,
+    });
+
+    expect(error).toBeNull();
+    expect(result?.content).toBe("統合された回答");
+    expect(result?.modelResponses.map((r) => r.content)).toEqual(["model-a の回答", "model-b の回答"]);
+    expect(result?.failedModels).toBeUndefined();
+    expect(result?.integration).toEqual({ strategy: "synthesize" });
+    expect(calls.at(-1)?.messages.at(-1)?.content).toContain("model-b の回答");
+  });
+
+  it("リクエストの途中ですべてのキーが無効化された場合は、推論を諦めてエラーにする", async () => {
+    // 要約までは成功し、その後の呼び出しはすべて 401 になる
+    const { callLlm, calls } = createStubLlm(({ apiKey }, index) =>
+      index === 0 ? "要約" : new LlmApiError("unauthorized", 401, apiKey),
+    );
+
+    const { result, error, events, pool } = await runPipeline({
+      messages: conversation(5),
+      models: [inferenceModel("m1", "model-a"), inferenceModel("m2", "model-b")],
+      appSettings: {
+        summarizerModel,
+        summarization: { trigger: "message-count", threshold: 2, keepRecentTurns: 0 },
+        integratorModel,
+      },
+      callLlm,
+    });
+
+    expect(result).toBeNull();
+    expect(error?.message).toMatch(/^全ての推論モデルが応答に失敗しました/);
+    expect(pool.keyCount).toBe(0);
+    // 無効化されたキーでリトライを繰り返さない (要約1回 + 各モデル1回)
+    expect(calls).toHaveLength(3);
+    const finalFailures = events.filter((e) => e.type === "model-failed" && !e.willRetry);
+    expect(finalFailures.map((e) => e.type === "model-failed" && e.modelId).sort()).toEqual(["m1", "m2"]);
+  });
+
+  it("1つのモデルが 404 になっても、他のモデルの応答で続行する", async () => {
+    const { callLlm, calls } = createStubLlm(({ apiKey, modelName }) =>
+      modelName === "missing-model" ? new LlmApiError("not found", 404, apiKey) : `${modelName} の回答`,
+    );
+
+    const { result, error, events, pool } = await runPipeline({
+      models: [inferenceModel("m1", "model-a"), inferenceModel("m2", "missing-model")],
+      appSettings: { integratorModel },
+      callLlm,
+    });
+
+    expect(error).toBeNull();
+    // 応答が1件だけになったため、統合せずにそのまま最終回答とする
+    expect(result?.content).toBe("model-a の回答");
+    expect(result?.modelResponses.map((r) => r.model)).toEqual(["model-a"]);
+    // 失敗したモデルは、最後のエラーとともに報告する
+    expect(result?.failedModels).toEqual([
+      { modelId: "m2", model: "missing-model", provider: "cerebras", status: 404, error: "not found" },
+    ]);
+    // 404 はリトライせず、キーも無効化しない
+    expect(calls.filter((c) => c.modelName === "missing-model")).toHaveLength(1);
+    expect(calls.some((c) => c.modelName === "integrator")).toBe(false);
+    expect(pool.keyCount).toBe(2);
+    expect(events).toContainEqual({
+      type: "model-failed",
+      modelId: "m2",
+      model: "missing-model",
+      error: "not found",
+      willRetry: false,
+    });
+  });
+
+  describe("統合モデルがリトライ上限まで失敗した場合", () => {
+    // 統合モデル (と予備の統合モデル) だけが失敗するモデル層
+    const failingIntegrator = () =>
+      createStubLlm(({ apiKey, modelName }) =>
+        modelName.startsWith("integrator")
+          ? new LlmApiError("server error", 500, apiKey)
+          : modelName === "model-b"
+            ? "model-b の長めの回答"
+            : `${modelName} の回答`,
+      );
+    const models = [inferenceModel("m1", "model-a"), inferenceModel("m2", "model-b")];
+
+    it("エラーにせず、個別の応答を並べて警告を付ける", async () => {
+      const { callLlm, calls } = failingIntegrator();
+
+      const { result, error, events } = await runPipeline({ models, appSettings: { integratorModel }, callLlm });
+
+      expect(error).toBeNull();
+      expect(result?.content).toContain("model-a の回答");
+      expect(result?.content).toContain("model-b の長めの回答");
+      expect(result?.integration).toEqual({ strategy: "pass-through" });
+      expect(result?.integrationFailure).toEqual({
+        error: "統合モデルの呼び出しに失敗しました: server error",
+        fallback: "none",
+      });
+      expect(result?.modelResponses).toHaveLength(2);
+      expect(calls.filter((c) => c.modelName === "integrator")).toHaveLength(3);
+      expect(events.filter((e) => e.type === "integrator-started")).toHaveLength(3);
+    });
+
+    it.each([
+      ["first", "model-a の回答"],
+      ["longest", "model-b の長めの回答"],
+    ] as const)("フォールバック %s で選んだ応答を最終回答にする", async (fallback, expected) => {
+      const { callLlm } = failingIntegrator();
+
+      const { result } = await runPipeline({
+        models,
+        appSettings: { integratorModel: { ...integratorModel, fallback } },
+        callLlm,
+      });
+
+      expect(result?.content).toBe(expected);
+      expect(result?.integration).toBeUndefined();
+      expect(result?.integrationFailure?.fallback).toBe(fallback);
+    });
+
+    it("予備の統合モデルで統合し直す", async () => {
+      const { callLlm, calls } = createStubLlm(({ apiKey, modelName }) =>
+        modelName === "integrator"
+          ? new LlmApiError("server error", 500, apiKey)
+          : modelName === "backup"
+            ? "予備モデルの統合結果"
+            : `${modelName} の回答`,
+      );
+
+      const { result } = await runPipeline({
+        models,
+        appSettings: {
+          integratorModel: {
+            ...integratorModel,
+            fallback: "secondary",
+            fallbackModel: { ...baseModel, modelName: "backup" },
+          },
+        },
+        callLlm,
+      });
+
+      expect(result?.content).toBe("予備モデルの統合結果");
+      expect(result?.integration).toEqual({ strategy: "synthesize" });
+      expect(result?.integrationFailure).toEqual({
+        error: "統合モデルの呼び出しに失敗しました: server error",
+        fallback: "secondary",
+      });
+      // 予備の統合モデルにも同じ統合プロンプトを送る
+      expect(calls.find((c) => c.modelName === "backup")?.messages).toEqual(
+        calls.find((c) => c.modelName === "integrator")?.messages,
+      );
+    });
+
+    it("予備の統合モデルも失敗した場合は、個別の応答を並べる", async () => {
+      const { callLlm } = failingIntegrator();
+
+      const { result, error } = await runPipeline({
+        models,
+        appSettings: {
+          integratorModel: {
+            ...integratorModel,
+            fallback: "secondary",
+            fallbackModel: { ...baseModel, modelName: "integrator-backup" },
+          },
+        },
+        callLlm,
+      });
+
+      expect(error).toBeNull();
+      expect(result?.integration).toEqual({ strategy: "pass-through" });
+      expect(result?.integrationFailure?.fallback).toBe("none");
+    });
+  });
+
+  it("要約に失敗した場合は、圧縮されていない履歴で推論を続行する", async () => {
+    const messages = conversation(5);
+    const { callLlm, calls } = createStubLlm(({ apiKey, modelName }) =>
+      modelName === "summarizer" ? new LlmApiError("server error", 500, apiKey) : "回答",
+    );
+
+    const { result, error, events } = await runPipeline({
+      messages,
+      models: [inferenceModel("m1", "model-a")],
+      appSettings: {
+        summarizerModel,
+        summarization: { trigger: "message-count", threshold: 2, keepRecentTurns: 0 },
+      },
+      callLlm,
+    });
+
+    expect(error).toBeNull();
+    expect(result?.content).toBe("回答");
+    expect(result?.compaction).toBeUndefined();
+    expect(result?.summarizerMetrics).toBeUndefined();
+    expect(events).toContainEqual({ type: "summarizer-finished", success: false });
+    // 推論モデルには、元の履歴がすべてそのまま渡される
+    const inferenceCall = calls.find((c) => c.modelName === "model-a");
+    expect(inferenceCall?.messages).toEqual(messages.map((m) => ({ role: m.role, content: m.content })));
+  });
+
+  it("要約に成功した場合は、要約と最新の質問だけを推論モデルに渡す", async () => {
+    const messages = conversation(5);
+    const { callLlm, calls } = createStubLlm(({ modelName }) => (modelName === "summarizer" ? "要約の本文" : "回答"));
+
+    const { result } = await runPipeline({
+      messages,
+      models: [inferenceModel("m1", "model-a")],
+      appSettings: {
+        summarizerModel,
+        summarization: { trigger: "message-count", threshold: 2, keepRecentTurns: 0 },
+      },
+      callLlm,
+    });
+
+    expect(result?.compaction?.compactedMessageIds).toEqual(messages.slice(0, -1).map((m) => m.id));
+    expect(result?.compaction?.summaryMessage.content).toContain("要約の本文");
+    // 要約は、要約に置き換えた最後のメッセージの子になる
+    expect(result?.compaction?.summaryMessage.parentId).toBe(messages.at(-2)?.id);
+    const inferenceCall = calls.find((c) => c.modelName === "model-a");
+    expect(inferenceCall?.messages).toHaveLength(2);
+    expect(inferenceCall?.messages.at(-1)?.content).toBe(messages.at(-1)?.content);
+  });
+
+  it("要約モデルのコンテキストウィンドウに収まらない場合は、送信した古いメッセージのみを要約に置き換える", async () => {
+    // 1件あたり約1万トークン (llama3.1-8b の入力の予算は約2.2万トークン)
+    const messages = conversation(5).map((m) => ({ ...m, content: "長".repeat(10000) }));
+    const { callLlm, calls } = createStubLlm(({ modelName }) => (modelName === "summarizer" ? "要約の本文" : "回答"));
+
+    const { result } = await runPipeline({
+      messages,
+      models: [inferenceModel("m1", "model-a")],
+      appSettings: {
+        summarizerModel: { ...summarizerModel, modelName: "llama3.1-8b", maxTokens: 8192 },
+        summarization: { trigger: "message-count", threshold: 2, keepRecentTurns: 0 },
+      },
+      callLlm,
+    });
+
+    // 要約モデルには古い2件と指示のみを送信する
+    const summarizerCall = calls.find((c) => c.modelName === "llama3.1-8b");
+    expect(summarizerCall?.messages).toHaveLength(3);
+    expect(result?.compaction?.compactedMessageIds).toEqual(messages.slice(0, 2).map((m) => m.id));
+    expect(result?.compaction?.keptMessageIds).toEqual(messages.slice(2, -1).map((m) => m.id));
+    expect(result?.compaction?.summaryMessage.summarizedMessageIds).toEqual(messages.slice(0, 2).map((m) => m.id));
+    expect(result?.compaction?.summaryMessage.parentId).toBe(messages[1].id);
+    // 要約しなかったメッセージは、要約の後に推論モデルのコンテキストとして残る
+    const inferenceCall = calls.find((c) => c.modelName === "model-a");
+    expect(inferenceCall?.messages).toHaveLength(4);
+  });
+});
+
+describe("runChatPipeline (モックプロバイダー)", () => {
+  beforeEach(() => {
+    process.env.MOCK_LLM_LATENCY_MS = "0";
+    process.env.MOCK_LLM_CHUNK_DELAY_MS = "0";
+    process.env.MOCK_LLM_SCRIPT = JSON.stringify(["モックの統合結果"]);
+  });
+
+  afterEach(() => {
+    delete process.env.MOCK_LLM_LATENCY_MS;
+    delete process.env.MOCK_LLM_CHUNK_DELAY_MS;
+    delete process.env.MOCK_LLM_SCRIPT;
+  });
+
+  it("実際のLLM呼び出し処理を通して、失敗したモデルを除いて統合する", async () => {
+    const mock = (id: string, modelName: string): ModelSettings => ({
+      ...inferenceModel(id, modelName),
+      provider: "mock",
+    });
+    const events: ChatStreamEvent[] = [];
+
+    const result = await runChatPipeline(
+      {
+        apiKeyPools: new Map([["mock", new ApiKeyPool("mock", ["mock-key-1", "mock-key-2"])]]),
+        messages: conversation(1),
+        enabledModels: [mock("m1", "mock-echo"), mock("m2", "mock-echo"), mock("m3", "mock-error-404")],
+        appSettings: { integratorModel: { ...integratorModel, provider: "mock", modelName: "mock-script" } },
+        abortSignal: new AbortController().signal,
+      },
+      (event) => events.push(event),
+    );
+
+    expect(result.content).toBe("モックの統合結果");
+    expect(result.modelResponses).toHaveLength(2);
+    expect(result.modelResponses[0].content).toContain("メッセージ0");
+    expect(events.filter((e) => e.type === "model-delta").length).toBeGreaterThan(2);
+    expect(events).toContainEqual(expect.objectContaining({ type: "model-failed", modelId: "m3", willRetry: false }));
+  });
+});
+
+describe("runIntegration", () => {
+  const modelResponses = [
+    { model: "model-a", provider: "cerebras", content: "model-a の回答" },
+    { model: "model-b", provider: "cerebras", content: "model-b の回答" },
+  ];
+  const run = (callLlm: LlmCaller) =>
+    runIntegration(
+      {
+        apiKeyPools: new Map([["cerebras", new ApiKeyPool("cerebras", ["key-1111"])]]),
+        messages: conversation(3),
+        modelResponses,
+        integratorModel: { ...integratorModel, fallback: "longest" },
+        systemPrompt: "簡潔に答えてください",
+        abortSignal: new AbortController().signal,
+        callLlm,
+      },
+      () => {},
+    );
+
+  it("保存済みの応答を統合モデルだけでまとめ直す", async () => {
+    const { callLlm, calls } = createStubLlm(() => "統合された回答");
+
+    const result = await run(callLlm);
+
+    expect(result.content).toBe("統合された回答");
+    expect(result.modelResponses).toEqual(modelResponses);
+    expect(calls.map((c) => c.modelName)).toEqual(["integrator"]);
+    expect(calls[0].messages[0]).toEqual({ role: "system", content: "簡潔に答えてください" });
+  });
+
+  it("統合モデルが失敗した場合は、フォールバックせずにエラーにする", async () => {
+    const { callLlm } = createStubLlm(({ apiKey }) => new LlmApiError("server error", 500, apiKey));
+
+    await expect(run(callLlm)).rejects.toThrow("統合モデルの呼び出しに失敗しました: server error");
+  });
+});
+
+describe("runSingleInference", () => {
+  const run = (callLlm: LlmCaller) =>
+    runSingleInference(
+      {
+        apiKeyPools: new Map([["cerebras", new ApiKeyPool("cerebras", ["key-1111", "key-2222"])]]),
+        messages: conversation(3),
+        model: inferenceModel("m2", "model-b"),
+        abortSignal: new AbortController().signal,
+        callLlm,
+      },
+      () => {},
+    );
+
+  it("指定されたモデルのみで応答を生成する (一時的エラーはリトライする)", async () => {
+    const { callLlm, calls } = createStubLlm(({ apiKey }, index) =>
+      index === 0 ? new LlmApiError("server error", 503, apiKey) : "model-b の回答",
+    );
+
+    const result = await run(callLlm);
+
+    expect(result.modelResponses).toEqual([expect.objectContaining({ model: "model-b", content: "model-b の回答" })]);
+    expect(calls.map((c) => c.modelName)).toEqual(["model-b", "model-b"]);
+  });
+
+  it("リトライ上限まで失敗した場合は、最後のエラーを含めてエラーにする", async () => {
+    const { callLlm } = createStubLlm(({ apiKey }) => new LlmApiError("not found", 404, apiKey));
+
+    await expect(run(callLlm)).rejects.toThrow("model-b の応答に失敗しました: not found");
+  });
+});
@@ -0,0 +1,892 @@
+// 要約 → 並行推論 (→ 討論) → 統合 のチャット処理パイプライン
+// (サーバーサイド専用。/api/chat, /api/integrate, /api/infer から使用されます。LLMの呼び出しは `callLlm` で差し替え可能です)
+
+import type { ApiKeyPool } from "./api-key-pool";
+import type { ChatResult, ChatStreamEvent, HistoryCompaction } from "./chat-stream";
+import type {
+  AppSettings,
+  CallMetrics,
+  FailedModel,
+  IntegrationFailure,
+  IntegrationInfo,
+  IntegratorModelConfig,
+  LlmModelConfig,
+  Message,
+  ModelResponse,
+  ModelSettings,
+} from "./chat-contract";
+import { DEFAULT_INTEGRATION_FALLBACK, DEFAULT_SUMMARIZATION_POLICY } from "./constants";
+import { estimatePromptTokens, getContextBudget } from "./context-budget";
+import { createId } from "./ids";
+import { getIntegrationStrategy } from "./integration-strategies";
+import {
+  buildCallMetrics,
+  callLlmApi,
+  callWithKeyRotation,
+  classifyError,
+  growMaxAttempts,
+  LlmApiError,
+  MIN_RETRY_ATTEMPTS,
+  type KeyRotationResult,
+  type LlmCaller,
+  type LlmMessage,
+} from "./llm-call";
+import { computeBackoffDelay, sleep } from "./retry";
+import { isSummarizationTriggered, splitRecentTurns } from "./summarization-policy";
+
+// #region 型定義
+
+/**
+ * チャット処理パイプラインへの入力
+ */
+export interface ChatPipelineParams {
+  /** プロバイダーIDをキーとする ApiKeyPool のマップ (使用する全プロバイダーのものが必要) */
+  apiKeyPools: Map<string, ApiKeyPool>;
+  messages: Message[];
+  enabledModels: ModelSettings[];
+  appSettings: AppSettings;
+  systemPrompt?: string;
+  /** クライアントの切断・停止操作で中断するためのシグナル */
+  abortSignal: AbortSignal;
+  /** (オプション) 単一のLLM呼び出しを行う関数 (デフォルト: `callLlmApi`) */
+  callLlm?: LlmCaller;
+}
+
+/**
+ * 1つの推論モデルのみの再実行への入力 (/api/infer)
+ */
+export interface SingleInferenceParams {
+  apiKeyPools: Map<string, ApiKeyPool>;
+  /** 応答を生成する会話履歴 (最後はユーザーの質問) */
+  messages: Message[];
+  model: ModelSettings;
+  systemPrompt?: string;
+  abortSignal: AbortSignal;
+  callLlm?: LlmCaller;
+}
+
+/**
+ * 統合のみの再実行への入力 (/api/integrate)
+ */
+export interface IntegrationParams {
+  apiKeyPools: Map<string, ApiKeyPool>;
+  /** 統合する応答の元になった会話履歴 (最後はユーザーの質問) */
+  messages: Message[];
+  /** 保存済みの各モデルの個別応答 */
+  modelResponses: ModelResponse[];
+  integratorModel: IntegratorModelConfig;
+  systemPrompt?: string;
+  abortSignal: AbortSignal;
+  callLlm?: LlmCaller;
+}
+
+/**
+ * パイプラインの各段階で共有される実行環境
+ */
+export interface PipelineContext {
+  /** モデルのプロバイダーに対応するキープールを取得する */
+  getPoolFor: (modelSettings: LlmModelConfig) => ApiKeyPool;
+  callLlm: LlmCaller;
+  /** 進捗イベントを送信するコールバック */
+  emit: (event: ChatStreamEvent) => void;
+  abortSignal: AbortSignal;
+}
+
+/**
+ * 推論モデル1件分の実行タスク
+ */
+export interface InferenceTask {
+  /** ストリームイベントで各モデルを識別するためのID */
+  modelId: string;
+  modelSettings: ModelSettings;
+  apiKeyPool: ApiKeyPool;
+  /** このモデルに渡すメッセージ */
+  messages: LlmMessage[];
+  status: "pending" | "fulfilled" | "failed";
+  result: ModelResponse | null;
+  /** 最後に発生したエラー (失敗した場合の報告に使用) */
+  lastError: { status?: number; message: string } | null;
+  attempts: number;
+  maxAttempts: number;
+}
+
+/**
+ * 要約ステップの結果
+ */
+export interface SummarizationResult {
+  /** 以降の処理で使用するメッセージ履歴 (要約に失敗した場合は元の履歴) */
+  messages: Message[];
+  /** 要約が実行された場合、会話履歴の圧縮の内容 */
+  compaction?: HistoryCompaction;
+  /** 要約モデルの呼び出しの計測結果 */
+  metrics?: CallMetrics;
+  /** 要約に失敗した場合の最後のエラー */
+  error: LlmApiError | null;
+}
+
+/**
+ * 統合ステップの結果
+ */
+export interface IntegrationStepResult {
+  content: string;
+  integration?: IntegrationInfo;
+  metrics?: CallMetrics;
+  /** 統合モデルが失敗し、フォールバックで作成した場合の情報 */
+  failure?: IntegrationFailure;
+}
+// #endregion
+
+// #region 定数
+/**
+ * 要約メッセージの本文の先頭に付ける見出し
+ */
+export const SUMMARY_HEADER = "[以前の会話の要約]\n";
+// #endregion
+
+// #region 並行推論
+
+/**
+ * 推論モデルの実行タスクを作成します。
+ * @param {string} modelId - ストリームイベントで使用するモデルID
+ * @param {ModelSettings} modelSettings - 推論モデルの設定
+ * @param {ApiKeyPool} apiKeyPool - モデルのプロバイダーのキープール
+ * @param {LlmMessage[]} messages - このモデルに渡すメッセージ
+ * @returns {InferenceTask} 実行タスク
+ */
+export function createInferenceTask(
+  modelId: string,
+  modelSettings: ModelSettings,
+  apiKeyPool: ApiKeyPool,
+  messages: LlmMessage[],
+): InferenceTask {
+  return {
+    modelId,
+    modelSettings,
+    apiKeyPool,
+    messages,
+    status: "pending",
+    result: null,
+    lastError: null,
+    attempts: 0,
+    maxAttempts: Math.max(apiKeyPool.keyCount, MIN_RETRY_ATTEMPTS),
+  };
+}
+
+/**
+ * 複数の推論タスクを並行に実行します（個別リトライロジック付き）。
+ * 完了後、各タスクの `status` と `result` に結果が格納されます。
+ * @param {InferenceTask[]} tasks - 実行するタスク
+ * @param {PipelineContext} ctx - パイプラインの実行環境
+ * @returns {Promise<LlmApiError | null>} 最後に発生したエラー (エラーがなければ null)
+ * @throws {DOMException} `abortSignal` により中断された場合 (AbortError)
+ */
+export async function runInferenceRound(tasks: InferenceTask[], ctx: PipelineContext): Promise<LlmApiError | null> {
+  const { callLlm, emit, abortSignal } = ctx;
+  let lastApiError: LlmApiError | null = null;
+  let pendingTasks = tasks.filter((t) => t.status === "pending");
+
+  while (pendingTasks.length > 0) {
+    abortSignal.throwIfAborted();
+
+    // プロバイダーの全キーが無効化・長時間のクールダウン中の場合、そのプロバイダーのタスクは諦める
+    for (const task of pendingTasks) {
+      if (task.apiKeyPool.isExhausted()) {
+        task.status = "failed";
+        task.lastError = { message: "すべてのAPIキーが利用不可になりました" };
+        console.error(
+          `[Inference] ${task.modelSettings.modelName} のプロバイダー (${task.modelSettings.provider}) のすべてのAPIキーが利用不可になりました。`,
+        );
+        emit({
+          type: "model-failed",
+          modelId: task.modelId,
+          model: task.modelSettings.modelName,
+          error: "すべてのAPIキーが利用不可になりました",
+          willRetry: false,
+        });
+      }
+    }
+    pendingTasks = pendingTasks.filter((t) => t.status === "pending");
+    if (pendingTasks.length === 0) {
+      break;
+    }
+
+    const results = await Promise.allSettled(
+      pendingTasks.map(async (task) => {
+        const { modelId, apiKeyPool } = task;
+        const model = task.modelSettings.modelName;
+        const { provider } = task.modelSettings;
+
+        // 2回目以降の試行は指数バックオフで待機してから行う
+        if (task.attempts > 0) {
+          await sleep(computeBackoffDelay(task.attempts), abortSignal);
+        }
+        const apiKey = await apiKeyPool.waitForKey(abortSignal);
+        if (!apiKey) {
+          throw new LlmApiError("利用可能なAPIキーがありません (クールダウン中)", 429, "", model);
+        }
+        task.attempts++;
+
+        emit({ type: "model-started", modelId, model, provider, attempt: task.attempts });
+        try {
+          const result = await callLlm(
+            apiKey,
+            task.messages,
+            task.modelSettings,
+            (delta) => emit({ type: "model-delta", modelId, delta }),
+            abortSignal,
+          );
+          apiKeyPool.reportSuccess(apiKey, result.responseHeaders);
+          emit({ type: "model-done", modelId, model });
+          // 成功オブジェクトにapiKeyUsedを含めない（セキュリティのため。計測結果にはキーの末尾のみを含める）
+          const metrics = buildCallMetrics(result, task.attempts, task.modelSettings, apiKey);
+          return { model, provider, content: result.text, metrics };
+        } catch (error) {
+          // 中断による失敗はキーの状態に記録せず、中断のエラーのまま再スロー
+          if (abortSignal.aborted) {
+            apiKeyPool.release(apiKey);
+            abortSignal.throwIfAborted();
+          }
+          // エラーオブジェクトは LlmApiError として再スロー
+          if (error instanceof LlmApiError) {
+            apiKeyPool.reportFailure(apiKey, error.status, error.responseHeaders);
+            throw error;
+          }
+          apiKeyPool.release(apiKey);
+          const message = error instanceof Error ? error.message : "予期せぬエラーが発生しました";
+          throw new LlmApiError(message, 500, apiKey, model);
+        }
+      }),
+    );
+
+    // 中断による失敗はリトライ・キー除外の対象にしない
+    abortSignal.throwIfAborted();
+
+    // 実行結果を精査
+    const nextPendingTasks: typeof pendingTasks = [];
+    for (let i = 0; i < results.length; i++) {
+      const result = results[i];
+      const task = pendingTasks[i];
+
+      if (result.status === "fulfilled") {
+        // 成功
+        task.status = "fulfilled";
+        task.result = result.value;
+      } else {
+        // 失敗
+        const error: LlmApiError = result.reason;
+        lastApiError = error;
+        task.lastError = { status: error.status, message: error.message };
+        console.warn(
+          `[Inference] ${task.modelSettings.modelName} が ${task.attempts}回目 失敗 (Key: ...${error.apiKeyUsed.slice(-4)}, Status: ${error.status})`,
+        );
+
+        const { isPermanent, removeKey, removeModel } = classifyError(error);
+
+        if (removeKey) {
+          // (キー自体は ApiKeyPool.reportFailure で無効化済み)
+          // 同じプロバイダー（キープール）を共有するタスクの試行上限を引き上げる
+          tasks
+            .filter((t) => t.apiKeyPool === task.apiKeyPool)
+            .forEach((t) => {
+              t.maxAttempts = growMaxAttempts(t.maxAttempts, t.attempts, t.apiKeyPool);
+            });
+        }
+
+        if (isPermanent && removeModel) {
+          // 404などモデル固有の問題。このタスクは諦める
+          task.status = "failed";
+          console.error(
+            `[Inference] ${task.modelSettings.modelName} は永続的エラー (${error.status}) のため除外されます。`,
+          );
+        } else if (task.attempts < task.maxAttempts && !task.apiKeyPool.isExhausted()) {
+          // 一時的エラー。リトライリストに追加
+          nextPendingTasks.push(task);
+        } else {
+          // リトライ上限に達した
+          task.status = "failed";
+          console.error(
+            `[Inference] ${task.modelSettings.modelName} は全 ${task.maxAttempts} 回の試行に失敗しました。`,
+          );
+        }
+
+        emit({
+          type: "model-failed",
+          modelId: task.modelId,
+          model: task.modelSettings.modelName,
+          error: error.message,
+          willRetry: task.status === "pending",
+        });
+      }
+    }
+    pendingTasks = nextPendingTasks; // 次のループで実行するタスクを更新
+  }
+
+  return lastApiError;
+}
+
+/**
+ * 失敗した推論タスクを、クライアントに報告する形式に変換します。
+ * @param {InferenceTask[]} tasks - 実行済みのタスク
+ * @returns {FailedModel[]} 失敗したモデルと最後のエラー
+ */
+export function collectFailedModels(tasks: InferenceTask[]): FailedModel[] {
+  return tasks
+    .filter((t) => t.status === "failed")
+    .map((t) => ({
+      modelId: t.modelId,
+      model: t.modelSettings.modelName,
+      provider: t.modelSettings.provider,
+      status: t.lastError?.status,
+      error: t.lastError?.message || "不明なエラー",
+    }));
+}
+// #endregion
+
+// #region 討論
+
+/**
+ * 討論ラウンドで各モデルに渡すメッセージを構築します。
+ * 元の会話履歴に、モデル自身の前回の回答と、他のモデルの回答を示して改訂を促す指示を加えます。
+ * @param {LlmMessage[]} history - 完全な会話履歴（最後はユーザーの質問）
+ * @param {ModelResponse} ownResponse - このモデルの前回の回答
+ * @param {ModelResponse[]} otherResponses - 他のモデルの前回の回答
+ * @param {number} round - 現在のラウンド (2以上)
+ * @param {number} totalRounds - 全ラウンド数
+ * @returns {LlmMessage[]} このモデルに渡すメッセージ
+ */
+export function buildDebateMessages(
+  history: LlmMessage[],
+  ownResponse: ModelResponse,
+  otherResponses: ModelResponse[],
+  round: number,
+  totalRounds: number,
+): LlmMessage[] {
+  return [
+    ...history,
+    { role: "assistant", content: ownResponse.content },
+    {
+      role: "user",
+      content: `（討論 ラウンド${round}/${totalRounds}）同じ質問に対して、他のAIモデルは以下のように回答しました。\n\n${otherResponses
+        .map((r, i) => `[他のモデル${i + 1}: ${r.model}]\n${r.content}`)
+        .join(
+          "\n\n",
+        )}\n\n--- 指示 ---\n他のモデルの回答を批判的に検討してください。正しい指摘や優れた観点は取り入れ、誤っている点には根拠を持って反論した上で、あなたの回答を改訂してください。改訂後の回答の全文のみを出力してください。`,
+    },
+  ];
+}
+
+/**
+ * 最初の回答に成功したモデル同士で、討論のラウンド (2〜`totalRounds`) を実行します。
+ * 改訂に失敗したモデルは、前のラウンドの回答を立場として維持します。
+ * @param {InferenceTask[]} initialTasks - 最初のラウンドで成功したタスク
+ * @param {LlmMessage[]} history - 完全な会話履歴（最後はユーザーの質問）
+ * @param {number} totalRounds - 全ラウンド数 (最初の回答を含む)
+ * @param {PipelineContext} ctx - パイプラインの実行環境
+ * @returns {Promise<{ finalResponses: ModelResponse[]; rounds: ModelResponse[][]; lastApiError: LlmApiError | null }>}
+ * 各モデルの最終的な回答、ラウンド2以降の各ラウンドで成功した応答、最後に発生したエラー
+ * @throws {DOMException} `abortSignal` により中断された場合 (AbortError)
+ */
+export async function runDebate(
+  initialTasks: InferenceTask[],
+  history: LlmMessage[],
+  totalRounds: number,
+  ctx: PipelineContext,
+): Promise<{ finalResponses: ModelResponse[]; rounds: ModelResponse[][]; lastApiError: LlmApiError | null }> {
+  const rounds: ModelResponse[][] = [];
+  let lastApiError: LlmApiError | null = null;
+  // 各モデルの現在の立場 (最新のラウンドで成功した回答)
+  let positions = initialTasks.map((t) => ({ task: t, response: t.result! }));
+
+  for (let round = 2; round <= totalRounds; round++) {
+    ctx.abortSignal.throwIfAborted();
+    console.log(`[Debate] ラウンド ${round}/${totalRounds} を開始します。`);
+    ctx.emit({ type: "debate-round-started", round, totalRounds });
+
+    const roundTasks = positions.map((position) =>
+      createInferenceTask(
+        position.task.modelId,
+        position.task.modelSettings,
+        position.task.apiKeyPool,
+        buildDebateMessages(
+          history,
+          position.response,
+          positions.filter((p) => p !== position).map((p) => p.response),
+          round,
+          totalRounds,
+        ),
+      ),
+    );
+    lastApiError = (await runInferenceRound(roundTasks, ctx)) ?? lastApiError;
+
+    // 改訂に失敗したモデルは、前のラウンドの回答を立場として維持する
+    positions = positions.map((position, i) =>
+      roundTasks[i].result ? { task: roundTasks[i], response: roundTasks[i].result! } : position,
+    );
+    rounds.push(roundTasks.filter((t) => t.result).map((t) => t.result!));
+  }
+
+  return { finalResponses: positions.map((p) => p.response), rounds, lastApiError };
+}
+// #endregion
+
+// #region 要約
+
+/**
+ * 要約モデルに渡すメッセージを構築します。
+ * 先頭に既存の要約がある場合は、要約の要約を作るのではなく、既存の要約に新しい会話を統合した要約を作成させます。
+ * @param {Message[]} messagesToSummarize - 要約する会話履歴 (先頭は既存の要約の場合あり)
+ * @param {string | undefined} systemPrompt - この会話に固有のシステムプロンプト
+ * @returns {LlmMessage[]} 要約モデルに渡すメッセージ
+ */
+export function buildSummaryPromptMessages(
+  messagesToSummarize: Message[],
+  systemPrompt: string | undefined,
+): LlmMessage[] {
+  const previousSummary = messagesToSummarize[0]?.role === "system" ? messagesToSummarize[0] : undefined;
+  const newMessages = previousSummary ? messagesToSummarize.slice(1) : messagesToSummarize;
+  const systemPromptNote = `システムプロンプト（「${systemPrompt || "なし"}」）の指示も考慮に入れてください。`;
+
+  const instruction = previousSummary
+    ? `（指示）上記の会話は、以下の「既存の要約」の続きです。既存の要約の内容を省略せずに引き継いだ上で、上記の会話の内容を統合し、重要な文脈を失わないように、更新された1つの要約を第三者視点で作成してください。${systemPromptNote}\n\n--- 既存の要約 ---\n${previousSummary.content.replace(SUMMARY_HEADER, "")}`
+    : `（指示）上記の会話履歴全体を、重要な文脈を失わないように、第三者視点で詳細な要約に圧縮してください。${systemPromptNote}`;
+
+  return [
+    ...newMessages.map((m) => ({ role: m.role, content: m.content })),
+    {
+      role: "user",
+      content: instruction,
+    },
+  ];
+}
+
+/**
+ * 要約モデルのコンテキストウィンドウに収まるように、要約するメッセージを古い順に選びます。
+ * 収まらなかった新しい方のメッセージは要約せずに残し、次回以降の要約の対象とします。
+ * (先頭の既存の要約は常に含め、少なくとも1件のメッセージは要約する。カタログにないモデルはすべてを要約する)
+ * @param {Message[]} messagesToSummarize - 要約の対象の会話履歴 (先頭は既存の要約の場合あり)
+ * @param {string | undefined} systemPrompt - この会話に固有のシステムプロンプト
+ * @param {LlmModelConfig} summarizerModel - 要約モデルの設定
+ * @returns {{ selected: Message[]; deferred: Message[] }} 要約モデルに送信するメッセージと、要約せずに残すメッセージ
+ */
+export function selectMessagesToSummarize(
+  messagesToSummarize: Message[],
+  systemPrompt: string | undefined,
+  summarizerModel: LlmModelConfig,
+): { selected: Message[]; deferred: Message[] } {
+  const budget = getContextBudget(summarizerModel);
+  if (!budget) {
+    return { selected: messagesToSummarize, deferred: [] };
+  }
+  const minCount = messagesToSummarize[0]?.role === "system" ? 2 : 1;
+  let count = messagesToSummarize.length;
+  // プロンプトのメッセージは要約するメッセージと1対1で対応するため、新しい方から1件ずつ差し引く
+  let total = estimatePromptTokens(buildSummaryPromptMessages(messagesToSummarize, systemPrompt));
+  while (total > budget.inputTokens && count > minCount) {
+    count--;
+    const message = messagesToSummarize[count];
+    total -= estimatePromptTokens([{ role: message.role, content: message.content } as LlmMessage]);
+  }
+  return { selected: messagesToSummarize.slice(0, count), deferred: messagesToSummarize.slice(count) };
+}
+
+/**
+ * 要約ポリシーの条件を満たす場合に、古いやり取りを要約に置き換えます（リトライロジック付き）。
+ * 要約に失敗しても、エラーにはせず、圧縮されていない履歴を返します。
+ * 要約モデルのコンテキストウィンドウに収まらない場合は、収まる分の古いやり取りのみを要約します (`selectMessagesToSummarize`)。
+ * @param {Message[]} messages - 会話履歴 (最後はユーザーの質問)
+ * @param {AppSettings} appSettings - アプリ設定 (要約モデル・要約ポリシー)
+ * @param {string | undefined} systemPrompt - この会話に固有のシステムプロンプト
+ * @param {PipelineContext} ctx - パイプラインの実行環境
+ * @returns {Promise<SummarizationResult>} 以降の処理で使用するメッセージ履歴と、圧縮の内容
+ * @throws {DOMException} `abortSignal` により中断された場合 (AbortError)
+ */
+export async function summarizeHistory(
+  messages: Message[],
+  appSettings: AppSettings,
+  systemPrompt: string | undefined,
+  ctx: PipelineContext,
+): Promise<SummarizationResult> {
+  // 閾値の判定は、クライアントの申告値ではなく受け取った履歴から行う
+  const summarizationPolicy = appSettings.summarization ?? DEFAULT_SUMMARIZATION_POLICY;
+  const summarizerModel = appSettings.summarizerModel;
+  const lastUserMessage = messages.at(-1)!;
+  const { toSummarize: messagesToSummarize, recent: recentMessages } = splitRecentTurns(
+    messages.slice(0, -1),
+    summarizationPolicy.keepRecentTurns,
+  );
+
+  if (
+    !summarizerModel ||
+    !isSummarizationTriggered(messages, summarizationPolicy) ||
+    // 直近のやり取りを除いて、要約する会話が残っている場合のみ
+    !messagesToSummarize.some((m) => m.role !== "system")
+  ) {
+    return { messages, error: null };
+  }
+
+  console.log(`[Summarizer] 履歴が閾値を超えたため要約を実行します。(条件: ${summarizationPolicy.trigger})`);
+  ctx.emit({ type: "summarizer-started" });
+
+  // 要約に置き換えるのは実際に送信したメッセージのみのため、呼び出し時に履歴を省略させない
+  const { selected, deferred } = selectMessagesToSummarize(messagesToSummarize, systemPrompt, summarizerModel);
+  if (deferred.length > 0) {
+    console.warn(
+      `[Summarizer] 要約モデルのコンテキストウィンドウに収めるため、新しい方の${deferred.length}件は要約せずに残します。`,
+    );
+  }
+  const keptMessages = [...deferred, ...recentMessages];
+  const summaryPromptMessages = buildSummaryPromptMessages(selected, systemPrompt);
+  const outcome = await callWithKeyRotation(
+    ctx.getPoolFor(summarizerModel),
+    summarizerModel,
+    (apiKey) =>
+      ctx.callLlm(apiKey, summaryPromptMessages, summarizerModel, undefined, ctx.abortSignal, { fitHistory: false }),
+    "Summarizer",
+    ctx.abortSignal,
+  );
+
+  if (!outcome.ok) {
+    console.error("[Summarizer] 要約に失敗しました。圧縮されていない履歴で続行します。", outcome.error);
+    // 注: 要約に失敗しても、エラーにはせず、圧縮されていない履歴で処理を続行する
+    ctx.emit({ type: "summarizer-finished", success: false });
+    return { messages, error: outcome.error };
+  }
+
+  // 要約は、残した直近のやり取りより前に並ぶようにする
+  // (DBの時刻インデックスでも、要約したやり取りと残したやり取りの間に並ぶ)
+  const summaryTimestamp = (keptMessages[0] ?? lastUserMessage).timestamp - 1;
+  const summaryMessage: Message = {
+    id: createId("msg"),
+    role: "system",
+    content: `${SUMMARY_HEADER}${outcome.result.text}`,
+    timestamp: summaryTimestamp,
+    conversationId: lastUserMessage.conversationId,
+    // 要約は、要約に置き換えた最後のメッセージの子とする (その分岐をたどるパスでのみ使用される)
+    parentId: selected.findLast((m) => m.role !== "system")?.id,
+    // 既存の要約が置き換えたメッセージも引き継ぐ
+    summarizedMessageIds: selected.flatMap((m) => (m.role === "system" ? (m.summarizedMessageIds ?? []) : [m.id])),
+  };
+  ctx.emit({ type: "summarizer-finished", success: true });
+
+  return {
+    // 以降の処理で使用するメッセージ履歴を「要約＋直近のやり取り＋最新の質問」に置き換える
+    messages: [summaryMessage, ...keptMessages, lastUserMessage],
+    // クライアントDB同期用に、要約に置き換えたメッセージ（既存の要約を含む）のIDを通知する
+    compaction: {
+      summaryMessage,
+      compactedMessageIds: selected.map((m) => m.id),
+      keptMessageIds: keptMessages.map((m) => m.id),
+    },
+    metrics: outcome.metrics,
+    error: null,
+  };
+}
+// #endregion
+
+// #region 統合
+
+/**
+ * 推論モデルの応答を、設定された統合戦略で最終回答にまとめます（リトライロジック付き）。
+ * 応答が1つだけ、または統合モデルが設定されていない場合は、最初の応答をそのまま最終回答とします。
+ * @param {LlmMessage[]} history - 完全な会話履歴（最後はユーザーの質問）
+ * @param {ModelResponse[]} responses - 推論モデルの応答 (1件以上)
+ * @param {IntegratorModelConfig | undefined} integratorModel - 統合モデルの設定
+ * @param {PipelineContext} ctx - パイプラインの実行環境
+ * @returns {Promise<IntegrationStepResult>} 最終回答と統合の実行内容
+ * @throws {Error} 統合モデルの呼び出しに失敗した場合
+ * @throws {DOMException} `abortSignal` により中断された場合 (AbortError)
+ */
+export async function integrateResponses(
+  history: LlmMessage[],
+  responses: ModelResponse[],
+  integratorModel: IntegratorModelConfig | undefined,
+  ctx: PipelineContext,
+): Promise<IntegrationStepResult> {
+  const strategy = integratorModel ? getIntegrationStrategy(integratorModel.strategy) : null;
+
+  if (responses.length <= 1 || !integratorModel || !strategy) {
+    // 応答が1つだけ、または統合モデルがない場合は、最初のモデルの応答をそのまま使用
+    return { content: responses[0].content };
+  }
+  if (!strategy.usesIntegrator) {
+    // 統合モデルを使用しない戦略 (すべての応答を並べる)
+    return strategy.resolve(null, responses, integratorModel);
+  }
+
+  // 応答が複数あり、統合モデルが設定されていれば、選択された戦略で統合を実行
+  const outcome = await callIntegrator(history, responses, integratorModel, integratorModel, ctx);
+  if (!outcome.ok) {
+    console.error("[Integrator] すべてのAPIキーで統合に失敗しました。", outcome.error);
+    throw new Error(`統合モデルの呼び出しに失敗しました: ${outcome.error?.message || "不明なエラー"}`);
+  }
+  return { ...strategy.resolve(outcome.result.text, responses, integratorModel), metrics: outcome.metrics };
+}
+
+/**
+ * 統合戦略のプロンプトで、指定したモデルを呼び出します（キーのローテーション付き）。
+ * @param {LlmMessage[]} history - 完全な会話履歴（最後はユーザーの質問）
+ * @param {ModelResponse[]} responses - 推論モデルの応答
+ * @param {IntegratorModelConfig} integratorModel - 統合モデルの設定 (統合戦略)
+ * @param {LlmModelConfig} callModel - 実際に呼び出すモデル (予備の統合モデルの場合は `integratorModel` と異なる)
+ * @param {PipelineContext} ctx - パイプラインの実行環境
+ * @returns {Promise<KeyRotationResult>} 呼び出しの結果
+ */
+function callIntegrator(
+  history: LlmMessage[],
+  responses: ModelResponse[],
+  integratorModel: IntegratorModelConfig,
+  callModel: LlmModelConfig,
+  ctx: PipelineContext,
+): Promise<KeyRotationResult> {
+  const promptMessages = getIntegrationStrategy(integratorModel.strategy).buildPrompt(
+    history,
+    responses,
+    integratorModel,
+  );
+  return callWithKeyRotation(
+    ctx.getPoolFor(callModel),
+    callModel,
+    (apiKey, attempt) => {
+      ctx.emit({ type: "integrator-started", attempt });
+      return ctx.callLlm(
+        apiKey,
+        promptMessages,
+        callModel,
+        (delta) => ctx.emit({ type: "integrator-delta", delta }),
+        ctx.abortSignal,
+      );
+    },
+    "Integrator",
+    ctx.abortSignal,
+  );
+}
+
+/**
+ * 統合モデルの呼び出しに失敗した場合に、設定されたフォールバックで最終回答を作成します。
+ * 予備の統合モデルも失敗した場合は、個別の応答をそのまま並べます ("none")。
+ * @param {LlmMessage[]} history - 完全な会話履歴（最後はユーザーの質問）
+ * @param {ModelResponse[]} responses - 推論モデルの応答 (2件以上)
+ * @param {IntegratorModelConfig} integratorModel - 統合モデルの設定
+ * @param {string} errorMessage - 統合モデルのエラーメッセージ
+ * @param {PipelineContext} ctx - パイプラインの実行環境
+ * @returns {Promise<IntegrationStepResult>} フォールバックによる最終回答 (`failure` を含む)
+ * @throws {DOMException} `abortSignal` により中断された場合 (AbortError)
+ */
+export async function applyIntegrationFallback(
+  history: LlmMessage[],
+  responses: ModelResponse[],
+  integratorModel: IntegratorModelConfig,
+  errorMessage: string,
+  ctx: PipelineContext,
+): Promise<IntegrationStepResult> {
+  const fallback = integratorModel.fallback ?? DEFAULT_INTEGRATION_FALLBACK;
+
+  if (fallback === "secondary" && integratorModel.fallbackModel) {
+    console.warn(`[Integrator] 予備の統合モデル (${integratorModel.fallbackModel.modelName}) で再試行します。`);
+    const outcome = await callIntegrator(history, responses, integratorModel, integratorModel.fallbackModel, ctx);
+    if (outcome.ok) {
+      const strategy = getIntegrationStrategy(integratorModel.strategy);
+      return {
+        ...strategy.resolve(outcome.result.text, responses, integratorModel),
+        metrics: outcome.metrics,
+        failure: { error: errorMessage, fallback },
+      };
+    }
+    console.error("[Integrator] 予備の統合モデルも失敗しました。", outcome.error);
+  }
+
+  if (fallback === "first") {
+    return { content: responses[0].content, failure: { error: errorMessage, fallback } };
+  }
+  if (fallback === "longest") {
+    const longest = responses.reduce((a, b) => (b.content.length > a.content.length ? b : a));
+    return { content: longest.content, failure: { error: errorMessage, fallback } };
+  }
+
+  // 個別の応答をそのまま並べる (「統合しない」戦略と同じ表示)
+  return {
+    ...getIntegrationStrategy("pass-through").resolve(null, responses, integratorModel),
+    failure: { error: errorMessage, fallback: "none" },
+  };
+}
+
+/**
+ * 会話履歴の先頭にシステムプロンプトを挿入し、LLM APIに渡す最小限の型 (LlmMessage) にマッピングします。
+ * @param {Message[]} messages - 会話履歴
+ * @param {string} [systemPrompt] - システムプロンプト
+ * @returns {LlmMessage[]} LLM APIに渡すメッセージ
+ */
+export function buildLlmMessages(messages: Message[], systemPrompt?: string): LlmMessage[] {
+  const llmMessages: LlmMessage[] = messages.map((m) => ({ role: m.role, content: m.content }));
+  if (systemPrompt && systemPrompt.trim() !== "") {
+    llmMessages.unshift({ role: "system", content: systemPrompt });
+  }
+  return llmMessages;
+}
+// #endregion
+
+/**
+ * 要約 → 並行推論 (→ 討論) → 統合 の一連の処理を実行します。
+ * 各段階の進捗は `emit` を通じてイベントとして通知されます。
+ * @param {ChatPipelineParams} params - パイプラインへの入力
+ * @param {(event: ChatStreamEvent) => void} emit - 進捗イベントを送信するコールバック
+ * @returns {Promise<ChatResult>} 最終的な処理結果
+ * @throws {Error} 全ての推論モデルの呼び出しに失敗した場合
+ * @throws {DOMException} `abortSignal` により中断された場合 (AbortError)
+ */
+export async function runChatPipeline(
+  {
+    apiKeyPools,
+    messages,
+    enabledModels,
+    appSettings,
+    systemPrompt,
+    abortSignal,
+    callLlm = callLlmApi,
+  }: ChatPipelineParams,
+  emit: (event: ChatStreamEvent) => void,
+): Promise<ChatResult> {
+  const ctx: PipelineContext = {
+    // 使用する全プロバイダーの ApiKeyPool が渡されていることが前提
+    getPoolFor: (modelSettings) => apiKeyPools.get(modelSettings.provider)!,
+    callLlm,
+    emit,
+    abortSignal,
+  };
+
+  // --- 1. 要約ステップ ---
+  const summarization = await summarizeHistory(messages, appSettings, systemPrompt, ctx);
+  let lastApiError = summarization.error;
+
+  // --- 2. メッセージ履歴の準備 ---
+  // (要約済み、または元の) 履歴の先頭にシステムプロンプトを挿入し、LLM APIに渡す型にマッピング
+  const messagesForLlm = buildLlmMessages(summarization.messages, systemPrompt);
+
+  // --- 3a. 並行推論 (個別リトライロジック付き) ---
+
+  // 各モデルの実行タスクを定義
+  // (modelId はストリームイベントで各モデルを識別するために使用)
+  const modelTasks = enabledModels.map((model) =>
+    createInferenceTask(model.id, model, ctx.getPoolFor(model), messagesForLlm),
+  );
+  lastApiError = (await runInferenceRound(modelTasks, ctx)) ?? lastApiError;
+
+  // 成功した結果のみを収集
+  const succeededTasks = modelTasks.filter((t) => t.status === "fulfilled" && t.result);
+  let validResponses = succeededTasks.map((t) => t.result!);
+  // 失敗したモデルは、クライアントから個別に再試行できるよう報告する
+  const failedModels = collectFailedModels(modelTasks);
+
+  if (validResponses.length === 0) {
+    throw new Error(`全ての推論モデルが応答に失敗しました: ${lastApiError?.message || "不明なエラー"}`);
+  }
+
+  // --- 3a'. 討論 (有効な場合のみ) ---
+  // 各モデルが他のモデルの回答を読んで自分の回答を改訂するラウンドを繰り返す
+  const debateRounds: ModelResponse[][] = [validResponses];
+  if (appSettings.debate?.enabled && validResponses.length > 1) {
+    const debate = await runDebate(succeededTasks, messagesForLlm, appSettings.debate.rounds, ctx);
+    debateRounds.push(...debate.rounds);
+    validResponses = debate.finalResponses;
+  }
+
+  // --- 3b. 統合 (リトライロジック付き) ---
+  // 統合モデルがすべての試行で失敗した場合は、エラーにせず設定されたフォールバックで最終回答を作成する
+  let integrated: IntegrationStepResult;
+  try {
+    integrated = await integrateResponses(messagesForLlm, validResponses, appSettings.integratorModel, ctx);
+  } catch (error) {
+    abortSignal.throwIfAborted();
+    integrated = await applyIntegrationFallback(
+      messagesForLlm,
+      validResponses,
+      appSettings.integratorModel!,
+      error instanceof Error ? error.message : "不明なエラー",
+      ctx,
+    );
+  }
+
+  // --- 4. 処理結果 ---
+  return {
+    content: integrated.content,
+    modelResponses: validResponses,
+    compaction: summarization.compaction,
+    summarizerMetrics: summarization.metrics,
+    integratorMetrics: integrated.metrics,
+    integration: integrated.integration,
+    integrationFailure: integrated.failure,
+    failedModels: failedModels.length > 0 ? failedModels : undefined,
+    debateRounds: debateRounds.length > 1 ? debateRounds : undefined,
+  };
+}
+
+/**
+ * 保存済みの個別応答から、統合のみを再実行します。(要約・推論は行いません)
+ * 統合モデルが失敗した場合はフォールバックせず、エラーとします。
+ * @param {IntegrationParams} params - 統合への入力
+ * @param {(event: ChatStreamEvent) => void} emit - 進捗イベントを送信するコールバック
+ * @returns {Promise<ChatResult>} 統合の結果 (`modelResponses` は入力のまま)
+ * @throws {Error} 統合モデルの呼び出しに失敗した場合
+ * @throws {DOMException} `abortSignal` により中断された場合 (AbortError)
+ */
+export async function runIntegration(
+  {
+    apiKeyPools,
+    messages,
+    modelResponses,
+    integratorModel,
+    systemPrompt,
+    abortSignal,
+    callLlm = callLlmApi,
+  }: IntegrationParams,
+  emit: (event: ChatStreamEvent) => void,
+): Promise<ChatResult> {
+  const ctx: PipelineContext = {
+    getPoolFor: (modelSettings) => apiKeyPools.get(modelSettings.provider)!,
+    callLlm,
+    emit,
+    abortSignal,
+  };
+
+  const integrated = await integrateResponses(
+    buildLlmMessages(messages, systemPrompt),
+    modelResponses,
+    integratorModel,
+    ctx,
+  );
+  return {
+    content: integrated.content,
+    modelResponses,
+    integratorMetrics: integrated.metrics,
+    integration: integrated.integration,
+  };
+}
+
+/**
+ * 1つの推論モデルのみで応答を生成します。(要約・統合は行いません)
+ * 失敗したモデルの再試行に使用します。リトライは並行推論と同じ規則で行われます。
+ * @param {SingleInferenceParams} params - 推論への入力
+ * @param {(event: ChatStreamEvent) => void} emit - 進捗イベントを送信するコールバック
+ * @returns {Promise<ChatResult>} 推論の結果 (`modelResponses` はこのモデルの応答1件)
+ * @throws {Error} リトライ上限まで失敗した場合
+ * @throws {DOMException} `abortSignal` により中断された場合 (AbortError)
+ */
+export async function runSingleInference(
+  { apiKeyPools, messages, model, systemPrompt, abortSignal, callLlm = callLlmApi }: SingleInferenceParams,
+  emit: (event: ChatStreamEvent) => void,
+): Promise<ChatResult> {
+  const ctx: PipelineContext = {
+    getPoolFor: (modelSettings) => apiKeyPools.get(modelSettings.provider)!,
+    callLlm,
+    emit,
+    abortSignal,
+  };
+
+  const task = createInferenceTask(model.id, model, ctx.getPoolFor(model), buildLlmMessages(messages, systemPrompt));
+  await runInferenceRound([task], ctx);
+
+  if (task.status !== "fulfilled" || !task.result) {
+    throw new Error(`${model.modelName} の応答に失敗しました: ${task.lastError?.message || "不明なエラー"}`);
+  }
+  return { content: task.result.content, modelResponses: [task.result] };
+}
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { llmModelConfigSchema } from "./chat-contract";
+import { parseChatRequest } from "./chat-request";
+
+const schema = z.object({ model: llmModelConfigSchema });
+
+/**
+ * 指定したボディの POST リクエストを作成します。
+ */
+const post = (body: unknown) =>
+  new Request("http://localhost/api/test", {
+    method: "POST",
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+
+const model = (provider: string) => ({ provider, modelName: "test-model", temperature: 0.7, maxTokens: 1000 });
+
+/**
+ * リクエストを検証し、失敗した場合のステータスとエラー応答を返します。
+ */
+async function parseError(req: Request) {
+  const result = await parseChatRequest(req, schema, { getUsedModels: (data) => [["model.provider", data.model]] });
+  if (result.ok) throw new Error("検証に成功しました");
+  return { status: result.response.status, body: await result.response.json() };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.stubEnv("MOCK_LLM", "");
+  vi.stubEnv("CEREBRAS_API_KEYS", "");
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+});
+
+describe("parseChatRequest", () => {
+  it("検証済みのリクエストと、使用するプロバイダーのAPIキープールを返す", async () => {
+    const result = await parseChatRequest(post({ model: model("mock") }), schema, {
+      getUsedModels: (data) => [["model.provider", data.model]],
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.data.model.modelName).toBe("test-model");
+    expect([...result.apiKeyPools.keys()]).toEqual(["mock"]);
+  });
+
+  it("JSONでないボディやスキーマに合わないボディは、不正なフィールドを示す 400 を返す", async () => {
+    expect(await parseError(post("{"))).toEqual({
+      status: 400,
+      body: { error: "リクエストボディがJSONではありません" },
+    });
+    const { status, body } = await parseError(post({ model: { ...model("mock"), temperature: 3 } }));
+    expect(status).toBe(400);
+    expect(body.issues).toEqual([{ field: "model.temperature", message: "2以下で指定してください" }]);
+  });
+
+  it("追加の検証に失敗した場合は、その内容で 400 を返す", async () => {
+    const result = await parseChatRequest(post({ model: model("mock") }), schema, {
+      validate: () => ({ error: "不正です" }),
+      getUsedModels: (data) => [["model.provider", data.model]],
+    });
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.response.status).toBe(400);
+    expect(await result.response.json()).toEqual({ error: "不正です" });
+  });
+
+  it("未登録のプロバイダーは 400、APIキーが設定されていないプロバイダーは 500 を返す", async () => {
+    const unknown = await parseError(post({ model: model("unknown") }));
+    expect(unknown.status).toBe(400);
+    expect(unknown.body.issues).toEqual([{ field: "model.provider", message: "不明なプロバイダーです: unknown" }]);
+
+    const missingKeys = await parseError(post({ model: model("cerebras") }));
+    expect(missingKeys.status).toBe(500);
+    expect(missingKeys.body.error).toContain("CEREBRAS_API_KEYS");
+  });
+});
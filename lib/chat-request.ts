@@ -0,0 +1,102 @@
+// /api/chat, /api/integrate, /api/infer に共通するリクエストの検証と、APIキープールの取得
+// (サーバーサイド専用。検証に失敗した場合は、そのままルートから返せるJSONのエラー応答を作成します)
+
+import { NextResponse } from "next/server";
+import type { z } from "zod";
+import type { ApiKeyPool } from "./api-key-pool";
+import { toChatErrorResponse, type ChatErrorResponse, type LlmModelConfig } from "./chat-contract";
+import { getApiKeyPools, isRegisteredProvider } from "./llm-providers";
+
+// #region 型定義
+
+/**
+ * リクエストで使用するモデルと、そのプロバイダーのフィールド名 (エラー応答で示す)
+ */
+export type UsedModel = [field: string, model: LlmModelConfig];
+
+/**
+ * `parseChatRequest` のオプション
+ */
+interface ParseChatRequestOptions<T> {
+  /**
+   * リクエストで使用するモデルを列挙します。(プロバイダーの検証と、APIキープールの取得に使用)
+   * @param {T} data - 検証済みのリクエスト
+   * @returns {UsedModel[]} 使用するモデル
+   */
+  getUsedModels: (data: T) => UsedModel[];
+  /**
+   * スキーマで表せない追加の検証を行います。(プロバイダーの検証より前に実行)
+   * @param {T} data - 検証済みのリクエスト
+   * @returns {ChatErrorResponse | null} 不正な場合はエラー応答 (400)
+   */
+  validate?: (data: T) => ChatErrorResponse | null;
+}
+
+/**
+ * `parseChatRequest` の結果
+ * - 成功した場合は、検証済みのリクエストと、使用するプロバイダーのAPIキープール
+ * - 失敗した場合は、ルートからそのまま返すエラー応答
+ */
+export type ParsedChatRequest<T> =
+  | { ok: true; data: T; apiKeyPools: Map<string, ApiKeyPool> }
+  | { ok: false; response: NextResponse<ChatErrorResponse> };
+// #endregion
+
+/**
+ * リクエストボディを検証し、使用するプロバイダーのAPIキープールを取得します。
+ * ボディがJSONでない場合、スキーマに合わない場合、未登録のプロバイダーを使用する場合は 400 を、
+ * プロバイダーのAPIキーが環境変数に設定されていない場合は 500 のエラー応答を返します。
+ * @param {Request} req - リクエスト
+ * @param {S} schema - リクエストボディのスキーマ (lib/chat-contract.ts)
+ * @param {ParseChatRequestOptions<z.output<S>>} options - 使用するモデルの列挙と追加の検証
+ * @returns {Promise<ParsedChatRequest<z.output<S>>>} 検証済みのリクエスト、またはエラー応答
+ */
+export async function parseChatRequest<S extends z.ZodTypeAny>(
+  req: Request,
+  schema: S,
+  { getUsedModels, validate }: ParseChatRequestOptions<z.output<S>>,
+): Promise<ParsedChatRequest<z.output<S>>> {
+  const fail = (error: ChatErrorResponse, status: number) =>
+    ({ ok: false, response: NextResponse.json<ChatErrorResponse>(error, { status }) }) as const;
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return fail({ error: "リクエストボディがJSONではありません" }, 400);
+  }
+
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    const errorResponse = toChatErrorResponse(parsed.error);
+    console.warn("[Validation]", errorResponse.error);
+    return fail(errorResponse, 400);
+  }
+  const data: z.output<S> = parsed.data;
+
+  const invalid = validate?.(data);
+  if (invalid) {
+    return fail(invalid, 400);
+  }
+
+  const usedModels = getUsedModels(data);
+  const unknownProvider = usedModels.find(([, m]) => !isRegisteredProvider(m.provider));
+  if (unknownProvider) {
+    const [field, { provider }] = unknownProvider;
+    return fail(
+      {
+        error: `リクエストが不正です: ${field} - 不明なプロバイダーです: ${provider}`,
+        issues: [{ field, message: `不明なプロバイダーです: ${provider}` }],
+      },
+      400,
+    );
+  }
+
+  try {
+    const apiKeyPools = getApiKeyPools(new Set(usedModels.map(([, m]) => m.provider)));
+    return { ok: true, data, apiKeyPools };
+  } catch (error) {
+    // いずれかのプロバイダーのAPIキーが環境変数に設定されていない場合
+    return fail({ error: error instanceof Error ? error.message : "APIキーを取得できません" }, 500);
+  }
+}
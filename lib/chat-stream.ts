@@ -0,0 +1,248 @@
+// /api/chat (および /api/integrate, /api/infer) のストリーミング応答 (NDJSON) で受け渡されるイベントの定義と、
+// サーバー・クライアント双方で使用するエンコード/デコード処理
+
+import type {
+  CallMetrics,
+  FailedModel,
+  IntegrationFailure,
+  IntegrationInfo,
+  Message,
+  ModelResponse,
+} from "./chat-contract";
+
+// #region 型定義
+
+/**
+ * 要約による会話履歴の圧縮の内容
+ * クライアントは `compactedMessageIds` のメッセージをアーカイブ（コンテキストから除外）して `summaryMessage` を追加し、
+ * それ以外のメッセージはそのまま残します。
+ */
+export interface HistoryCompaction {
+  /** 新しい要約メッセージ (既存の要約がある場合は、その内容を引き継いだもの) */
+  summaryMessage: Message;
+  /** 要約に置き換えられ、アーカイブされるメッセージのID (既存の要約メッセージを含む) */
+  compactedMessageIds: string[];
+  /** 要約せずにそのまま残された直近のやり取りのメッセージのID */
+  keptMessageIds: string[];
+}
+
+/**
+ * /api/chat が最終的に返す処理結果
+ */
+export interface ChatResult {
+  content: string;
+  modelResponses: ModelResponse[];
+  /** 要約が実行された場合、会話履歴の圧縮の内容 */
+  compaction?: HistoryCompaction;
+  /** 要約モデルの呼び出しの計測結果 (要約が実行された場合のみ) */
+  summarizerMetrics?: CallMetrics;
+  /** 統合モデルの呼び出しの計測結果 (統合が実行された場合のみ) */
+  integratorMetrics?: CallMetrics;
+  /** リトライ上限まで失敗し、応答を得られなかった推論モデル (すべて成功した場合は省略) */
+  failedModels?: FailedModel[];
+  /** 統合が実行された場合、使用した統合戦略とその結果 */
+  integration?: IntegrationInfo;
+  /** 統合モデルの呼び出しに失敗し、フォールバックで最終回答を作成した場合の情報 */
+  integrationFailure?: IntegrationFailure;
+  /** 討論モードの場合、各ラウンドの応答 */
+  debateRounds?: ModelResponse[][];
+}
+
+/**
+ * ストリームで送信されるイベント
+ * 1行に1つのJSONオブジェクト（NDJSON）としてエンコードされます。
+ */
+export type ChatStreamEvent =
+  /** 要約モデルの呼び出しを開始した */
+  | { type: "summarizer-started" }
+  /** 要約モデルの呼び出しが終了した (失敗時は圧縮されていない履歴で続行) */
+  | { type: "summarizer-finished"; success: boolean }
+  /** 推論モデルの呼び出し（試行）を開始した。リトライ時は途中までの出力を破棄する */
+  | { type: "model-started"; modelId: string; model: string; provider: string; attempt: number }
+  /** 推論モデルの出力差分 */
+  | { type: "model-delta"; modelId: string; delta: string }
+  /** 推論モデルの応答が完了した */
+  | { type: "model-done"; modelId: string; model: string }
+  /** 推論モデルの試行が失敗した (`willRetry` が false の場合は除外された) */
+  | { type: "model-failed"; modelId: string; model: string; error: string; willRetry: boolean }
+  /** 討論モードの次のラウンド (2以上) を開始した。以降の model-* イベントはこのラウンドのもの */
+  | { type: "debate-round-started"; round: number; totalRounds: number }
+  /** 統合モデルの呼び出し（試行）を開始した。リトライ時は途中までの出力を破棄する */
+  | { type: "integrator-started"; attempt: number }
+  /** 統合モデルの出力差分 */
+  | { type: "integrator-delta"; delta: string }
+  /** すべての処理が完了した (ストリームの最後のイベント) */
+  | { type: "done"; result: ChatResult }
+  /** 処理が失敗した (ストリームの最後のイベント) */
+  | { type: "error"; message: string };
+
+/**
+ * ストリーミング中の応答をUIに表示するための状態
+ */
+export interface StreamingResponseState {
+  /** 現在の処理段階 */
+  phase: "summarizing" | "inferring" | "integrating";
+  /** 討論モードの場合、現在のラウンド */
+  debateRound?: { round: number; totalRounds: number };
+  /** 推論モデルごとの途中経過 (キーはモデル設定ID) */
+  models: Record<string, { model: string; provider: string; content: string; status: "streaming" | "done" | "failed" }>;
+  /** 統合モデルの途中経過 */
+  integratorContent: string;
+}
+// #endregion
+
+/**
+ * ストリーミング応答の Content-Type
+ */
+export const CHAT_STREAM_CONTENT_TYPE = "application/x-ndjson";
+
+/**
+ * イベントをNDJSONの1行にエンコードします。
+ * @param {ChatStreamEvent} event - 送信するイベント
+ * @returns {string} 改行で終端されたJSON文字列
+ */
+export function encodeChatStreamEvent(event: ChatStreamEvent): string {
+  return `${JSON.stringify(event)}\n`;
+}
+
+/**
+ * 処理の進捗をNDJSON形式のストリームで返すレスポンスを作成します。(/api/chat, /api/integrate で使用)
+ * 処理が完了すると `done`、失敗すると `error` イベントを送信してストリームを閉じます。
+ * クライアントが切断した場合（停止ボタン・ページ離脱）は、`run` に渡したシグナルを中断します。
+ * @param {AbortSignal} requestSignal - リクエストのシグナル (クライアントの切断の検知に使用)
+ * @param {(emit: (event: ChatStreamEvent) => void, abortSignal: AbortSignal) => Promise<ChatResult>} run - 実行する処理
+ * @returns {Response} ストリーミング応答
+ */
+export function createChatStreamResponse(
+  requestSignal: AbortSignal,
+  run: (emit: (event: ChatStreamEvent) => void, abortSignal: AbortSignal) => Promise<ChatResult>,
+): Response {
+  const encoder = new TextEncoder();
+  let isStreamClosed = false;
+
+  // クライアントの切断を検知して、進行中のLLM呼び出しをすべて中断する
+  const abortController = new AbortController();
+  requestSignal.addEventListener("abort", () => abortController.abort(), { once: true });
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // クライアントが切断した後はイベントを破棄する
+      const emit = (event: ChatStreamEvent) => {
+        if (isStreamClosed) return;
+        controller.enqueue(encoder.encode(encodeChatStreamEvent(event)));
+      };
+
+      try {
+        const result = await run(emit, abortController.signal);
+        emit({ type: "done", result });
+      } catch (error) {
+        if (abortController.signal.aborted) {
+          console.log("[Pipeline] クライアントにより処理が中断されました。");
+        }
+        emit({ type: "error", message: (error instanceof Error && error.message) || "不明なエラー" });
+      } finally {
+        if (!isStreamClosed) {
+          isStreamClosed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      isStreamClosed = true;
+      abortController.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": CHAT_STREAM_CONTENT_TYPE,
+      "Cache-Control": "no-cache, no-transform",
+    },
+  });
+}
+
+/**
+ * NDJSONのレスポンスボディを読み取り、イベントを順に返します。
+ * @param {ReadableStream<Uint8Array>} body - fetch のレスポンスボディ
+ * @returns {AsyncGenerator<ChatStreamEvent>} デコードされたイベント
+ */
+export async function* readChatStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      // 改行ごとに区切り、最後の不完全な行はバッファに残す
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        if (line.trim() !== "") {
+          yield JSON.parse(line) as ChatStreamEvent;
+        }
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.trim() !== "") {
+      yield JSON.parse(buffer) as ChatStreamEvent;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * 受信したイベントをストリーミング表示用の状態に反映します。
+ * @param {StreamingResponseState | null} state - 現在の状態 (未開始の場合は null)
+ * @param {ChatStreamEvent} event - 受信したイベント
+ * @returns {StreamingResponseState} 更新後の状態
+ */
+export function applyChatStreamEvent(
+  state: StreamingResponseState | null,
+  event: ChatStreamEvent,
+): StreamingResponseState {
+  const current: StreamingResponseState = state ?? { phase: "inferring", models: {}, integratorContent: "" };
+
+  switch (event.type) {
+    case "summarizer-started":
+      return { ...current, phase: "summarizing" };
+    case "summarizer-finished":
+      return { ...current, phase: "inferring" };
+    case "model-started":
+      return {
+        ...current,
+        phase: "inferring",
+        models: {
+          ...current.models,
+          [event.modelId]: { model: event.model, provider: event.provider, content: "", status: "streaming" },
+        },
+      };
+    case "model-delta": {
+      const model = current.models[event.modelId];
+      if (!model) return current;
+      return {
+        ...current,
+        models: { ...current.models, [event.modelId]: { ...model, content: model.content + event.delta } },
+      };
+    }
+    case "model-done":
+    case "model-failed": {
+      const model = current.models[event.modelId] ?? { model: event.model, provider: "", content: "" };
+      const status = event.type === "model-done" ? "done" : event.willRetry ? "streaming" : "failed";
+      return { ...current, models: { ...current.models, [event.modelId]: { ...model, status } } };
+    }
+    case "debate-round-started":
+      return { ...current, phase: "inferring", debateRound: { round: event.round, totalRounds: event.totalRounds } };
+    case "integrator-started":
+      return { ...current, phase: "integrating", integratorContent: "" };
+    case "integrator-delta":
+      return { ...current, integratorContent: current.integratorContent + event.delta };
+    default:
+      return current;
+  }
+}
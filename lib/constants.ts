@@ -1,17 +1,195 @@
 // lib/constants.ts
 
+/**
+ * モデルのコンテキストウィンドウと最大出力トークン数
+ */
+export interface ModelSpec {
+  /** モデル名 */
+  name: string;
+  /** 入力と出力を合わせたコンテキストウィンドウのトークン数 */
+  contextWindow: number;
+  /** 1回の呼び出しで出力できる最大トークン数 */
+  maxOutputTokens: number;
+}
+
+/**
+ * Cerebrasで利用可能なモデルのカタログ。
+ * 各呼び出しの履歴をコンテキストウィンドウに収める処理（lib/context-budget.ts）と、
+ * 設定画面の最大トークン数の検証に使用されます。
+ * (値はCerebrasのドキュメントに基づく参考値です。契約プランにより異なる場合があります)
+ */
+export const CEREBRAS_MODEL_CATALOG: ModelSpec[] = [
+  { name: "gpt-oss-120b", contextWindow: 131072, maxOutputTokens: 40960 },
+  { name: "llama-3.3-70b", contextWindow: 131072, maxOutputTokens: 65536 },
+  { name: "llama3.1-8b", contextWindow: 32768, maxOutputTokens: 8192 },
+  { name: "qwen-3-235b-a22b-instruct-2507", contextWindow: 131072, maxOutputTokens: 40960 },
+  { name: "qwen-3-235b-a22b-thinking-2507", contextWindow: 131072, maxOutputTokens: 40960 },
+  { name: "qwen-3-32b", contextWindow: 131072, maxOutputTokens: 40960 },
+  { name: "zai-glm-4.6", contextWindow: 131072, maxOutputTokens: 40960 },
+];
+
 /**
  * Cerebras AI SDKで利用可能なモデル名のデフォルトリスト。
  * このリストは、設定画面の「モデル名」ComboBoxで
  * サジェストとして使用されます。
  * (ユーザーはこれ以外のカスタムモデル名も入力可能です)
  */
-export const DEFAULT_CEREBRAS_MODELS = [
-  "gpt-oss-120b",
-  "llama-3.3-70b",
-  "llama3.1-8b",
-  "qwen-3-235b-a22b-instruct-2507",
-  "qwen-3-235b-a22b-thinking-2507",
-  "qwen-3-32b",
-  "zai-glm-4.6",
+export const DEFAULT_CEREBRAS_MODELS = CEREBRAS_MODEL_CATALOG.map((model) => model.name);
+
+/**
+ * モックプロバイダーのモデル名の一覧 (モデル名で動作を選択します。lib/mock-llm.ts を参照)
+ * 設定画面の「モデル名」ComboBoxでサジェストとして使用されます。
+ */
+export const MOCK_MODEL_NAMES = [
+  "mock-echo",
+  "mock-script",
+  "mock-empty",
+  "mock-error-401",
+  "mock-error-404",
+  "mock-error-429",
+  "mock-error-500",
+  "mock-flaky-429",
+  "mock-flaky-500",
 ];
+
+/**
+ * 推論・要約・統合モデルが利用できるLLMプロバイダーの一覧。
+ * 設定画面の「プロバイダー」選択肢として使用されます。
+ * (接続先URLやAPIキーはサーバーサイドの環境変数で設定します。lib/llm-providers.ts を参照)
+ */
+export const LLM_PROVIDERS = [
+  { id: "cerebras", label: "Cerebras" },
+  { id: "openai", label: "OpenAI互換API" },
+  { id: "ollama", label: "Ollama (ローカル)" },
+  { id: "llamacpp", label: "llama.cpp (ローカル)" },
+  { id: "mock", label: "モック (オフライン開発・テスト用)" },
+] as const;
+
+/**
+ * プロバイダーが指定されていない設定（旧バージョンのデータなど）で使用するプロバイダーID
+ */
+export const DEFAULT_PROVIDER_ID = "cerebras";
+
+/**
+ * 討論モードのラウンド数の上限 (最初の並行推論を含む)
+ */
+export const MAX_DEBATE_ROUNDS = 5;
+
+/**
+ * 統合モデルが複数の応答から最終回答を作成する方法（統合戦略）の一覧。
+ * 設定画面の「統合戦略」選択肢として使用されます。
+ * (各戦略のプロンプトと出力の解釈は lib/integration-strategies.ts を参照)
+ */
+export const INTEGRATION_STRATEGIES = [
+  {
+    id: "synthesize",
+    label: "統合 (Synthesize)",
+    description: "すべての応答をレビューし、単一の最終回答を新たに生成します",
+  },
+  {
+    id: "judge",
+    label: "審査 (Judge and pick best)",
+    description: "最も優れた応答を1つ選び、その応答をそのまま最終回答とします（選定理由付き）",
+  },
+  {
+    id: "rank-merge",
+    label: "順位付け＋上位統合 (Rank and merge top-k)",
+    description: "応答を順位付けし、上位k件の応答のみを基に最終回答を生成します",
+  },
+  {
+    id: "majority-vote",
+    label: "多数決 (Majority vote)",
+    description: "短い事実の回答向け。最も多くのモデルが支持する答えを最終回答とします",
+  },
+  {
+    id: "pass-through",
+    label: "統合しない (Pass-through)",
+    description: "統合モデルを呼び出さず、すべての応答を並べて表示します",
+  },
+] as const;
+
+/**
+ * 統合戦略のID
+ */
+export type IntegrationStrategyId = (typeof INTEGRATION_STRATEGIES)[number]["id"];
+
+/**
+ * 統合戦略が指定されていない設定（旧バージョンのデータなど）で使用する統合戦略
+ */
+export const DEFAULT_INTEGRATION_STRATEGY: IntegrationStrategyId = "synthesize";
+
+/**
+ * 「順位付け＋上位統合」戦略で統合に使用する応答数のデフォルト値
+ */
+export const DEFAULT_INTEGRATION_TOP_K = 2;
+
+/**
+ * 統合モデルの呼び出しがすべて失敗した場合の代替手段（フォールバック）の一覧。
+ * いずれの場合も、各モデルの個別応答はそのまま保存され、後から統合を再試行できます。
+ */
+export const INTEGRATION_FALLBACKS = [
+  {
+    id: "none",
+    label: "個別の応答を並べる",
+    description: "統合せずに、すべての応答を並べて表示します",
+  },
+  {
+    id: "first",
+    label: "最初の応答",
+    description: "最初に成功したモデルの応答を最終回答とします",
+  },
+  {
+    id: "longest",
+    label: "最も長い応答",
+    description: "最も長い応答を最終回答とします",
+  },
+  {
+    id: "secondary",
+    label: "予備の統合モデル",
+    description: "別のモデルで統合を再試行します。予備の統合モデルも失敗した場合は、すべての応答を並べて表示します",
+  },
+] as const;
+
+/**
+ * 統合のフォールバックのID
+ */
+export type IntegrationFallbackId = (typeof INTEGRATION_FALLBACKS)[number]["id"];
+
+/**
+ * フォールバックが指定されていない設定（旧バージョンのデータなど）で使用するフォールバック
+ */
+export const DEFAULT_INTEGRATION_FALLBACK: IntegrationFallbackId = "none";
+
+/**
+ * 会話履歴の自動要約をトリガーする条件の一覧。
+ * 設定画面の「要約の条件」選択肢として使用されます。(`threshold` の単位は条件ごとに異なる)
+ */
+export const SUMMARIZATION_TRIGGERS = [
+  { id: "off", label: "要約しない", unit: "", defaultThreshold: 1 },
+  { id: "message-count", label: "メッセージ件数", unit: "件", defaultThreshold: 10 },
+  { id: "characters", label: "文字数", unit: "文字", defaultThreshold: 30000 },
+  { id: "tokens", label: "推定トークン数", unit: "トークン", defaultThreshold: 16000 },
+] as const;
+
+/**
+ * 要約をトリガーする条件のID
+ */
+export type SummarizationTriggerId = (typeof SUMMARIZATION_TRIGGERS)[number]["id"];
+
+/**
+ * 要約後も要約せずにそのまま残す直近のやり取り（ユーザーの質問とその回答）の数の上限
+ */
+export const MAX_KEEP_RECENT_TURNS = 20;
+
+/**
+ * 要約ポリシーが設定されていない場合（旧バージョンのデータなど）に使用する要約ポリシー
+ */
+export const DEFAULT_SUMMARIZATION_POLICY: {
+  trigger: SummarizationTriggerId;
+  threshold: number;
+  keepRecentTurns: number;
+} = {
+  trigger: "message-count",
+  threshold: 10,
+  keepRecentTurns: 0,
+};
@@ -0,0 +1,58 @@
+import type { CoreMessage } from "ai";
+import { describe, expect, it } from "vitest";
+import type { LlmModelConfig } from "./chat-contract";
+import { fitMessagesToBudget, getContextBudget } from "./context-budget";
+
+/**
+ * 見積もりが 14 トークン (本文 10 + オーバーヘッド 4) のメッセージを作成します。
+ */
+const message = (role: "system" | "user" | "assistant", label: string): CoreMessage =>
+  ({ role, content: label.padEnd(40, ".") }) as CoreMessage;
+
+const labels = (messages: CoreMessage[]) => messages.map((m) => (m.content as string).replace(/\.+$/, ""));
+
+describe("getContextBudget", () => {
+  const model: LlmModelConfig = { provider: "cerebras", modelName: "llama3.1-8b", temperature: 0.7, maxTokens: 4096 };
+
+  it("コンテキストウィンドウから出力分と安全マージンを除いた分を入力の予算とする", () => {
+    expect(getContextBudget(model)).toEqual({ inputTokens: 25804, maxOutputTokens: 4096 });
+  });
+
+  it("最大出力トークン数はカタログの上限で切り詰める", () => {
+    expect(getContextBudget({ ...model, maxTokens: 100000 })).toEqual({ inputTokens: 22118, maxOutputTokens: 8192 });
+  });
+
+  it("カタログにないモデルは予算を算出しない", () => {
+    expect(getContextBudget({ ...model, modelName: "unknown-model" })).toBeNull();
+    expect(getContextBudget({ ...model, provider: "mock" })).toBeNull();
+  });
+});
+
+describe("fitMessagesToBudget", () => {
+  const history = [
+    message("system", "system"),
+    message("system", "summary"),
+    message("user", "q1"),
+    message("assistant", "a1"),
+    message("user", "q2"),
+    message("assistant", "a2"),
+    message("user", "last"),
+  ];
+
+  it("予算に収まる場合はそのまま返す", () => {
+    const fitted = fitMessagesToBudget(history, 14 * history.length);
+    expect(fitted).toEqual({ messages: history, droppedCount: 0 });
+  });
+
+  it("予算に収まるまで、古いメッセージから省略する", () => {
+    const fitted = fitMessagesToBudget(history, 14 * 5);
+    expect(labels(fitted.messages)).toEqual(["system", "summary", "q2", "a2", "last"]);
+    expect(fitted.droppedCount).toBe(2);
+  });
+
+  it("先頭のシステムメッセージと最後のメッセージは、予算を超えても省略しない", () => {
+    const fitted = fitMessagesToBudget(history, 0);
+    expect(labels(fitted.messages)).toEqual(["system", "summary", "last"]);
+    expect(fitted.droppedCount).toBe(4);
+  });
+});
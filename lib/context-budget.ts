@@ -0,0 +1,87 @@
+// 各モデル呼び出しの履歴を、そのモデルのコンテキストウィンドウに収めるための処理 (サーバーサイドで使用)
+
+import type { CoreMessage } from "ai";
+import type { LlmModelConfig } from "./chat-contract";
+import { getModelSpec } from "./model-catalog";
+import { estimateMessagesTokens } from "./token-estimator";
+
+// #region 定数
+/**
+ * トークン数の見積もり誤差に備えて、入力に使用しないコンテキストウィンドウの割合
+ */
+const SAFETY_MARGIN_RATIO = 0.1;
+// #endregion
+
+/**
+ * 1回の呼び出しで使用できるトークン数
+ */
+export interface ContextBudget {
+  /** 入力（履歴）に使用できる推定トークン数 */
+  inputTokens: number;
+  /** 出力に使用する最大トークン数 (モデルの上限で切り詰めたもの) */
+  maxOutputTokens: number;
+}
+
+/**
+ * モデル設定から、1回の呼び出しで使用できるトークン数を算出します。
+ * @param {LlmModelConfig} modelSettings - 使用するモデルの設定
+ * @returns {ContextBudget | null} トークン数の予算 (カタログにないモデルの場合は null)
+ */
+export function getContextBudget(modelSettings: LlmModelConfig): ContextBudget | null {
+  const spec = getModelSpec(modelSettings);
+  if (!spec) {
+    return null;
+  }
+  const maxOutputTokens = Math.min(modelSettings.maxTokens, spec.maxOutputTokens);
+  return {
+    inputTokens: Math.floor((spec.contextWindow - maxOutputTokens) * (1 - SAFETY_MARGIN_RATIO)),
+    maxOutputTokens,
+  };
+}
+
+/**
+ * メッセージの本文をトークン数の見積もり用の文字列として取り出します。
+ * @param {CoreMessage} message - 対象のメッセージ
+ * @returns {{ content: string }} 本文
+ */
+function toEstimatable(message: CoreMessage): { content: string } {
+  return { content: typeof message.content === "string" ? message.content : JSON.stringify(message.content) };
+}
+
+/**
+ * LLMに渡すメッセージ全体の推定トークン数を求めます。
+ * @param {CoreMessage[]} messages - LLMに渡すメッセージ
+ * @returns {number} 推定トークン数
+ */
+export function estimatePromptTokens(messages: CoreMessage[]): number {
+  return estimateMessagesTokens(messages.map(toEstimatable));
+}
+
+/**
+ * 履歴が入力トークン数の予算に収まるように、古いメッセージから省略します。
+ * 先頭のシステムメッセージ（システムプロンプト・要約）と最後のメッセージ（質問や指示）は省略しません。
+ * (統合モデルのプロンプトのように最後のメッセージに大部分が含まれる場合は、省略しても予算に収まらないことがあります)
+ * @param {CoreMessage[]} messages - LLMに渡すメッセージ履歴
+ * @param {number} inputTokenBudget - 入力に使用できる推定トークン数
+ * @returns {{ messages: CoreMessage[]; droppedCount: number }} 予算に収めた履歴と、省略したメッセージの数
+ */
+export function fitMessagesToBudget(
+  messages: CoreMessage[],
+  inputTokenBudget: number,
+): { messages: CoreMessage[]; droppedCount: number } {
+  let leadingSystemCount = 0;
+  while (leadingSystemCount < messages.length - 1 && messages[leadingSystemCount].role === "system") {
+    leadingSystemCount++;
+  }
+  const head = messages.slice(0, leadingSystemCount);
+  const middle = messages.slice(leadingSystemCount, -1);
+  const last = messages.slice(-1);
+
+  let droppedCount = 0;
+  let total = estimatePromptTokens([...head, ...middle, ...last]);
+  while (total > inputTokenBudget && droppedCount < middle.length) {
+    total -= estimatePromptTokens([middle[droppedCount]]);
+    droppedCount++;
+  }
+  return { messages: [...head, ...middle.slice(droppedCount), ...last], droppedCount };
+}
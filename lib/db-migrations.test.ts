@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import type { Message } from "./db";
+import { DB_VERSION, migrateMessages } from "./db-migrations";
+
+/**
+ * v1 の形式 (親子関係・通し番号なし) のメッセージを作成します。
+ */
+function message(id: string, timestamp: number, overrides: Partial<Message> = {}): Message {
+  return {
+    id,
+    role: "user",
+    content: id,
+    timestamp,
+    conversationId: "conv_1",
+    ...overrides,
+  };
+}
+
+/**
+ * 変換後のメッセージの [ID, 親ID, 通し番号] を、会話・通し番号の順に並べます。
+ */
+function migrate(messages: Message[], oldVersion: number) {
+  return migrateMessages(messages, oldVersion)
+    .sort((a, b) => a.conversationId.localeCompare(b.conversationId) || a.sequence! - b.sequence!)
+    .map((m) => [m.id, m.parentId, m.sequence]);
+}
+
+describe("migrateMessages", () => {
+  it("v1 のメッセージを、会話ごとに時刻の順でツリーにつなぎ、通し番号を割り当てる", () => {
+    expect(
+      migrate(
+        [
+          message("msg_3", 3, { role: "assistant" }),
+          message("msg_1", 1),
+          // 要約は、要約に置き換えた最後のメッセージの子になる
+          message("msg_1_summary", 1.5, { role: "system", summarizedMessageIds: ["msg_1"] }),
+          message("msg_2", 2, { conversationId: "conv_2" }),
+        ],
+        1,
+      ),
+    ).toEqual([
+      ["msg_1", undefined, 1],
+      ["msg_1_summary", "msg_1", 2],
+      ["msg_3", "msg_1", 3],
+      ["msg_2", undefined, 1],
+    ]);
+  });
+
+  it("旧形式の要約 (IDの順では最後に並ぶ) は、会話の先頭のメッセージとする", () => {
+    expect(
+      migrate(
+        [
+          message("msg_10", 10),
+          message("msg_11", 11, { role: "assistant" }),
+          message("msg_summary_12", 12, { role: "system" }),
+        ],
+        1,
+      ),
+    ).toEqual([
+      ["msg_summary_12", undefined, 1],
+      ["msg_10", undefined, 2],
+      ["msg_11", "msg_10", 3],
+    ]);
+  });
+
+  it("v2 のメッセージは、既存の分岐を保ったまま通し番号のみを割り当てる", () => {
+    const messages = [
+      message("msg_1", 1),
+      message("msg_2", 2, { role: "assistant", parentId: "msg_1" }),
+      // msg_1 を編集した分岐
+      message("msg_3", 3),
+    ];
+    expect(migrate(messages, 2)).toEqual([
+      ["msg_1", undefined, 1],
+      ["msg_2", "msg_1", 2],
+      ["msg_3", undefined, 3],
+    ]);
+  });
+
+  it("最新のバージョンでは何も変更しない", () => {
+    expect(migrateMessages([message("msg_1", 1)], DB_VERSION)).toEqual([]);
+  });
+});
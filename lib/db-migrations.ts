@@ -0,0 +1,241 @@
+// IndexedDB (lib/db.ts) のスキーマのマイグレーション
+// スキーマを変更する場合は、`MIGRATIONS` の末尾に新しいバージョンのマイグレーションを追加してください。
+// 既存のDBを開くと、保存されているバージョンより新しいマイグレーションが順に適用されます。
+// (すべてバージョン更新トランザクション内で実行され、途中で失敗した場合はDB全体が元のバージョンのまま残ります)
+
+import type { Message } from "./chat-contract";
+import { toSearchRecord } from "./search-index";
+
+/**
+ * メッセージストアのインデックス名
+ */
+export const MESSAGE_INDEXES = {
+  /** 会話IDでの検索 (会話の削除などで使用) */
+  conversationId: "conversationId",
+  /** 会話内の時刻による範囲検索 (キー: [会話ID, timestamp]) */
+  conversationTimestamp: "conversationId_timestamp",
+  /** 会話内の作成順での取得 (キー: [会話ID, sequence]) */
+  conversationSequence: "conversationId_sequence",
+} as const;
+
+/**
+ * 検索インデックスのストア (lib/search-index.ts) のインデックス名
+ */
+export const SEARCH_INDEXES = {
+  /** n-gram トークンでの検索 (multiEntry) */
+  tokens: "tokens",
+  /** 会話IDでの検索 (会話の削除で使用) */
+  conversationId: "conversationId",
+} as const;
+
+/**
+ * 1つのバージョンのマイグレーション
+ */
+interface Migration {
+  /** 適用後のDBバージョン */
+  version: number;
+  /** 変更内容 (ログ出力用) */
+  description: string;
+  /**
+   * ストア・インデックスを変更します。(バージョン更新トランザクション内で実行)
+   * @param {IDBDatabase} db - 接続中のDB
+   * @param {IDBTransaction} transaction - バージョン更新トランザクション
+   */
+  upgradeSchema?: (db: IDBDatabase, transaction: IDBTransaction) => void;
+  /**
+   * 保存されているメッセージを変換します。
+   * @param {Message[]} messages - すべてのメッセージ (以前のバージョンの変換を適用済み)
+   * @returns {Message[]} 変更したメッセージ
+   */
+  transformMessages?: (messages: Message[]) => Message[];
+  /**
+   * 保存されているメッセージから、他のストアのデータを作成します。
+   * @param {Message[]} messages - すべてのメッセージ (すべてのバージョンの変換を適用済み)
+   * @param {IDBTransaction} transaction - バージョン更新トランザクション
+   */
+  populateFromMessages?: (messages: Message[], transaction: IDBTransaction) => void;
+}
+
+// #region データ変換
+
+/**
+ * 旧形式の要約メッセージか (要約に置き換えた元のメッセージは削除され、会話の先頭に置かれていた)
+ * @param {Message} message - 対象のメッセージ
+ * @returns {boolean} 'msg_summary_${timestamp}' 形式のIDを持つ要約メッセージの場合は true
+ */
+function isLegacySummary(message: Message): boolean {
+  return message.role === "system" && message.id.startsWith("msg_summary_");
+}
+
+/**
+ * 既存のメッセージを、会話内の表示順に比較します。
+ * IDの順は旧形式の要約や複製したメッセージで崩れるため、時刻の順とし、旧形式の要約は先頭に置きます。
+ * (現在の形式の要約の時刻は、残したやり取りより前に並ぶよう調整されている)
+ * @param {Message} a
+ * @param {Message} b
+ * @returns {number} 比較結果
+ */
+function compareStoredOrder(a: Message, b: Message): number {
+  return (
+    Number(isLegacySummary(b)) - Number(isLegacySummary(a)) || a.timestamp - b.timestamp || a.id.localeCompare(b.id)
+  );
+}
+
+/**
+ * メッセージを会話ごとにまとめ、表示順に並べます。
+ * @param {Message[]} messages - すべてのメッセージ
+ * @returns {Message[][]} 会話ごとのメッセージ
+ */
+function groupByConversation(messages: Message[]): Message[][] {
+  const conversations = new Map<string, Message[]>();
+  for (const message of messages) {
+    conversations.set(message.conversationId, [...(conversations.get(message.conversationId) ?? []), message]);
+  }
+  return [...conversations.values()].map((conversation) => conversation.sort(compareStoredOrder));
+}
+
+/**
+ * (v2) 一列に並んでいたメッセージを、`parentId` でつながったツリーに変換します。
+ * 各メッセージの親は、同じ会話の直前のメッセージ (要約メッセージを除く) とします。
+ * 要約メッセージは、要約に置き換えた最後のメッセージの子になります。(旧形式の要約は親なし)
+ * @param {Message[]} messages - すべてのメッセージ
+ * @returns {Message[]} 変更したメッセージ
+ */
+function linkMessagesAsTree(messages: Message[]): Message[] {
+  return groupByConversation(messages).flatMap((conversation) => {
+    const linked: Message[] = [];
+    let parentId: string | undefined;
+    for (const message of conversation) {
+      if (parentId && !message.parentId) {
+        linked.push({ ...message, parentId });
+      }
+      if (message.role !== "system") {
+        parentId = message.id;
+      }
+    }
+    return linked;
+  });
+}
+
+/**
+ * (v3) 会話ごとに、表示順の通し番号 (`sequence`、1始まり) を割り当てます。
+ * @param {Message[]} messages - すべてのメッセージ
+ * @returns {Message[]} 変更したメッセージ
+ */
+function assignSequenceNumbers(messages: Message[]): Message[] {
+  return groupByConversation(messages).flatMap((conversation) =>
+    conversation.map((message, index) => ({ ...message, sequence: index + 1 })),
+  );
+}
+
+// #endregion
+
+/**
+ * バージョン順のマイグレーション
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "ストアの作成",
+    upgradeSchema: (db) => {
+      db.createObjectStore("conversations", { keyPath: "id" });
+      const messagesStore = db.createObjectStore("messages", { keyPath: "id" });
+      messagesStore.createIndex(MESSAGE_INDEXES.conversationId, "conversationId", { unique: false });
+      // 推論モデル設定・アプリ設定 (旧バージョンの "apiKeys" ストアは削除されました)
+      db.createObjectStore("modelSettings", { keyPath: "id" });
+      db.createObjectStore("appSettings", { keyPath: "id" });
+    },
+  },
+  {
+    version: 2,
+    description: "メッセージをツリー (分岐) で保存する",
+    transformMessages: linkMessagesAsTree,
+  },
+  {
+    version: 3,
+    description: "会話内の時刻・通し番号のインデックスを追加する",
+    upgradeSchema: (_db, transaction) => {
+      const messagesStore = transaction.objectStore("messages");
+      messagesStore.createIndex(MESSAGE_INDEXES.conversationTimestamp, ["conversationId", "timestamp"], {
+        unique: false,
+      });
+      messagesStore.createIndex(MESSAGE_INDEXES.conversationSequence, ["conversationId", "sequence"], {
+        unique: true,
+      });
+    },
+    transformMessages: assignSequenceNumbers,
+  },
+  {
+    version: 4,
+    description: "全文検索のインデックスを作成する",
+    upgradeSchema: (db) => {
+      const searchStore = db.createObjectStore("searchIndex", { keyPath: "messageId" });
+      searchStore.createIndex(SEARCH_INDEXES.tokens, "tokens", { unique: false, multiEntry: true });
+      searchStore.createIndex(SEARCH_INDEXES.conversationId, "conversationId", { unique: false });
+    },
+    populateFromMessages: (messages, transaction) => {
+      const searchStore = transaction.objectStore("searchIndex");
+      for (const record of messages.map(toSearchRecord)) {
+        if (record) searchStore.put(record);
+      }
+    },
+  },
+];
+
+/**
+ * 現在のDBバージョン (最後のマイグレーションのバージョン)
+ */
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * 保存されているバージョンより新しいマイグレーションの、メッセージの変換を順に適用します。
+ * @param {Message[]} messages - 保存されているすべてのメッセージ
+ * @param {number} oldVersion - 保存されているDBのバージョン
+ * @returns {Message[]} 変更したメッセージ (変換後の内容)
+ */
+export function migrateMessages(messages: Message[], oldVersion: number): Message[] {
+  const current = new Map(messages.map((m) => [m.id, m]));
+  const changedIds = new Set<string>();
+  for (const migration of MIGRATIONS) {
+    if (oldVersion >= migration.version || !migration.transformMessages) continue;
+    for (const message of migration.transformMessages([...current.values()])) {
+      current.set(message.id, message);
+      changedIds.add(message.id);
+    }
+  }
+  return [...changedIds].map((id) => current.get(id)!);
+}
+
+/**
+ * 保存されているバージョンより新しいマイグレーションを順に適用します。(`onupgradeneeded` から呼び出す)
+ * ストア・インデックスの変更をすべて行ってから、メッセージを1回読み込んで変換し、書き戻します。
+ * (変換後のメッセージから、他のストアのデータを作成する)
+ * @param {IDBDatabase} db - 接続中のDB
+ * @param {IDBTransaction} transaction - バージョン更新トランザクション
+ * @param {number} oldVersion - 保存されているDBのバージョン (新規作成の場合は 0)
+ */
+export function runMigrations(db: IDBDatabase, transaction: IDBTransaction, oldVersion: number): void {
+  for (const migration of MIGRATIONS) {
+    if (oldVersion < migration.version) {
+      console.log(`[DB] v${migration.version} へのマイグレーションを実行します: ${migration.description}`);
+      migration.upgradeSchema?.(db, transaction);
+    }
+  }
+  // 新規作成の場合は変換するメッセージがない
+  if (oldVersion === 0) return;
+
+  const messagesStore = transaction.objectStore("messages");
+  const request = messagesStore.getAll();
+  request.onsuccess = () => {
+    const migrated = new Map((request.result as Message[]).map((m) => [m.id, m]));
+    for (const message of migrateMessages([...migrated.values()], oldVersion)) {
+      messagesStore.put(message);
+      migrated.set(message.id, message);
+    }
+    for (const migration of MIGRATIONS) {
+      if (oldVersion < migration.version) {
+        migration.populateFromMessages?.([...migrated.values()], transaction);
+      }
+    }
+  };
+}
@@ -1,29 +1,42 @@
 // IndexedDBを使ったクライアントサイドの永続化ストレージ
 
-// #region 型定義
+import type {
+  AlternateAnswer,
+  AppSettings,
+  CallMetrics,
+  DebateSettings,
+  FailedModel,
+  IntegrationFailure,
+  IntegrationInfo,
+  Message,
+  MessageVersion,
+  ModelResponse,
+  ModelSettings,
+  SummarizationPolicy,
+} from "./chat-contract";
+import { DB_VERSION, MESSAGE_INDEXES, SEARCH_INDEXES, runMigrations } from "./db-migrations";
+import type { ImportPlanItem } from "./history-import";
+import { createId } from "./ids";
+import { getPathTo } from "./message-tree";
+import { getQueryTokens, matchesQuery, toSearchRecord } from "./search-index";
+
+// メッセージ・モデル設定の型は /api/chat と共有するため lib/chat-contract.ts のスキーマから導出する
+export type {
+  AlternateAnswer,
+  AppSettings,
+  CallMetrics,
+  DebateSettings,
+  FailedModel,
+  IntegrationFailure,
+  IntegrationInfo,
+  Message,
+  MessageVersion,
+  ModelResponse,
+  ModelSettings,
+  SummarizationPolicy,
+};
 
-/**
- * チャットメッセージの構造
- */
-export interface Message {
-  id: string;
-  /** メッセージの送信者 (systemは要約などに使用) */
-  role: "user" | "assistant" | "system";
-  content: string;
-  timestamp: number;
-  conversationId: string;
-  /** アシスタントの場合、各モデルの個別応答を保持 */
-  modelResponses?: ModelResponse[];
-}
-
-/**
- * アシスタントメッセージに紐づく、各推論モデルの個別応答
- */
-export interface ModelResponse {
-  model: string;
-  provider: string;
-  content: string;
-}
+// #region 型定義
 
 /**
  * 会話セッションのメタデータ
@@ -35,42 +48,172 @@ export interface Conversation {
   updatedAt: number;
   /** この会話に固有のシステムプロンプト */
   systemPrompt?: string;
+  /** この会話に固有の要約ポリシー (未設定の場合はアプリ設定の要約ポリシーに従う) */
+  summarization?: SummarizationPolicy;
+  /** 別の会話のメッセージから分岐して作成した場合、分岐元の会話とメッセージ */
+  forkedFrom?: {
+    conversationId: string;
+    messageId: string;
+  };
 }
+// #endregion
+
+const DB_NAME = "multi-llm-chat";
 
 /**
- * 並行推論モデルの設定
+ * 履歴のインポートで、1つのトランザクションにまとめて書き込む会話の数
  */
-export interface ModelSettings {
-  id: string;
-  provider: string;
-  modelName: string;
-  temperature: number;
-  maxTokens: number;
-  /** このモデルを並行推論で使用するか否か */
-  enabled: boolean;
+const IMPORT_BATCH_SIZE = 20;
+
+/**
+ * メッセージを新しいIDで別の会話に複製します。
+ * 分岐の親子関係と、要約が置き換えたメッセージのIDも新しいIDに付け替えます。
+ * @param {Message[]} messages - 複製するメッセージ (通し番号の順)
+ * @param {string} conversationId - 複製先の会話ID
+ * @returns {Message[]} 複製されたメッセージ (通し番号は 1 から振り直す)
+ */
+function copyMessages(messages: Message[], conversationId: string): Message[] {
+  const newIds = new Map(messages.map((msg) => [msg.id, createId("msg")]));
+  return messages.map((msg, index) => ({
+    ...msg,
+    id: newIds.get(msg.id)!, // 新しいユニークID
+    conversationId, // 新しい会話IDに紐付け
+    sequence: index + 1,
+    parentId: msg.parentId && newIds.get(msg.parentId),
+    summarizedMessageIds: msg.summarizedMessageIds?.map((id) => newIds.get(id) ?? id),
+  }));
 }
 
 /**
- * アプリケーション全体の設定（要約・統合）
+ * 会話内の全メッセージを、通し番号の範囲で指定するキー
+ * @param {string} conversationId - 会話のID
+ * @returns {IDBKeyRange} `MESSAGE_INDEXES.conversationSequence` (または時刻のインデックス) のキーの範囲
  */
-export interface AppSettings {
-  summarizerModel?: {
-    provider: string;
-    modelName: string;
-    temperature: number;
-    maxTokens: number;
-  };
-  integratorModel?: {
-    provider: string;
-    modelName: string;
-    temperature: number;
-    maxTokens: number;
-  };
+function conversationRange(conversationId: string): IDBKeyRange {
+  return IDBKeyRange.bound([conversationId, -Infinity], [conversationId, Infinity]);
 }
-// #endregion
 
-const DB_NAME = "multi-llm-chat";
-const DB_VERSION = 1;
+/**
+ * メッセージの検索インデックスのレコードを、メッセージの内容に合わせて書き込みます。
+ * @param {IDBTransaction} transaction - "searchIndex" ストアを含むトランザクション
+ * @param {Message} message - 追加・更新したメッセージ
+ */
+function writeSearchRecord(transaction: IDBTransaction, message: Message): void {
+  const searchStore = transaction.objectStore("searchIndex");
+  const record = toSearchRecord(message);
+  if (record) {
+    searchStore.put(record);
+  } else {
+    searchStore.delete(message.id);
+  }
+}
+
+/**
+ * 作業単位に登録された書き込み操作
+ * 操作は登録順に1つずつ実行され、完了したら `done` を呼び出して次の操作に進みます。
+ */
+type WriteOperation = (transaction: IDBTransaction, done: () => void) => void;
+
+/**
+ * 複数のストアへの書き込みをまとめた作業単位 (`db.runInTransaction` で使用)
+ * 登録した操作はすべて1つのトランザクションで実行され、いずれかが失敗するとすべて取り消されます。
+ */
+export class UnitOfWork {
+  /** 書き込み対象のストア */
+  readonly storeNames = new Set<"conversations" | "messages" | "searchIndex">();
+  /** 登録順の書き込み操作 */
+  readonly operations: WriteOperation[] = [];
+
+  /**
+   * 新しい会話メタデータを追加します。
+   * @param {Conversation} conversation - 追加する会話オブジェクト
+   */
+  addConversation(conversation: Conversation): void {
+    this.storeNames.add("conversations");
+    this.operations.push((transaction, done) => {
+      transaction.objectStore("conversations").add(conversation).onsuccess = done;
+    });
+  }
+
+  /**
+   * 既存の会話メタデータを更新します。
+   * @param {Conversation} conversation - 更新する会話オブジェクト (IDで検索)
+   */
+  updateConversation(conversation: Conversation): void {
+    this.storeNames.add("conversations");
+    this.operations.push((transaction, done) => {
+      transaction.objectStore("conversations").put(conversation).onsuccess = done;
+    });
+  }
+
+  /**
+   * 会話と、それに紐づく全てのメッセージ (と検索インデックス) を削除します。
+   * @param {string} id - 削除する会話のID
+   */
+  deleteConversation(id: string): void {
+    this.storeNames.add("conversations").add("messages").add("searchIndex");
+    this.operations.push((transaction, done) => {
+      transaction.objectStore("conversations").delete(id);
+      // 検索インデックスのレコードは、メッセージの削除と並行して削除する
+      // (同じ作業単位で同じIDの会話を追加し直せるよう、両方の削除が終わってから次の操作に進む)
+      let pending = 2;
+      const deleteAll = (store: IDBObjectStore, indexName: string) => {
+        const request = store.index(indexName).openKeyCursor(IDBKeyRange.only(id));
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) {
+            if (--pending === 0) done();
+            return;
+          }
+          store.delete(cursor.primaryKey);
+          cursor.continue();
+        };
+      };
+      deleteAll(transaction.objectStore("searchIndex"), SEARCH_INDEXES.conversationId);
+      deleteAll(transaction.objectStore("messages"), MESSAGE_INDEXES.conversationId);
+    });
+  }
+
+  /**
+   * 新しいメッセージを追加します。
+   * 会話内の通し番号 (`sequence`) は、書き込み時点の最大値の次の番号を割り当てます。
+   * @param {Message} message - 追加するメッセージオブジェクト
+   */
+  addMessage(message: Message): void {
+    this.storeNames.add("messages").add("searchIndex");
+    this.operations.push((transaction, done) => {
+      const store = transaction.objectStore("messages");
+      // 会話内で最も大きい通し番号のメッセージ
+      const request = store
+        .index(MESSAGE_INDEXES.conversationSequence)
+        .openCursor(conversationRange(message.conversationId), "prev");
+      request.onsuccess = () => {
+        const last = request.result?.value as Message | undefined;
+        store.add({ ...message, sequence: (last?.sequence ?? 0) + 1 });
+        writeSearchRecord(transaction, message);
+        done();
+      };
+    });
+  }
+
+  /**
+   * 既存のメッセージを丸ごと上書き保存します。通し番号は保存済みのものを引き継ぎます。
+   * @param {Message} message - 更新後のメッセージオブジェクト
+   */
+  updateMessage(message: Message): void {
+    this.storeNames.add("messages").add("searchIndex");
+    this.operations.push((transaction, done) => {
+      const store = transaction.objectStore("messages");
+      const request = store.get(message.id);
+      request.onsuccess = () => {
+        const stored = request.result as Message | undefined;
+        store.put({ ...message, sequence: stored?.sequence ?? message.sequence });
+        writeSearchRecord(transaction, message);
+        done();
+      };
+    });
+  }
+}
 
 /**
  * IndexedDBを非同期で操作するためのラッパークラス
@@ -92,37 +235,54 @@ class Database {
       request.onerror = () => reject(request.error);
       request.onsuccess = () => {
         this.db = request.result;
+        // 別のタブで新しいバージョンのDBが開かれた場合は、マイグレーションを妨げないよう接続を閉じる
+        // (次の操作時に再接続する)
+        this.db.onversionchange = () => {
+          this.db?.close();
+          this.db = null;
+        };
         resolve();
       };
 
-      // DBバージョンが古い場合、または新規作成時に実行
+      // DBバージョンが古い場合、または新規作成時に実行 (lib/db-migrations.ts)
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-
-        // 会話ストア
-        if (!db.objectStoreNames.contains("conversations")) {
-          db.createObjectStore("conversations", { keyPath: "id" });
-        }
-
-        // メッセージストア
-        if (!db.objectStoreNames.contains("messages")) {
-          const messagesStore = db.createObjectStore("messages", { keyPath: "id" });
-          // 会話IDでの検索を高速化するためのインデックス
-          messagesStore.createIndex("conversationId", "conversationId", { unique: false });
-        }
-
-        // (旧バージョンの "apiKeys" ストアは削除されました)
+        runMigrations(request.result, request.transaction!, event.oldVersion);
+      };
+      request.onblocked = () => {
+        console.warn("[DB] 別のタブが古いバージョンのDBを開いているため、マイグレーションを待機しています");
+      };
+    });
+  }
 
-        // 推論モデル設定ストア
-        if (!db.objectStoreNames.contains("modelSettings")) {
-          db.createObjectStore("modelSettings", { keyPath: "id" });
-        }
+  /**
+   * 複数のストアへの書き込みを、1つのトランザクションでまとめて実行します。
+   * いずれかの書き込みが失敗した場合は、トランザクション全体が取り消されます (何も書き込まれない)。
+   * @param {(work: UnitOfWork) => void} build - 書き込み操作を登録する関数 (同期的に登録すること)
+   * @returns {Promise<void>} すべての書き込みがコミットされると解決するPromise
+   * @example
+   * await db.runInTransaction((work) => {
+   *   work.addMessage(userMessage);
+   *   work.addMessage(assistantMessage);
+   *   work.updateConversation({ ...conversation, title });
+   * });
+   */
+  async runInTransaction(build: (work: UnitOfWork) => void): Promise<void> {
+    const work = new UnitOfWork();
+    build(work);
+    if (work.operations.length === 0) return;
 
-        // アプリ設定ストア
-        if (!db.objectStoreNames.contains("appSettings")) {
-          db.createObjectStore("appSettings", { keyPath: "id" });
-        }
+    if (!this.db) await this.init();
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([...work.storeNames], "readwrite");
+      // 操作を登録順に1つずつ実行する (通し番号の割り当てが前の操作の書き込みを参照できるように)
+      const runFrom = (index: number) => {
+        work.operations[index]?.(transaction, () => runFrom(index + 1));
       };
+      runFrom(0);
+
+      transaction.oncomplete = () => resolve();
+      // 失敗した書き込みのエラーはトランザクションの中止として通知される
+      transaction.onabort = () => reject(transaction.error ?? new Error("トランザクションが中止されました"));
     });
   }
 
@@ -156,15 +316,7 @@ class Database {
    * @returns {Promise<void>}
    */
   async createConversation(conversation: Conversation): Promise<void> {
-    if (!this.db) await this.init();
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(["conversations"], "readwrite");
-      const store = transaction.objectStore("conversations");
-      const request = store.add(conversation);
-
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
-    });
+    return this.runInTransaction((work) => work.addConversation(conversation));
   }
 
   /**
@@ -173,15 +325,7 @@ class Database {
    * @returns {Promise<void>}
    */
   async updateConversation(conversation: Conversation): Promise<void> {
-    if (!this.db) await this.init();
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(["conversations"], "readwrite");
-      const store = transaction.objectStore("conversations");
-      const request = store.put(conversation); // putはIDが存在すれば更新、なければ追加
-
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
-    });
+    return this.runInTransaction((work) => work.updateConversation(conversation));
   }
 
   /**
@@ -190,28 +334,20 @@ class Database {
    * @returns {Promise<void>}
    */
   async deleteConversation(id: string): Promise<void> {
+    return this.runInTransaction((work) => work.deleteConversation(id));
+  }
+
+  /**
+   * 指定されたIDの会話メタデータを取得します。
+   * @param {string} id - 会話のID
+   * @returns {Promise<Conversation | undefined>} 会話オブジェクト (見つからない場合は undefined)
+   */
+  private async getConversation(id: string): Promise<Conversation | undefined> {
     if (!this.db) await this.init();
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(["conversations", "messages"], "readwrite");
-      const conversationsStore = transaction.objectStore("conversations");
-      const messagesStore = transaction.objectStore("messages");
-      const index = messagesStore.index("conversationId");
-
-      // 1. 会話メタデータを削除
-      conversationsStore.delete(id);
-
-      // 2. 関連する全メッセージをインデックス経由で削除
-      const request = index.openCursor(IDBKeyRange.only(id));
-      request.onsuccess = (event) => {
-        const cursor = (event.target as IDBRequest).result;
-        if (cursor) {
-          messagesStore.delete(cursor.primaryKey);
-          cursor.continue();
-        }
-      };
-
-      transaction.oncomplete = () => resolve();
-      transaction.onerror = () => reject(transaction.error);
+      const tx = this.db!.transaction(["conversations"], "readonly");
+      tx.objectStore("conversations").get(id).onsuccess = (e) => resolve((e.target as IDBRequest).result);
+      tx.onerror = () => reject(tx.error);
     });
   }
 
@@ -222,14 +358,8 @@ class Database {
    * @throws {Error} 複製元の会話が見つからない場合
    */
   async duplicateConversation(originalId: string): Promise<Conversation> {
-    if (!this.db) await this.init();
-
     // 1. 複製元の会話メタデータを取得
-    const originalConv = await new Promise<Conversation>((resolve, reject) => {
-      const tx = this.db!.transaction(["conversations"], "readonly");
-      tx.objectStore("conversations").get(originalId).onsuccess = (e) => resolve((e.target as IDBRequest).result);
-      tx.onerror = () => reject(tx.error);
-    });
+    const originalConv = await this.getConversation(originalId);
 
     if (!originalConv) {
       throw new Error("Conversation not found");
@@ -241,29 +371,52 @@ class Database {
     // 3. 新しいConversationオブジェクトを作成
     const newConversation: Conversation = {
       ...originalConv,
-      id: `conv_${Date.now()}`, // 新しいID
+      id: createId("conv"), // 新しいID
       title: `${originalConv.title} (コピー)`, // タイトルを変更
       createdAt: Date.now(), // 現在時刻
       updatedAt: Date.now(),
     };
 
-    // 4. メッセージを新しいIDで複製
-    const newMessages: Message[] = originalMessages.map((msg, index) => ({
-      ...msg,
-      id: `msg_${Date.now() + index + 1}`, // 新しいユニークID
-      conversationId: newConversation.id, // 新しい会話IDに紐付け
-    }));
-
-    // 5. 新しい会話とメッセージをDBに一括書き込み
-    await new Promise<void>((resolve, reject) => {
-      const tx = this.db!.transaction(["conversations", "messages"], "readwrite");
-      tx.objectStore("conversations").add(newConversation);
-      const messagesStore = tx.objectStore("messages");
-      for (const msg of newMessages) {
-        messagesStore.add(msg);
-      }
-      tx.oncomplete = () => resolve();
-      tx.onerror = () => reject(tx.error);
+    // 4. メッセージを新しいIDで複製し、新しい会話とともにDBに一括書き込み
+    await this.runInTransaction((work) => {
+      work.addConversation(newConversation);
+      copyMessages(originalMessages, newConversation.id).forEach((msg) => work.addMessage(msg));
+    });
+
+    return newConversation;
+  }
+
+  /**
+   * 会話の指定されたメッセージから分岐して、新しい会話を作成します。
+   * 新しい会話には、ルートからそのメッセージまでのパス (そのメッセージを含む) の履歴と、
+   * 分岐元の会話のシステムプロンプト・要約ポリシーが引き継がれます。
+   * @param {string} originalId - 分岐元の会話ID
+   * @param {string} messageId - 分岐するメッセージのID
+   * @returns {Promise<Conversation>} 新しく作成された会話オブジェクト
+   * @throws {Error} 分岐元の会話またはメッセージが見つからない場合
+   */
+  async forkConversation(originalId: string, messageId: string): Promise<Conversation> {
+    const originalConv = await this.getConversation(originalId);
+    if (!originalConv) {
+      throw new Error("Conversation not found");
+    }
+
+    const history = getPathTo(await this.getMessages(originalId), messageId);
+    if (history.length === 0) {
+      throw new Error("Message not found");
+    }
+
+    const newConversation: Conversation = {
+      ...originalConv,
+      id: createId("conv"),
+      title: `${originalConv.title} (分岐)`,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      forkedFrom: { conversationId: originalId, messageId },
+    };
+    await this.runInTransaction((work) => {
+      work.addConversation(newConversation);
+      copyMessages(history, newConversation.id).forEach((msg) => work.addMessage(msg));
     });
 
     return newConversation;
@@ -272,8 +425,7 @@ class Database {
 
   // #region Messages API
   /**
-   * 指定された会話IDに紐づく全てのメッセージを取得します。
-   * (注: この層ではソートされません。必要に応じて呼び出し側で行います)
+   * 指定された会話IDに紐づく全てのメッセージを、通し番号 (追加した順) で取得します。
    * @param {string} conversationId - メッセージを取得する会話のID
    * @returns {Promise<Message[]>} メッセージの配列
    */
@@ -282,8 +434,8 @@ class Database {
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction(["messages"], "readonly");
       const store = transaction.objectStore("messages");
-      const index = store.index("conversationId");
-      const request = index.getAll(conversationId);
+      const index = store.index(MESSAGE_INDEXES.conversationSequence);
+      const request = index.getAll(conversationRange(conversationId));
 
       request.onsuccess = () => resolve(request.result || []);
       request.onerror = () => reject(request.error);
@@ -291,137 +443,136 @@ class Database {
   }
 
   /**
-   * 新しいメッセージをDBに追加します。
-   * @param {Message} message - 追加するメッセージオブジェクト
-   * @returns {Promise<void>}
+   * 指定された会話の、期間内に作成されたメッセージを時刻の順で取得します。
+   * @param {string} conversationId - メッセージを取得する会話のID
+   * @param {number} [since] - 期間の開始時刻 (この時刻を含む、省略時は制限なし)
+   * @param {number} [until] - 期間の終了時刻 (この時刻を含む、省略時は制限なし)
+   * @returns {Promise<Message[]>} メッセージの配列
    */
-  async addMessage(message: Message): Promise<void> {
+  async getMessagesByTime(conversationId: string, since = -Infinity, until = Infinity): Promise<Message[]> {
     if (!this.db) await this.init();
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(["messages"], "readwrite");
+      const transaction = this.db!.transaction(["messages"], "readonly");
       const store = transaction.objectStore("messages");
-      const request = store.add(message);
+      const index = store.index(MESSAGE_INDEXES.conversationTimestamp);
+      const request = index.getAll(IDBKeyRange.bound([conversationId, since], [conversationId, until]));
 
-      request.onsuccess = () => resolve();
+      request.onsuccess = () => resolve(request.result || []);
       request.onerror = () => reject(request.error);
     });
   }
 
   /**
-   * 既存のメッセージの内容（content）を更新します。
-   * (ユーザーメッセージの編集・やり直し機能で使用)
-   * @param {string} messageId - 更新するメッセージのID
-   * @param {string} newContent - 新しいメッセージ内容
-   * @returns {Promise<void>}
+   * 全会話のメッセージを全文検索します。(n-gram インデックス: lib/search-index.ts)
+   * @param {string} query - 検索語 (空白区切りで複数指定した場合は、すべてを含むメッセージを検索する)
+   * @param {number} [limit=50] - 取得する最大件数
+   * @returns {Promise<Message[]>} 検索語を含むメッセージ (新しい順)
    */
-  async updateMessageContent(messageId: string, newContent: string): Promise<void> {
+  async searchMessages(query: string, limit = 50): Promise<Message[]> {
+    const tokens = getQueryTokens(query);
+    if (tokens.length === 0) return [];
+
     if (!this.db) await this.init();
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(["messages"], "readwrite");
-      const store = transaction.objectStore("messages");
-      // 1. まずメッセージを取得
-      const request = store.get(messageId);
+      const transaction = this.db!.transaction(["searchIndex", "messages"], "readonly");
+      const tokenIndex = transaction.objectStore("searchIndex").index(SEARCH_INDEXES.tokens);
+      const messagesStore = transaction.objectStore("messages");
+      const hits: Message[] = [];
+
+      // 1. トークンごとに、そのトークンを含むメッセージのIDを取得
+      const messageIdsByToken: Set<IDBValidKey>[] = [];
+      for (const token of tokens) {
+        const request = tokenIndex.getAllKeys(IDBKeyRange.only(token));
+        request.onsuccess = () => {
+          messageIdsByToken.push(new Set(request.result));
+          if (messageIdsByToken.length < tokens.length) return;
+
+          // 2. すべてのトークンを含むメッセージを取得し、本文に検索語が含まれるかを確認
+          const [first, ...rest] = messageIdsByToken;
+          for (const messageId of first) {
+            if (!rest.every((ids) => ids.has(messageId))) continue;
+            const messageRequest = messagesStore.get(messageId);
+            messageRequest.onsuccess = () => {
+              const message = messageRequest.result as Message | undefined;
+              if (message && matchesQuery(message.content, query)) hits.push(message);
+            };
+          }
+        };
+      }
 
-      request.onsuccess = () => {
-        const message = request.result;
-        if (message) {
-          // 2. 内容を更新して書き戻す
-          message.content = newContent;
-          store.put(message).onsuccess = () => resolve();
-        } else {
-          reject(new Error("Message not found"));
-        }
-      };
-      request.onerror = () => reject(request.error);
+      transaction.oncomplete = () => resolve(hits.sort((a, b) => b.timestamp - a.timestamp).slice(0, limit));
+      transaction.onerror = () => reject(transaction.error);
     });
   }
 
   /**
-   * 特定のメッセージID以降のメッセージ（そのIDを含む）を
-   * 同じ会話IDからすべて削除します。
-   * (メッセージの再生成や編集・やり直し機能で使用)
-   * @param {string} messageId - 削除を開始するメッセージのID
-   * @param {string} conversationId - 対象の会話ID
+   * 新しいメッセージをDBに追加します。
+   * 会話内の通し番号 (`sequence`) は、同じトランザクション内で既存の最大値の次の番号を割り当てます。
+   * @param {Message} message - 追加するメッセージオブジェクト
    * @returns {Promise<void>}
    */
-  async deleteMessagesAfter(messageId: string, conversationId: string): Promise<void> {
-    if (!this.db) await this.init();
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(["messages"], "readwrite");
-      const store = transaction.objectStore("messages");
-      const index = store.index("conversationId");
-
-      let foundStart = false;
-      // 会話IDでカーソルを開く
-      const request = index.openCursor(IDBKeyRange.only(conversationId));
-
-      request.onsuccess = (event) => {
-        const cursor = (event.target as IDBRequest).result;
-        if (cursor) {
-          // messageIdは 'msg_${Date.now()}' 形式のため、時系列ソートが可能
-          // 削除開始IDと一致したら、それ以降（含む）を削除
-          if (cursor.primaryKey === messageId) {
-            foundStart = true;
-          }
-
-          if (foundStart) {
-            store.delete(cursor.primaryKey);
-          }
-          cursor.continue();
-        }
-      };
-
-      transaction.oncomplete = () => resolve();
-      transaction.onerror = () => reject(transaction.error);
-    });
+  async addMessage(message: Message): Promise<void> {
+    return this.runInTransaction((work) => work.addMessage(message));
   }
 
   /**
-   * 特定の会話IDのメッセージをすべて削除し、新しいメッセージ配列で置き換えます。
-   * (サーバー側での履歴要約（圧縮）の同期で使用)
-   * @param {string} conversationId - 対象の会話ID
-   * @param {Message[]} newMessages - 新しく置き換えるメッセージの配列
+   * 既存のメッセージを丸ごと上書き保存します。
+   * (統合の再試行や最終回答の切り替えなど、内容以外の情報も更新する場合に使用)
+   * 通し番号は保存済みのものを引き継ぎます。
+   * @param {Message} message - 更新後のメッセージオブジェクト
    * @returns {Promise<void>}
    */
-  async replaceHistory(conversationId: string, newMessages: Message[]): Promise<void> {
+  async updateMessage(message: Message): Promise<void> {
+    return this.runInTransaction((work) => work.updateMessage(message));
+  }
+
+  // #endregion
+
+  // #region History Import API
+  /**
+   * 保存済みの全メッセージのIDと、その会話IDの対応を取得します。(インポート時のIDの重複の判定に使用)
+   * @returns {Promise<Map<string, string>>} メッセージID → 会話ID
+   */
+  async getMessageOwners(): Promise<Map<string, string>> {
     if (!this.db) await this.init();
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(["messages"], "readwrite");
-      const store = transaction.objectStore("messages");
-      const index = store.index("conversationId");
-
-      let addMessagesPromise: Promise<void> | null = null;
+      const transaction = this.db!.transaction(["messages"], "readonly");
+      const index = transaction.objectStore("messages").index(MESSAGE_INDEXES.conversationId);
+      const owners = new Map<string, string>();
+      const request = index.openKeyCursor();
 
-      // 1. 古いメッセージを全削除
-      const request = index.openCursor(IDBKeyRange.only(conversationId));
-      request.onsuccess = (event) => {
-        const cursor = (event.target as IDBRequest).result;
-        if (cursor) {
-          store.delete(cursor.primaryKey);
-          cursor.continue();
-        } else {
-          // 2. 削除完了後、新しいメッセージを追加
-          try {
-            for (const msg of newMessages) {
-              store.add({ ...msg, conversationId }); // 会話IDを強制
-            }
-            addMessagesPromise = Promise.resolve();
-          } catch (e) {
-            addMessagesPromise = Promise.reject(e);
-          }
-        }
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve(owners);
+        owners.set(cursor.primaryKey as string, cursor.key as string);
+        cursor.continue();
       };
+      request.onerror = () => reject(request.error);
+    });
+  }
 
-      transaction.oncomplete = () => {
-        if (addMessagesPromise) {
-          addMessagesPromise.then(resolve).catch(reject);
-        } else {
-          resolve(); // メッセージが0件だった場合など
+  /**
+   * インポートする会話とメッセージ (lib/history-import.ts の `planImport` の結果) を書き込みます。
+   * 会話は `IMPORT_BATCH_SIZE` 件ずつ1つのトランザクションにまとめて書き込み、1件の会話が途中まで書き込まれることはありません。
+   * @param {ImportPlanItem[]} items - 書き込む会話
+   * @param {(completed: number, total: number) => void} [onProgress] - バッチの書き込みが完了するたびに呼ばれる (完了した会話の数)
+   * @returns {Promise<void>}
+   */
+  async importHistory(items: ImportPlanItem[], onProgress?: (completed: number, total: number) => void): Promise<void> {
+    for (let start = 0; start < items.length; start += IMPORT_BATCH_SIZE) {
+      const batch = items.slice(start, start + IMPORT_BATCH_SIZE);
+      await this.runInTransaction((work) => {
+        for (const { action, conversation, messages } of batch) {
+          if (action === "overwrite") work.deleteConversation(conversation.id);
+          if (action !== "merge") work.addConversation(conversation);
+          // 通し番号は書き込み時に振り直される (ファイルの順を維持し、統合時は既存のメッセージの後ろに続ける)
+          messages.forEach((message) => work.addMessage(message));
         }
-      };
-      transaction.onerror = () => reject(transaction.error);
-    });
+      });
+      onProgress?.(start + batch.length, items.length);
+    }
   }
+
   // #endregion
 
   // #region Settings API (Model & App)
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import type { Conversation, Message } from "./db";
+import {
+  findConflicts,
+  parseHistoryExport,
+  planImport,
+  summarizeImport,
+  type ConflictResolution,
+  type ExistingHistory,
+  type HistoryEntry,
+} from "./history-import";
+import { buildActivePath } from "./message-tree";
+
+const conversation = (id: string): Conversation => ({ id, title: id, createdAt: 1, updatedAt: 1 });
+
+const message = (id: string, conversationId: string, parentId?: string): Message => ({
+  id,
+  role: "user",
+  content: id,
+  timestamp: 1,
+  conversationId,
+  parentId,
+});
+
+const entry = (id: string, messageIds: string[]): HistoryEntry => ({
+  conversation: conversation(id),
+  messages: messageIds.map((messageId, index) => message(messageId, id, messageIds[index - 1])),
+});
+
+/**
+ * 書き込む内容を [action, 会話ID, メッセージID...] の形にします。
+ */
+const summarize = (entries: HistoryEntry[], existing: ExistingHistory, resolution: ConflictResolution) => {
+  const plan = planImport(entries, existing, resolution);
+  return {
+    items: plan.items.map((item) => [item.action, item.conversation.id, ...item.messages.map((m) => m.id)]),
+    skipped: plan.skipped,
+  };
+};
+
+describe("parseHistoryExport", () => {
+  it("エクスポートした形式のファイルを読み込む", () => {
+    const entries = [entry("conv_1", ["msg_1", "msg_2"])];
+    expect(parseHistoryExport(JSON.stringify(entries))).toEqual(entries);
+  });
+
+  it("分岐の導入前にエクスポートしたファイルは、メッセージをツリーにつないで会話全体を表示できるようにする", () => {
+    const legacy = (id: string, role: Message["role"], timestamp: number): Message => ({
+      id,
+      role,
+      content: id,
+      timestamp,
+      conversationId: "conv_1",
+    });
+    const file = [
+      {
+        conversation: conversation("conv_1"),
+        messages: [
+          legacy("msg_1", "user", 1),
+          legacy("msg_2", "assistant", 2),
+          legacy("msg_3", "user", 3),
+          legacy("msg_4", "assistant", 4),
+          // 旧形式の要約は、要約した時刻で保存されているが会話の先頭に置かれる
+          legacy("msg_summary_5", "system", 5),
+        ],
+      },
+    ];
+    const [{ messages }] = parseHistoryExport(JSON.stringify(file));
+    expect(messages.map((m) => m.id)).toEqual(["msg_summary_5", "msg_1", "msg_2", "msg_3", "msg_4"]);
+    expect(buildActivePath(messages, {}).map((m) => m.id)).toEqual([
+      "msg_summary_5",
+      "msg_1",
+      "msg_2",
+      "msg_3",
+      "msg_4",
+    ]);
+  });
+
+  it("JSONでないファイルや形式が不正なファイルは、理由を示すエラーにする", () => {
+    expect(() => parseHistoryExport("{")).toThrow("JSONファイルとして読み込めません");
+    expect(() => parseHistoryExport(JSON.stringify([{ conversation: { id: "conv_1" }, messages: [] }]))).toThrow(
+      "ファイルの形式が不正です: [0].conversation.title",
+    );
+  });
+
+  it("ファイル内でIDが重複している場合や、メッセージの会話IDが一致しない場合はエラーにする", () => {
+    expect(() => parseHistoryExport(JSON.stringify([entry("conv_1", []), entry("conv_1", [])]))).toThrow(
+      "会話のIDが重複しています",
+    );
+    expect(() => parseHistoryExport(JSON.stringify([entry("conv_1", ["msg_1"]), entry("conv_2", ["msg_1"])]))).toThrow(
+      "メッセージのIDが重複しています",
+    );
+    const mismatched = { conversation: conversation("conv_1"), messages: [message("msg_1", "conv_2")] };
+    expect(() => parseHistoryExport(JSON.stringify([mismatched]))).toThrow("会話IDが、含まれている会話と一致しません");
+  });
+});
+
+describe("planImport", () => {
+  const existing: ExistingHistory = {
+    conversationIds: new Set(["conv_1"]),
+    messageOwners: new Map([
+      ["msg_1", "conv_1"],
+      ["msg_2", "conv_1"],
+    ]),
+  };
+  const entries = [entry("conv_1", ["msg_1", "msg_2", "msg_3"]), entry("conv_2", ["msg_4"])];
+
+  it("保存済みの会話とIDが重複する会話を求める", () => {
+    expect(findConflicts(entries, existing).map((c) => c.id)).toEqual(["conv_1"]);
+  });
+
+  it("統合では、保存済みの会話にないメッセージのみを追加する", () => {
+    expect(summarize(entries, existing, "merge")).toEqual({
+      items: [
+        ["merge", "conv_1", "msg_3"],
+        ["create", "conv_2", "msg_4"],
+      ],
+      skipped: 0,
+    });
+  });
+
+  it("スキップでは重複する会話を書き込まず、上書きでは全メッセージを書き込む", () => {
+    expect(summarize(entries, existing, "skip")).toEqual({ items: [["create", "conv_2", "msg_4"]], skipped: 1 });
+    expect(summarize(entries, existing, "overwrite").items).toEqual([
+      ["overwrite", "conv_1", "msg_1", "msg_2", "msg_3"],
+      ["create", "conv_2", "msg_4"],
+    ]);
+    expect(summarizeImport(planImport(entries, existing, "overwrite"))).toEqual({
+      created: 1,
+      merged: 0,
+      overwritten: 1,
+      skipped: 0,
+      messages: 4,
+    });
+  });
+
+  it("別の会話のメッセージとIDが重複する場合は、新しいIDに付け替えて親子関係を維持する", () => {
+    const [item] = planImport([entry("conv_2", ["msg_1", "msg_5"])], existing, "merge").items;
+    const [first, second] = item.messages;
+    expect(first.id).not.toBe("msg_1");
+    expect(first.id.startsWith("msg_")).toBe(true);
+    expect(second).toMatchObject({ id: "msg_5", parentId: first.id });
+  });
+});
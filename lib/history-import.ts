@@ -0,0 +1,246 @@
+// 会話履歴のJSON (設定画面の「履歴をエクスポート」で書き出したファイル) のインポート
+// ファイルを検証し、既存の会話とIDが重複する場合の扱い (統合 / スキップ / 上書き) に従って書き込む内容を決めます。
+// (DBへの書き込みは `db.importHistory` が行います)
+
+import { z } from "zod";
+import { messageSchema, summarizationPolicySchema, toChatErrorResponse, type Message } from "./chat-contract";
+import type { Conversation } from "./db";
+import { migrateMessages } from "./db-migrations";
+import { createId } from "./ids";
+
+/**
+ * 既存の会話とIDが重複した場合の扱い
+ * - merge: 既存の会話の設定を維持し、まだ保存されていないメッセージのみを追加する
+ * - skip: インポートしない
+ * - overwrite: 既存の会話とメッセージを削除し、ファイルの内容に置き換える
+ */
+export type ConflictResolution = "merge" | "skip" | "overwrite";
+
+/**
+ * 分岐 (`parentId`) の導入前のDBバージョン
+ * このバージョンのアプリでエクスポートしたファイルのメッセージには、DBのマイグレーションと同じ変換を適用します。
+ */
+const LEGACY_EXPORT_DB_VERSION = 1;
+
+/**
+ * 会話メタデータのスキーマ (lib/db.ts の `Conversation`)
+ */
+const conversationSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  systemPrompt: z.string().optional(),
+  summarization: summarizationPolicySchema.optional(),
+  forkedFrom: z.object({ conversationId: z.string(), messageId: z.string() }).optional(),
+}) satisfies z.ZodType<Conversation>;
+
+/**
+ * エクスポートファイルのスキーマ (会話と、その全メッセージの配列)
+ */
+const historyExportSchema = z.array(
+  z.object({
+    conversation: conversationSchema,
+    messages: z.array(messageSchema),
+  }),
+);
+
+/**
+ * エクスポートファイルの1件 (会話とその全メッセージ)
+ */
+export type HistoryEntry = z.infer<typeof historyExportSchema>[number];
+
+/**
+ * インポートで書き込む会話
+ */
+export interface ImportPlanItem {
+  /** 新規作成 / 既存の会話への統合 / 既存の会話の置き換え */
+  action: "create" | "merge" | "overwrite";
+  conversation: Conversation;
+  /** 追加するメッセージ (ファイルの順) */
+  messages: Message[];
+}
+
+/**
+ * インポートの内容 (`planImport` の結果)
+ */
+export interface ImportPlan {
+  items: ImportPlanItem[];
+  /** IDの重複によりインポートしない会話の数 */
+  skipped: number;
+}
+
+/**
+ * 保存済みの履歴のうち、IDの重複の判定に必要な情報
+ */
+export interface ExistingHistory {
+  /** 保存済みの会話のID */
+  conversationIds: Set<string>;
+  /** 保存済みのメッセージID → そのメッセージの会話ID */
+  messageOwners: Map<string, string>;
+}
+
+/**
+ * エクスポートファイルの内容を検証し、会話とメッセージを取り出します。
+ * @param {string} text - ファイルの内容 (JSON)
+ * @returns {HistoryEntry[]} 会話とメッセージ
+ * @throws {Error} JSONとして読み込めない場合、形式が不正な場合、ファイル内でIDが重複している場合
+ */
+export function parseHistoryExport(text: string): HistoryEntry[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error("JSONファイルとして読み込めません");
+  }
+
+  const result = historyExportSchema.safeParse(json);
+  if (!result.success) {
+    const [issue] = toChatErrorResponse(result.error).issues ?? [];
+    throw new Error(`ファイルの形式が不正です: ${issue?.field} - ${issue?.message}`);
+  }
+
+  const conversationIds = new Set<string>();
+  const messageIds = new Set<string>();
+  for (const { conversation, messages } of result.data) {
+    if (conversationIds.has(conversation.id)) {
+      throw new Error(`会話のIDが重複しています: ${conversation.id}`);
+    }
+    conversationIds.add(conversation.id);
+    for (const message of messages) {
+      if (message.conversationId !== conversation.id) {
+        throw new Error(`メッセージ ${message.id} の会話IDが、含まれている会話と一致しません`);
+      }
+      if (messageIds.has(message.id)) {
+        throw new Error(`メッセージのIDが重複しています: ${message.id}`);
+      }
+      messageIds.add(message.id);
+    }
+  }
+  return result.data.map(upgradeLegacyEntry);
+}
+
+/**
+ * 旧形式のファイルの会話を、現在の形式に変換します。
+ * 旧形式ではメッセージが一列に並んでおり (`parentId` がない)、要約は 'msg_summary_' 形式のIDで会話の先頭に置かれていたため、
+ * そのまま保存すると全メッセージがルートの兄弟として扱われてしまいます。
+ * @param {HistoryEntry} entry - ファイルの会話
+ * @returns {HistoryEntry} メッセージをツリーにつなぎ、表示順に並べた会話 (旧形式でない場合はそのまま)
+ */
+function upgradeLegacyEntry(entry: HistoryEntry): HistoryEntry {
+  if (entry.messages.some((m) => m.parentId)) return entry;
+  const migrated = new Map(entry.messages.map((m) => [m.id, m]));
+  for (const message of migrateMessages(entry.messages, LEGACY_EXPORT_DB_VERSION)) {
+    migrated.set(message.id, message);
+  }
+  // 書き込み時の通し番号はファイルの順で振り直されるため、変換で割り当てた表示順に並べる
+  return {
+    ...entry,
+    messages: [...migrated.values()].sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0)),
+  };
+}
+
+/**
+ * 保存済みの会話とIDが重複する会話を求めます。
+ * @param {HistoryEntry[]} entries - インポートする会話
+ * @param {ExistingHistory} existing - 保存済みの履歴
+ * @returns {Conversation[]} IDが重複する会話 (ファイルの内容)
+ */
+export function findConflicts(entries: HistoryEntry[], existing: ExistingHistory): Conversation[] {
+  return entries.filter((entry) => existing.conversationIds.has(entry.conversation.id)).map((e) => e.conversation);
+}
+
+/**
+ * 別の会話のメッセージとIDが重複するメッセージに、新しいIDを割り当てます。
+ * 分岐の親子関係と、要約が置き換えたメッセージのIDも新しいIDに付け替えます。
+ * @param {Message[]} messages - 会話のメッセージ
+ * @param {(message: Message) => boolean} isTaken - IDが使用済みか
+ * @returns {Message[]} IDを付け替えたメッセージ
+ */
+function reassignTakenIds(messages: Message[], isTaken: (message: Message) => boolean): Message[] {
+  const newIds = new Map(messages.filter(isTaken).map((m) => [m.id, createId("msg")]));
+  if (newIds.size === 0) return messages;
+  const remap = (id: string) => newIds.get(id) ?? id;
+  return messages.map((m) => ({
+    ...m,
+    id: remap(m.id),
+    parentId: m.parentId && remap(m.parentId),
+    summarizedMessageIds: m.summarizedMessageIds?.map(remap),
+  }));
+}
+
+/**
+ * インポートする会話ごとに、書き込む内容を決めます。
+ * @param {HistoryEntry[]} entries - インポートする会話 (`parseHistoryExport` の結果)
+ * @param {ExistingHistory} existing - 保存済みの履歴
+ * @param {ConflictResolution} resolution - 保存済みの会話とIDが重複した場合の扱い
+ * @returns {ImportPlan} 書き込む内容
+ */
+export function planImport(
+  entries: HistoryEntry[],
+  existing: ExistingHistory,
+  resolution: ConflictResolution,
+): ImportPlan {
+  const plan: ImportPlan = { items: [], skipped: 0 };
+  for (const { conversation, messages } of entries) {
+    const owner = (message: Message) => existing.messageOwners.get(message.id);
+
+    if (!existing.conversationIds.has(conversation.id)) {
+      plan.items.push({
+        action: "create",
+        conversation,
+        messages: reassignTakenIds(messages, (m) => owner(m) !== undefined),
+      });
+    } else if (resolution === "skip") {
+      plan.skipped++;
+    } else if (resolution === "overwrite") {
+      // 置き換える会話のメッセージは削除されるため、そのIDはそのまま使える
+      plan.items.push({
+        action: "overwrite",
+        conversation,
+        messages: reassignTakenIds(messages, (m) => owner(m) !== undefined && owner(m) !== conversation.id),
+      });
+    } else {
+      // 既にこの会話に保存されているメッセージは追加しない
+      const missing = messages.filter((m) => owner(m) !== conversation.id);
+      plan.items.push({
+        action: "merge",
+        conversation,
+        messages: reassignTakenIds(missing, (m) => owner(m) !== undefined),
+      });
+    }
+  }
+  return plan;
+}
+
+/**
+ * インポートの結果の集計
+ */
+export interface ImportSummary {
+  /** 新規作成した会話の数 */
+  created: number;
+  /** 既存の会話に統合した会話の数 */
+  merged: number;
+  /** 既存の会話を置き換えた会話の数 */
+  overwritten: number;
+  /** インポートしなかった会話の数 */
+  skipped: number;
+  /** 書き込んだメッセージの数 */
+  messages: number;
+}
+
+/**
+ * インポートの内容を、結果の表示用に集計します。
+ * @param {ImportPlan} plan - 書き込んだ内容
+ * @returns {ImportSummary} 集計結果
+ */
+export function summarizeImport(plan: ImportPlan): ImportSummary {
+  const count = (action: ImportPlanItem["action"]) => plan.items.filter((item) => item.action === action).length;
+  return {
+    created: count("create"),
+    merged: count("merge"),
+    overwritten: count("overwrite"),
+    skipped: plan.skipped,
+    messages: plan.items.reduce((total, item) => total + item.messages.length, 0),
+  };
+}
@@ -0,0 +1,17 @@
+// DBに保存するレコードのID
+// 複数のタブや短時間の連続操作でも衝突しないよう、ランダムなUUIDから作成します。
+// (以前は 'msg_${Date.now()}' 形式だったため、既存のデータには時刻のIDも残っています)
+
+/**
+ * IDの種類を表す接頭辞 (会話 / メッセージ / 推論モデル設定)
+ */
+export type IdPrefix = "conv" | "msg" | "model";
+
+/**
+ * 新しいIDを作成します。
+ * @param {IdPrefix} prefix - IDの種類
+ * @returns {string} '${prefix}_${UUID}' 形式のID
+ */
+export function createId(prefix: IdPrefix): string {
+  return `${prefix}_${crypto.randomUUID()}`;
+}
@@ -0,0 +1,242 @@
+// 複数の推論モデルの応答から最終回答を作成する「統合戦略」の定義
+// 各戦略は、統合モデルへのプロンプトの構築と、その出力の解釈を担当します。
+
+import type { CoreMessage } from "ai";
+import type { IntegrationInfo, IntegratorModelConfig, ModelResponse } from "./chat-contract";
+import type { IntegrationStrategyId } from "./constants";
+
+// #region 型定義
+
+/**
+ * 統合戦略による最終的な結果
+ */
+export interface IntegrationOutcome {
+  /** 最終回答 */
+  content: string;
+  /** 統合の実行内容 (メッセージに保存される) */
+  integration: IntegrationInfo;
+}
+
+/**
+ * 統合戦略のインターフェース
+ */
+export interface IntegrationStrategy {
+  id: IntegrationStrategyId;
+  /** 統合モデルの呼び出しが必要か (false の場合 `buildPrompt` は使用されず、`resolve` には null が渡される) */
+  usesIntegrator: boolean;
+  /**
+   * 統合モデルに渡すメッセージを構築します。
+   * @param {CoreMessage[]} history - 完全な会話履歴（要約済みの場合あり。最後はユーザーの質問）
+   * @param {ModelResponse[]} responses - 並行推論モデルからの応答配列
+   * @param {IntegratorModelConfig} config - 統合モデルの設定
+   * @returns {CoreMessage[]} 統合モデルに渡すメッセージ
+   */
+  buildPrompt(history: CoreMessage[], responses: ModelResponse[], config: IntegratorModelConfig): CoreMessage[];
+  /**
+   * 統合モデルの出力を解釈し、最終回答を作成します。
+   * @param {string | null} output - 統合モデルの出力 (`usesIntegrator` が false の場合は null)
+   * @param {ModelResponse[]} responses - 並行推論モデルからの応答配列
+   * @param {IntegratorModelConfig} config - 統合モデルの設定
+   * @returns {IntegrationOutcome} 最終回答と統合の実行内容
+   */
+  resolve(output: string | null, responses: ModelResponse[], config: IntegratorModelConfig): IntegrationOutcome;
+}
+// #endregion
+
+// #region プロンプト・出力解釈の共通処理
+
+/**
+ * 会話履歴の末尾に、各モデルの応答一覧と戦略ごとの指示を加えたプロンプトを構築します。
+ * @param {CoreMessage[]} history - 完全な会話履歴（最後はユーザーの質問）
+ * @param {ModelResponse[]} responses - 並行推論モデルからの応答配列
+ * @param {string} instruction - 戦略ごとの指示
+ * @returns {CoreMessage[]} 統合モデルに渡すメッセージ
+ */
+function buildResponsesPrompt(history: CoreMessage[], responses: ModelResponse[], instruction: string): CoreMessage[] {
+  // 最新のユーザーメッセージ（質問）とそれ以前の履歴を分離
+  const lastUserMessage = history.at(-1);
+  const historyWithoutLast = history.slice(0, -1);
+
+  return [
+    ...historyWithoutLast,
+    {
+      role: "user",
+      content: `（会話履歴はここまで）\n\n上記の会話の最後の質問（"${
+        lastUserMessage?.content.slice(0, 50) || ""
+      }..."）に対して、複数のAIモデルが以下のように応答しました。\n\n${responses
+        .map((r, i) => `[モデル${i + 1}: ${r.model}]\n${r.content}`)
+        .join("\n\n")}\n\n--- 統合指示 ---\n${instruction}`,
+    },
+  ];
+}
+
+/**
+ * 出力中の「ラベル: 1,2,3」形式の行を探し、応答のインデックス (0始まり) の配列として取り出します。
+ * 該当する行が複数ある場合は最後の行を使用します。
+ * @param {string} output - 統合モデルの出力
+ * @param {string} label - 行のラベル (例: "選択")
+ * @param {number} responseCount - 応答の数 (範囲外の番号は無視する)
+ * @returns {{ indices: number[]; rest: string } | null} インデックスと、該当行を除いた出力。見つからない場合は null
+ */
+function extractIndexLine(
+  output: string,
+  label: string,
+  responseCount: number,
+): { indices: number[]; rest: string } | null {
+  // (例: "選択: 2", "**順位: 3, 1, 2**", "- 多数派：1、3")
+  const pattern = new RegExp(`^[ \\t*#>-]*${label}[ \\t]*[:：][ \\t]*([\\d \\t,、]+?)[ \\t*]*$`, "gm");
+  const matches = [...output.matchAll(pattern)];
+  const last = matches.at(-1);
+  if (!last) return null;
+
+  const indices = [
+    ...new Set(
+      last[1]
+        .split(/[ \t,、]+/)
+        .filter((n) => n !== "")
+        .map((n) => Number.parseInt(n, 10) - 1)
+        .filter((i) => i >= 0 && i < responseCount),
+    ),
+  ];
+  if (indices.length === 0) return null;
+
+  const rest = (output.slice(0, last.index) + output.slice(last.index! + last[0].length)).trim();
+  return { indices, rest };
+}
+// #endregion
+
+// #region 各戦略の実装
+
+/**
+ * 統合 (Synthesize): すべての応答をレビューし、単一の最終回答を新たに生成する
+ */
+const synthesizeStrategy: IntegrationStrategy = {
+  id: "synthesize",
+  usesIntegrator: true,
+  buildPrompt: (history, responses) =>
+    buildResponsesPrompt(
+      history,
+      responses,
+      "これらの応答をすべてレビューし、会話履歴の文脈を踏まえた上で、最も適切で包括的な「最終回答」を単一の回答として生成してください。レビューはあなた自身の思考として内部処理し、最終的な回答をあなた自身の言葉として出力してください。",
+    ),
+  resolve: (output) => ({ content: output ?? "", integration: { strategy: "synthesize" } }),
+};
+
+/**
+ * 審査 (Judge and pick best): 最も優れた応答を1つ選び、その応答をそのまま最終回答とする
+ */
+const judgeStrategy: IntegrationStrategy = {
+  id: "judge",
+  usesIntegrator: true,
+  buildPrompt: (history, responses) =>
+    buildResponsesPrompt(
+      history,
+      responses,
+      `これらの応答を、会話履歴の文脈を踏まえて、正確性・有用性・分かりやすさの観点から比較し、最も優れた応答を1つ選んでください。まず選定理由を簡潔に述べ、最後の行に「選択: 番号」の形式で、選んだモデルの番号（1〜${responses.length}）のみを出力してください。`,
+    ),
+  resolve: (output, responses) => {
+    const parsed = output ? extractIndexLine(output, "選択", responses.length) : null;
+    if (!parsed) {
+      // 番号を読み取れない場合は、先頭の応答を採用する
+      console.warn("[Integrator] 審査結果から選択された番号を読み取れませんでした。先頭の応答を採用します。");
+      return {
+        content: responses[0].content,
+        integration: { strategy: "judge", selectedIndices: [0], rationale: output ?? undefined },
+      };
+    }
+    const selected = parsed.indices[0];
+    return {
+      content: responses[selected].content,
+      integration: { strategy: "judge", selectedIndices: [selected], rationale: parsed.rest },
+    };
+  },
+};
+
+/**
+ * 順位付け＋上位統合 (Rank and merge top-k): 応答を順位付けし、上位k件の応答のみを基に最終回答を生成する
+ */
+const rankMergeStrategy: IntegrationStrategy = {
+  id: "rank-merge",
+  usesIntegrator: true,
+  buildPrompt: (history, responses, config) => {
+    const topK = Math.min(config.topK, responses.length);
+    return buildResponsesPrompt(
+      history,
+      responses,
+      `これらの応答を、会話履歴の文脈を踏まえて品質の高い順に順位付けしてください。1行目に「順位: 番号,番号,...」の形式で、すべてのモデルの番号を順位の高い順に出力してください。2行目以降には、上位${topK}件の応答のみを基に、最も適切で包括的な「最終回答」を単一の回答として生成してください。それ以外の応答の内容は使用しないでください。`,
+    );
+  },
+  resolve: (output, responses) => {
+    const parsed = output ? extractIndexLine(output, "順位", responses.length) : null;
+    if (!parsed) {
+      console.warn("[Integrator] 順位付けの結果を読み取れませんでした。出力全体を最終回答とします。");
+      return { content: output ?? "", integration: { strategy: "rank-merge" } };
+    }
+    return { content: parsed.rest, integration: { strategy: "rank-merge", ranking: parsed.indices } };
+  },
+};
+
+/**
+ * 多数決 (Majority vote): 意味が同じ応答をまとめ、最も多くのモデルが支持する答えを最終回答とする
+ */
+const majorityVoteStrategy: IntegrationStrategy = {
+  id: "majority-vote",
+  usesIntegrator: true,
+  buildPrompt: (history, responses) =>
+    buildResponsesPrompt(
+      history,
+      responses,
+      `これらの応答を、答えの意味が同じもの同士でグループに分けてください（表現の違いは無視してください）。各グループの答えと支持したモデルの番号を簡潔に述べ、最後の行に「多数派: 番号,番号,...」の形式で、最も多くのモデルが支持したグループに属するモデルの番号（1〜${responses.length}）を出力してください。同数の場合は、より正確と考えられるグループを選んでください。`,
+    ),
+  resolve: (output, responses) => {
+    const parsed = output ? extractIndexLine(output, "多数派", responses.length) : null;
+    if (!parsed) {
+      console.warn("[Integrator] 多数決の結果を読み取れませんでした。先頭の応答を採用します。");
+      return {
+        content: responses[0].content,
+        integration: { strategy: "majority-vote", selectedIndices: [0], rationale: output ?? undefined },
+      };
+    }
+    // 多数派の中で最も番号の小さい応答を代表として採用する
+    const representative = Math.min(...parsed.indices);
+    return {
+      content: responses[representative].content,
+      integration: { strategy: "majority-vote", selectedIndices: parsed.indices, rationale: parsed.rest },
+    };
+  },
+};
+
+/**
+ * 統合しない (Pass-through): 統合モデルを呼び出さず、すべての応答を並べる
+ * (最終回答には、以降の会話の文脈として使用できるよう、全応答を見出し付きで連結したものを保存する)
+ */
+const passThroughStrategy: IntegrationStrategy = {
+  id: "pass-through",
+  usesIntegrator: false,
+  buildPrompt: () => [],
+  resolve: (_output, responses) => ({
+    content: responses.map((r) => `### ${r.model}\n\n${r.content}`).join("\n\n---\n\n"),
+    integration: { strategy: "pass-through" },
+  }),
+};
+// #endregion
+
+/**
+ * 登録済みの統合戦略
+ */
+const STRATEGIES: Record<IntegrationStrategyId, IntegrationStrategy> = {
+  synthesize: synthesizeStrategy,
+  judge: judgeStrategy,
+  "rank-merge": rankMergeStrategy,
+  "majority-vote": majorityVoteStrategy,
+  "pass-through": passThroughStrategy,
+};
+
+/**
+ * 指定されたIDの統合戦略を取得します。
+ * @param {IntegrationStrategyId} id - 統合戦略のID
+ * @returns {IntegrationStrategy} 統合戦略
+ */
+export function getIntegrationStrategy(id: IntegrationStrategyId): IntegrationStrategy {
+  return STRATEGIES[id];
+}
@@ -0,0 +1,198 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ApiKeyPool } from "./api-key-pool";
+import type { LlmModelConfig } from "./chat-contract";
+import { callLlmApi, callWithKeyRotation, classifyError, LlmApiError, type LlmCallResult } from "./llm-call";
+
+// リトライのバックオフを待たずにテストする
+vi.mock("./retry", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./retry")>()),
+  computeBackoffDelay: () => 0,
+}));
+
+const model: LlmModelConfig = { provider: "cerebras", modelName: "test-model", temperature: 0.7, maxTokens: 1000 };
+
+/**
+ * 成功した呼び出しの結果を作成します。
+ */
+function ok(text: string): LlmCallResult {
+  return { text, metrics: { latencyMs: 1 } };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  process.env.MOCK_LLM_LATENCY_MS = "0";
+  process.env.MOCK_LLM_CHUNK_DELAY_MS = "0";
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  delete process.env.MOCK_LLM_LATENCY_MS;
+  delete process.env.MOCK_LLM_CHUNK_DELAY_MS;
+  delete process.env.MOCK_REVOKED_KEYS;
+});
+
+describe("classifyError", () => {
+  it.each([
+    [401, { isPermanent: true, removeKey: true, removeModel: false }],
+    [403, { isPermanent: true, removeKey: true, removeModel: false }],
+    [404, { isPermanent: true, removeKey: false, removeModel: true }],
+    [400, { isPermanent: true, removeKey: false, removeModel: true }],
+    [429, { isPermanent: false, removeKey: false, removeModel: false }],
+    [500, { isPermanent: false, removeKey: false, removeModel: false }],
+    [503, { isPermanent: false, removeKey: false, removeModel: false }],
+  ])("HTTP %i を分類する", (status, expected) => {
+    expect(classifyError(new LlmApiError("error", status, "key"))).toEqual(expected);
+  });
+});
+
+describe("callWithKeyRotation", () => {
+  it("失敗したら別のキーでリトライし、成功した試行の計測結果を返す", async () => {
+    const pool = new ApiKeyPool("cerebras", ["key-aaaa", "key-bbbb"]);
+    const call = vi
+      .fn<(apiKey: string, attempt: number) => Promise<LlmCallResult>>()
+      .mockRejectedValueOnce(new LlmApiError("server error", 500, "key-aaaa"))
+      .mockResolvedValueOnce(ok("done"));
+
+    const outcome = await callWithKeyRotation(pool, model, call, "Test", new AbortController().signal);
+
+    expect(outcome.ok).toBe(true);
+    if (!outcome.ok) return;
+    expect(outcome.result.text).toBe("done");
+    expect(outcome.metrics.attempts).toBe(2);
+    expect(call.mock.calls.map(([apiKey, attempt]) => [apiKey, attempt])).toEqual([
+      ["key-aaaa", 1],
+      ["key-bbbb", 2],
+    ]);
+  });
+
+  it("キーが無効化されたら、まだ試していないキーの分だけ試行回数の上限を引き上げる", async () => {
+    // 上限は max(キー3件, 3) = 3 回。1回目の一時的エラーで1回分を使っても、残りの有効なキーをすべて試す
+    const pool = new ApiKeyPool("cerebras", ["key-1111", "key-2222", "key-3333"]);
+    const revoked = new Set(["key-2222", "key-3333"]);
+    let calls = 0;
+    const call = vi.fn(async (apiKey: string) => {
+      calls++;
+      if (calls === 1) throw new LlmApiError("server error", 500, apiKey);
+      if (revoked.has(apiKey)) throw new LlmApiError("unauthorized", 401, apiKey);
+      return ok("done");
+    });
+
+    const outcome = await callWithKeyRotation(pool, model, call, "Test", new AbortController().signal);
+
+    expect(outcome.ok).toBe(true);
+    expect(call).toHaveBeenCalledTimes(4);
+    expect(pool.keyCount).toBe(1);
+  });
+
+  it("すべてのキーが無効化されたら、最後のエラーを返して諦める", async () => {
+    const pool = new ApiKeyPool("cerebras", ["key-1111", "key-2222"]);
+    const call = vi.fn(async (apiKey: string): Promise<LlmCallResult> => {
+      throw new LlmApiError("unauthorized", 401, apiKey);
+    });
+
+    const outcome = await callWithKeyRotation(pool, model, call, "Test", new AbortController().signal);
+
+    expect(outcome).toEqual({ ok: false, error: expect.any(LlmApiError) });
+    expect(call).toHaveBeenCalledTimes(2);
+    expect(pool.isExhausted()).toBe(true);
+  });
+
+  it.each([404, 400])("モデル・リクエスト固有の永続的エラー (%i) はリトライせずに諦める", async (status) => {
+    const pool = new ApiKeyPool("cerebras", ["key-1111", "key-2222"]);
+    const call = vi.fn(async (apiKey: string): Promise<LlmCallResult> => {
+      throw new LlmApiError("not found", status, apiKey);
+    });
+
+    const outcome = await callWithKeyRotation(pool, model, call, "Test", new AbortController().signal);
+
+    expect(outcome).toEqual({ ok: false, error: expect.objectContaining({ status }) });
+    expect(call).toHaveBeenCalledTimes(1);
+    // キーは無効化・クールダウンされない
+    expect(pool.keyCount).toBe(2);
+    expect(pool.isExhausted()).toBe(false);
+  });
+
+  it("呼び出し中に中断された場合は、キーの失敗として記録せずに中断のエラーをそのまま投げる", async () => {
+    const pool = new ApiKeyPool("cerebras", ["key-1111", "key-2222"]);
+    const reportFailure = vi.spyOn(pool, "reportFailure");
+    const release = vi.spyOn(pool, "release");
+    const controller = new AbortController();
+    const call = vi.fn(async (apiKey: string): Promise<LlmCallResult> => {
+      controller.abort();
+      throw new LlmApiError("aborted", 500, apiKey);
+    });
+
+    await expect(callWithKeyRotation(pool, model, call, "Test", controller.signal)).rejects.toMatchObject({
+      name: "AbortError",
+    });
+    expect(call).toHaveBeenCalledTimes(1);
+    expect(reportFailure).not.toHaveBeenCalled();
+    expect(release).toHaveBeenCalledWith("key-1111");
+  });
+
+  it("一時的エラーが続く場合は、上限の回数で諦める", async () => {
+    const pool = new ApiKeyPool("cerebras", ["key-1111"]);
+    const call = vi.fn(async (apiKey: string): Promise<LlmCallResult> => {
+      throw new LlmApiError("server error", 503, apiKey);
+    });
+
+    const outcome = await callWithKeyRotation(pool, model, call, "Test", new AbortController().signal);
+
+    expect(outcome.ok).toBe(false);
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it("中断された場合は AbortError をスローする", async () => {
+    const pool = new ApiKeyPool("cerebras", ["key-1111"]);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(callWithKeyRotation(pool, model, vi.fn(), "Test", controller.signal)).rejects.toMatchObject({
+      name: "AbortError",
+    });
+  });
+});
+
+describe("callLlmApi (モックプロバイダー)", () => {
+  const mockModel = (modelName: string): LlmModelConfig => ({ ...model, provider: "mock", modelName });
+
+  it("ストリームの差分を通知し、全文と計測結果を返す", async () => {
+    const deltas: string[] = [];
+    const result = await callLlmApi(
+      "mock-key-1",
+      [{ role: "user", content: "こんにちは" }],
+      mockModel("mock-echo"),
+      (delta) => deltas.push(delta),
+    );
+
+    expect(result.text).toContain("こんにちは");
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.join("")).toBe(result.text);
+    expect(result.metrics.finishReason).toBe("stop");
+  });
+
+  it("HTTPエラーをステータスとヘッダー付きの LlmApiError に変換する", async () => {
+    const error = await callLlmApi("mock-key-1", [{ role: "user", content: "hi" }], mockModel("mock-error-429")).catch(
+      (e) => e,
+    );
+
+    expect(error).toBeInstanceOf(LlmApiError);
+    expect(error.status).toBe(429);
+    expect(error.apiKeyUsed).toBe("mock-key-1");
+    expect(error.responseHeaders).toMatchObject({ "retry-after": "2" });
+  });
+
+  it("無効化されたキーでは 401 になる", async () => {
+    process.env.MOCK_REVOKED_KEYS = "mock-key-1";
+    await expect(
+      callLlmApi("mock-key-1", [{ role: "user", content: "hi" }], mockModel("mock-echo")),
+    ).rejects.toMatchObject({ status: 401 });
+  });
+
+  it("空の応答はリトライ対象の 500 エラーとする", async () => {
+    await expect(
+      callLlmApi("mock-key-1", [{ role: "user", content: "hi" }], mockModel("mock-empty")),
+    ).rejects.toMatchObject({ status: 500, message: "LLMから空の応答が返されました" });
+  });
+});
@@ -0,0 +1,354 @@
+// 単一のLLM呼び出しと、APIキーを切り替えながらのリトライに関する処理
+// (サーバーサイド専用。/api/chat のパイプラインから使用されます)
+
+import { APICallError, streamText, type CoreMessage, type TextStreamPart, type ToolSet } from "ai";
+import type { ApiKeyPool } from "./api-key-pool";
+import type { CallMetrics, LlmModelConfig } from "./chat-contract";
+import { estimatePromptTokens, fitMessagesToBudget, getContextBudget } from "./context-budget";
+import { createLanguageModel, getProviderApiKeysEnv } from "./llm-providers";
+import { computeBackoffDelay, sleep } from "./retry";
+
+// #region 型定義
+
+/**
+ * Vercel AI SDK (streamText) に渡すためのコアメッセージ型
+ */
+export type LlmMessage = CoreMessage;
+
+/**
+ * 単一のLLM呼び出しの結果
+ */
+export interface LlmCallResult {
+  /** LLMからのテキスト応答 */
+  text: string;
+  /** 応答ヘッダー (残りクォータの取得に使用) */
+  responseHeaders?: Record<string, string>;
+  /** この呼び出しの計測結果 (試行回数・キー情報は呼び出し元で付与する) */
+  metrics: Omit<CallMetrics, "attempts" | "keySuffix">;
+}
+
+/**
+ * 単一のLLM呼び出しのオプション
+ */
+export interface LlmCallOptions {
+  /**
+   * 履歴をモデルのコンテキストウィンドウに収めるため、古いメッセージを省略するか (省略時は true)
+   * 省略したメッセージを呼び出し元が把握する必要がある場合 (要約など) は false とし、呼び出し元で入力を調整する
+   */
+  fitHistory?: boolean;
+}
+
+/**
+ * 単一のLLM呼び出しを行う関数 (`callLlmApi` と同じシグネチャ。テストではスタブに差し替える)
+ */
+export type LlmCaller = (
+  apiKey: string,
+  messages: LlmMessage[],
+  modelSettings: LlmModelConfig,
+  onDelta?: (delta: string) => void,
+  abortSignal?: AbortSignal,
+  options?: LlmCallOptions,
+) => Promise<LlmCallResult>;
+
+/**
+ * `callWithKeyRotation` の結果
+ * - 成功した場合は、呼び出しの結果と計測結果
+ * - 失敗した場合は、最後に発生したエラー (キーを取得できず一度も呼び出せなかった場合は null)
+ */
+export type KeyRotationResult =
+  | { ok: true; result: LlmCallResult; metrics: CallMetrics }
+  | { ok: false; error: LlmApiError | null };
+// #endregion
+
+// #region 定数
+/**
+ * APIキーの数に関わらず、一時的エラー時に最低限保証するリトライ回数
+ */
+export const MIN_RETRY_ATTEMPTS = 3;
+// #endregion
+
+// #region カスタムエラーとエラーの分類
+
+/**
+ * HTTPエラーなど、API呼び出しに関する情報を保持するカスタムエラー
+ */
+export class LlmApiError extends Error {
+  public status: number;
+  public modelName?: string;
+  public apiKeyUsed: string;
+  public responseHeaders?: Record<string, string>;
+
+  /**
+   * LlmApiErrorのコンストラクタ
+   * @param {string} message - エラーメッセージ
+   * @param {number} status - HTTPステータスコード
+   * @param {string} apiKeyUsed - 使用されたAPIキー
+   * @param {string} [modelName] - (オプション) 使用されたモデル名
+   * @param {Record<string, string>} [responseHeaders] - (オプション) エラー応答のヘッダー (Retry-After の取得に使用)
+   */
+  constructor(
+    message: string,
+    status: number,
+    apiKeyUsed: string,
+    modelName?: string,
+    responseHeaders?: Record<string, string>,
+  ) {
+    super(message);
+    this.name = "LlmApiError";
+    this.status = status;
+    this.modelName = modelName;
+    this.apiKeyUsed = apiKeyUsed;
+    this.responseHeaders = responseHeaders;
+  }
+}
+
+/**
+ * 発生したLlmApiErrorを分類し、リトライ戦略を決定します。
+ * @param {LlmApiError} error - 分類対象のエラー
+ * @returns {{ isPermanent: boolean, removeKey: boolean, removeModel: boolean }}
+ * - `isPermanent`: リトライしても無駄な永続的エラーか
+ * - `removeKey`: このAPIキーが無効化されるか (401, 403)
+ * - `removeModel`: このモデルをリトライ対象から除外すべきか (404, 400)
+ */
+export function classifyError(error: LlmApiError): { isPermanent: boolean; removeKey: boolean; removeModel: boolean } {
+  const status = error.status;
+
+  if (status === 401 || status === 403) {
+    // 認証・権限エラー (キーが悪い)
+    return { isPermanent: true, removeKey: true, removeModel: false };
+  }
+  if (status === 404) {
+    // Not Found (モデル名が悪い)
+    return { isPermanent: true, removeKey: false, removeModel: true };
+  }
+  if (status >= 400 && status < 500 && status !== 429) {
+    // その他のクライアントエラー (リクエストが悪いなど。リトライしても無駄)
+    return { isPermanent: true, removeKey: false, removeModel: true };
+  }
+  // 一時的エラー (429 レートリミット, 5xx サーバーエラー) はリトライ対象
+  return { isPermanent: false, removeKey: false, removeModel: false };
+}
+
+/**
+ * キーの無効化後、試行回数の上限を「これまでの試行回数 + 残りのキーの数」まで引き上げます。
+ * (無効化されたキーの試行で上限を使い切り、まだ試していない有効なキーが残っているのに諦めることを防ぐ)
+ * @param {number} maxAttempts - 現在の試行回数の上限
+ * @param {number} attempts - これまでの試行回数
+ * @param {ApiKeyPool} apiKeyPool - 使用しているキープール (無効化済みのキーは数えない)
+ * @returns {number} 新しい試行回数の上限
+ */
+export function growMaxAttempts(maxAttempts: number, attempts: number, apiKeyPool: ApiKeyPool): number {
+  return Math.max(maxAttempts, attempts + apiKeyPool.keyCount);
+}
+// #endregion
+
+// #region LLM呼び出し
+
+/**
+ * 呼び出しの計測結果に、試行回数と使用したAPIキーの末尾を付与します。
+ * @param {LlmCallResult} result - 成功した呼び出しの結果
+ * @param {number} attempts - 成功までに要した試行回数
+ * @param {LlmModelConfig} modelSettings - 使用したモデルの設定
+ * @param {string} apiKey - 使用したAPIキー
+ * @returns {CallMetrics} 計測結果
+ */
+export function buildCallMetrics(
+  result: LlmCallResult,
+  attempts: number,
+  modelSettings: LlmModelConfig,
+  apiKey: string,
+): CallMetrics {
+  // APIキーが不要なプロバイダーのダミーキーは表示しない
+  const keySuffix = getProviderApiKeysEnv(modelSettings.provider) ? apiKey.slice(-4) : undefined;
+  return { ...result.metrics, attempts, keySuffix };
+}
+
+/**
+ * 単一のLLM呼び出し（ストリームをテキストに集約）
+ * API SDKのエラーを捕捉し、HTTPステータスコードを含むカスタムエラーをスローします。
+ * @param {string} apiKey - 使用するAPIキー (モデル設定のプロバイダーに対応するもの)
+ * @param {LlmMessage[]} messages - LLMに渡すメッセージ履歴
+ * @param {LlmModelConfig} modelSettings - 使用するモデルの設定
+ * @param {(delta: string) => void} [onDelta] - (オプション) 出力差分を受け取るコールバック
+ * @param {AbortSignal} [abortSignal] - (オプション) 呼び出しを中断するためのシグナル
+ * @param {LlmCallOptions} [options] - (オプション) 履歴の省略の有無
+ * @returns {Promise<LlmCallResult>} LLMからのテキスト応答、応答ヘッダー、計測結果
+ * @throws {LlmApiError} API呼び出しが失敗した場合、または応答が空の場合
+ */
+export async function callLlmApi(
+  apiKey: string,
+  messages: LlmMessage[],
+  modelSettings: LlmModelConfig,
+  onDelta?: (delta: string) => void,
+  abortSignal?: AbortSignal,
+  { fitHistory = true }: LlmCallOptions = {},
+): Promise<LlmCallResult> {
+  let fullText = "";
+  let responseHeaders: Record<string, string> | undefined;
+  let finishPart: Extract<TextStreamPart<ToolSet>, { type: "finish" }> | undefined;
+  const startedAt = Date.now();
+  let firstTokenAt: number | undefined;
+
+  // モデルのコンテキストウィンドウに収まるように履歴を省略する
+  // (カタログにないモデル (Cerebras以外のプロバイダーを含む) はコンテキストウィンドウが不明なため、そのまま送信する)
+  const budget = getContextBudget(modelSettings);
+  const fitted =
+    budget && fitHistory ? fitMessagesToBudget(messages, budget.inputTokens) : { messages, droppedCount: 0 };
+  if (fitted.droppedCount > 0) {
+    console.warn(
+      `[Budget] ${modelSettings.modelName} のコンテキストウィンドウに収めるため、古いメッセージを${fitted.droppedCount}件省略しました。`,
+    );
+  }
+  if (budget && estimatePromptTokens(fitted.messages) > budget.inputTokens) {
+    // 省略できない先頭のシステムメッセージと最後のメッセージ (統合プロンプトなど) だけで予算を超えている場合
+    // (送信はそのまま行い、モデルの上限を超えた場合はAPIのエラーとして扱う)
+    console.warn(`[Budget] ${modelSettings.modelName} への入力が、推定でコンテキストウィンドウの予算を超えています。`);
+  }
+
+  try {
+    const result = streamText({
+      model: createLanguageModel(modelSettings.provider, apiKey, modelSettings.modelName),
+      messages: fitted.messages,
+      temperature: modelSettings.temperature,
+      maxOutputTokens: budget?.maxOutputTokens ?? modelSettings.maxTokens,
+      // リトライはAPIキーを切り替えながら呼び出し元で行うため、SDK内部のリトライは無効にする
+      maxRetries: 0,
+      abortSignal,
+    });
+
+    // textStream はエラーを握りつぶすため、fullStream からエラーも含めて読み取る
+    for await (const part of result.fullStream) {
+      if (part.type === "text-delta") {
+        firstTokenAt ??= Date.now();
+        fullText += part.text;
+        onDelta?.(part.text);
+      } else if (part.type === "finish") {
+        finishPart = part;
+      } else if (part.type === "error") {
+        throw part.error;
+      }
+    }
+    responseHeaders = (await result.response).headers;
+  } catch (error) {
+    // 中断はAPIのエラーではないため、そのまま再スローする (キーの失敗として記録させない)
+    if (abortSignal?.aborted) throw error;
+
+    // Vercel AI SDK (ai) の APICallError は statusCode を持つ。
+    // 古い形式では 'cause' プロパティに元のフェッチ応答を含むことがある
+    const apiCallError = APICallError.isInstance(error) ? error : undefined;
+    const response = error instanceof Error && error.cause instanceof Response ? error.cause : undefined;
+    const status = apiCallError?.statusCode || response?.status || 500; // 不明なエラーは500とする
+
+    // 401:認証, 403:権限, 404:モデル不明, 429:レートリミット
+    // (APICallError の responseHeaders は 429 時の Retry-After の取得に使用する)
+    throw new LlmApiError(
+      (error instanceof Error && error.message) || "LLM API呼び出しで不明なエラー",
+      status,
+      apiKey,
+      modelSettings.modelName,
+      apiCallError?.responseHeaders,
+    );
+  }
+
+  if (!fullText) {
+    // 空の応答は一時的エラーとして扱い、リトライ対象とする
+    throw new LlmApiError("LLMから空の応答が返されました", 500, apiKey, modelSettings.modelName, responseHeaders);
+  }
+  return {
+    text: fullText,
+    responseHeaders,
+    metrics: {
+      inputTokens: finishPart?.totalUsage.inputTokens,
+      outputTokens: finishPart?.totalUsage.outputTokens,
+      timeToFirstTokenMs: firstTokenAt !== undefined ? firstTokenAt - startedAt : undefined,
+      latencyMs: Date.now() - startedAt,
+      finishReason: finishPart?.finishReason,
+      droppedMessages: fitted.droppedCount > 0 ? fitted.droppedCount : undefined,
+    },
+  };
+}
+
+/**
+ * 単一のモデルを、キープールのAPIキーを切り替えながら成功するまで呼び出します。（要約・統合モデル用）
+ * 試行回数の上限は「キーの数」と `MIN_RETRY_ATTEMPTS` の大きい方で、キーが無効化されるたびに引き上げられます。
+ * 2回目以降の試行は指数バックオフで待機してから行い、プールが枯渇した時点、またはモデル固有の永続的エラー (404, 400) の時点で諦めます。
+ * @param {ApiKeyPool} apiKeyPool - モデルのプロバイダーのキープール
+ * @param {LlmModelConfig} modelSettings - 呼び出すモデルの設定
+ * @param {(apiKey: string, attempt: number) => Promise<LlmCallResult>} call - 1回の試行 (LLM呼び出し)
+ * @param {string} label - ログ出力用のラベル (例: "Summarizer")
+ * @param {AbortSignal} abortSignal - 中断するためのシグナル
+ * @returns {Promise<KeyRotationResult>} 成功した場合は呼び出しの結果、失敗した場合は最後のエラー
+ * @throws {DOMException} `abortSignal` により中断された場合 (AbortError)
+ */
+export async function callWithKeyRotation(
+  apiKeyPool: ApiKeyPool,
+  modelSettings: LlmModelConfig,
+  call: (apiKey: string, attempt: number) => Promise<LlmCallResult>,
+  label: string,
+  abortSignal: AbortSignal,
+): Promise<KeyRotationResult> {
+  let lastApiError: LlmApiError | null = null;
+  let attempts = 0;
+  let maxAttempts = Math.max(apiKeyPool.keyCount, MIN_RETRY_ATTEMPTS);
+
+  while (attempts < maxAttempts) {
+    // 中断された場合はリトライせずに終了する
+    abortSignal.throwIfAborted();
+    if (apiKeyPool.isExhausted()) {
+      console.error(`[${label}] すべてのAPIキーが利用不可になりました (無効化またはクールダウン中)。`);
+      break; // すべてのキーが認証エラーで無効化、またはレートリミットで長時間停止中
+    }
+
+    // 2回目以降の試行は指数バックオフで待機してから行う
+    if (attempts > 0) {
+      await sleep(computeBackoffDelay(attempts), abortSignal);
+    }
+    const apiKey = await apiKeyPool.waitForKey(abortSignal);
+    if (!apiKey) {
+      continue; // 待機中にプールが枯渇した (次のループの判定で終了する)
+    }
+    attempts++;
+
+    try {
+      const result = await call(apiKey, attempts);
+      apiKeyPool.reportSuccess(apiKey, result.responseHeaders);
+      return { ok: true, result, metrics: buildCallMetrics(result, attempts, modelSettings, apiKey) };
+    } catch (error) {
+      if (abortSignal.aborted) {
+        // 中断による失敗はキーの状態に記録せず、リトライもしない
+        apiKeyPool.release(apiKey);
+        abortSignal.throwIfAborted();
+      }
+      if (error instanceof LlmApiError) {
+        lastApiError = error;
+        apiKeyPool.reportFailure(apiKey, error.status, error.responseHeaders);
+        console.warn(
+          `[${label}] ${attempts}回目 失敗 (Key: ...${apiKey.slice(-4)}, Status: ${error.status})`,
+          error.message,
+        );
+        const { isPermanent, removeKey, removeModel } = classifyError(error);
+
+        if (isPermanent && removeModel) {
+          // 404などモデル・リクエスト固有の問題。別のキーでリトライしても無駄なため諦める
+          console.error(
+            `[${label}] ${modelSettings.modelName} は永続的エラー (${error.status}) のためリトライしません。`,
+          );
+          break;
+        }
+        if (isPermanent && removeKey) {
+          maxAttempts = growMaxAttempts(maxAttempts, attempts, apiKeyPool);
+        }
+      } else {
+        // 予期せぬエラー
+        apiKeyPool.release(apiKey);
+        console.error(`[${label}] 予期せぬエラー`, error);
+        const message = error instanceof Error ? error.message : "予期せぬエラーが発生しました";
+        lastApiError = new LlmApiError(message, 500, apiKey, modelSettings.modelName);
+      }
+    }
+  }
+
+  abortSignal.throwIfAborted();
+  return { ok: false, error: lastApiError };
+}
+// #endregion
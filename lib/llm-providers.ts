@@ -0,0 +1,163 @@
+// サーバーサイドで使用するLLMプロバイダーのレジストリ
+// (APIキーや接続先URLを環境変数から読み込むため、クライアントからはインポートしないでください)
+
+import { createCerebras } from "@ai-sdk/cerebras";
+import { createOpenAI } from "@ai-sdk/openai";
+import type { LanguageModel } from "ai";
+import { getApiKeyPool, type ApiKeyPool } from "./api-key-pool";
+import { createMockLanguageModel, getMockApiKeys, isMockModeEnabled } from "./mock-llm";
+
+// #region 型定義
+
+/**
+ * サーバー側で登録されているLLMプロバイダーの定義
+ */
+interface ProviderDefinition {
+  /** 設定に保存されるプロバイダーID (lib/constants.ts の LLM_PROVIDERS と一致) */
+  id: string;
+  /** APIの種類 */
+  kind: "cerebras" | "openai-compatible" | "mock";
+  /** APIキーのプールを読み込む環境変数名 (カンマ区切り) */
+  apiKeysEnv?: string;
+  /** 接続先URLを読み込む環境変数名 (OpenAI互換のみ) */
+  baseUrlEnv?: string;
+  /** 環境変数が未設定の場合の接続先URL (OpenAI互換のみ) */
+  defaultBaseUrl?: string;
+}
+// #endregion
+
+/**
+ * APIキーを必要としないローカルサーバー用のダミーキー
+ * (キーのローテーション処理を共通化するため、1件のキーとして扱う)
+ */
+const LOCAL_PROVIDER_KEY = "local";
+
+/**
+ * 登録済みのプロバイダー一覧
+ */
+const PROVIDER_REGISTRY: ProviderDefinition[] = [
+  {
+    id: "cerebras",
+    kind: "cerebras",
+    apiKeysEnv: "CEREBRAS_API_KEYS",
+  },
+  {
+    id: "openai",
+    kind: "openai-compatible",
+    apiKeysEnv: "OPENAI_COMPATIBLE_API_KEYS",
+    baseUrlEnv: "OPENAI_COMPATIBLE_BASE_URL",
+    defaultBaseUrl: "https://api.openai.com/v1",
+  },
+  {
+    id: "ollama",
+    kind: "openai-compatible",
+    baseUrlEnv: "OLLAMA_BASE_URL",
+    defaultBaseUrl: "http://localhost:11434/v1",
+  },
+  {
+    id: "llamacpp",
+    kind: "openai-compatible",
+    baseUrlEnv: "LLAMACPP_BASE_URL",
+    defaultBaseUrl: "http://localhost:8080/v1",
+  },
+  {
+    id: "mock",
+    kind: "mock",
+    apiKeysEnv: "MOCK_API_KEYS",
+  },
+];
+
+/**
+ * 指定されたIDのプロバイダーが登録されているかを判定します。
+ * @param {string} providerId - プロバイダーID
+ * @returns {boolean} 登録されていれば true
+ */
+export function isRegisteredProvider(providerId: string): boolean {
+  return PROVIDER_REGISTRY.some((p) => p.id === providerId);
+}
+
+/**
+ * プロバイダー定義を取得します。
+ * @param {string} providerId - プロバイダーID
+ * @returns {ProviderDefinition} プロバイダー定義
+ * @throws {Error} 未登録のプロバイダーの場合
+ */
+function getProvider(providerId: string): ProviderDefinition {
+  const provider = PROVIDER_REGISTRY.find((p) => p.id === providerId);
+  if (!provider) {
+    throw new Error(`不明なプロバイダーです: ${providerId}`);
+  }
+  return provider;
+}
+
+/**
+ * プロバイダーが使用するAPIキーの配列を環境変数から取得します。
+ * カンマ区切りで複数のキーを登録可能です。
+ * APIキーが不要なプロバイダー（ローカルサーバー）の場合はダミーキーを1件返します。
+ * モックプロバイダー、またはモックモード（環境変数 `MOCK_LLM`）の場合はモック用のキーを返します。
+ * @param {string} providerId - プロバイダーID
+ * @returns {string[]} APIキーの配列
+ */
+export function getProviderApiKeys(providerId: string): string[] {
+  const provider = getProvider(providerId);
+  if (provider.kind === "mock" || isMockModeEnabled()) {
+    return getMockApiKeys();
+  }
+  if (!provider.apiKeysEnv) {
+    return [LOCAL_PROVIDER_KEY];
+  }
+  const keysEnv = process.env[provider.apiKeysEnv] || "";
+  return keysEnv.split(",").filter((key) => key.trim() !== "");
+}
+
+/**
+ * プロバイダーのAPIキーを設定する環境変数名を取得します。(エラーメッセージ用)
+ * @param {string} providerId - プロバイダーID
+ * @returns {string | undefined} 環境変数名 (APIキーが不要な場合は undefined)
+ */
+export function getProviderApiKeysEnv(providerId: string): string | undefined {
+  return getProvider(providerId).apiKeysEnv;
+}
+
+/**
+ * 指定されたプロバイダーごとに、プロセス全体で共有される ApiKeyPool を取得します。
+ * @param {Iterable<string>} providerIds - 使用するプロバイダーIDの一覧
+ * @returns {Map<string, ApiKeyPool>} プロバイダーIDをキーとする ApiKeyPool のマップ
+ * @throws {Error} いずれかのプロバイダーのAPIキーが設定されていない場合
+ */
+export function getApiKeyPools(providerIds: Iterable<string>): Map<string, ApiKeyPool> {
+  const pools = new Map<string, ApiKeyPool>();
+  for (const providerId of providerIds) {
+    const keys = getProviderApiKeys(providerId);
+    if (keys.length === 0) {
+      throw new Error(
+        `プロバイダー「${providerId}」のAPIキーがありません。環境変数 ${getProviderApiKeysEnv(providerId)} を設定してください。`,
+      );
+    }
+    pools.set(providerId, getApiKeyPool(providerId, keys));
+  }
+  return pools;
+}
+
+/**
+ * 指定されたプロバイダー・APIキー・モデル名で、AI SDK の言語モデルを作成します。
+ * モックモード（環境変数 `MOCK_LLM`）の場合は、プロバイダーに関わらずモックの言語モデルを返します。
+ * @param {string} providerId - プロバイダーID
+ * @param {string} apiKey - 使用するAPIキー
+ * @param {string} modelName - モデル名
+ * @returns {LanguageModel} streamText に渡す言語モデル
+ */
+export function createLanguageModel(providerId: string, apiKey: string, modelName: string): LanguageModel {
+  const provider = getProvider(providerId);
+
+  if (provider.kind === "mock" || isMockModeEnabled()) {
+    return createMockLanguageModel(modelName, apiKey);
+  }
+  if (provider.kind === "cerebras") {
+    return createCerebras({ apiKey })(modelName);
+  }
+
+  const baseURL = (provider.baseUrlEnv && process.env[provider.baseUrlEnv]) || provider.defaultBaseUrl;
+  // OpenAI互換サーバーの多くは Responses API に対応していないため、Chat Completions API を使用する
+  return createOpenAI({ name: provider.id, baseURL, apiKey }).chat(modelName);
+}
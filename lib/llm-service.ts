@@ -1,72 +1,182 @@
 import type { Message, ModelSettings, AppSettings, ModelResponse } from "./db";
+import {
+  CHAT_PROTOCOL_VERSION,
+  chatRequestSchema,
+  inferRequestSchema,
+  integrateRequestSchema,
+  toChatErrorResponse,
+  type ChatErrorResponse,
+  type ChatRequest,
+  type InferRequest,
+  type IntegrateRequest,
+  type IntegratorModelConfig,
+} from "./chat-contract";
+import { readChatStream, type ChatResult, type ChatStreamEvent } from "./chat-stream";
 
 /**
- * サーバーサイドのLLM API（/api/chat）と通信するためのサービスクラス
+ * サーバーサイドのLLM API（/api/chat, /api/integrate, /api/infer）と通信するためのサービスクラス
  */
 export class LLMService {
   /**
    * サーバーサイドの /api/chat エンドポイントを呼び出します。
    * APIキーの管理やLLMの直接呼び出しはサーバー側で行われます。
+   * 応答はストリームで返され、各モデルの途中経過は `onEvent` に逐次通知されます。
    *
    * @param {Message[]} messages - 現在の会話履歴（要約済みの場合は要約を含む）
-   * @param {ModelSettings[]} modelSettings - クライアントで設定された全推論モデルの設定
+   * @param {ModelSettings[]} modelSettings - クライアントで設定された全推論モデルの設定 (有効なもののみ送信されます)
    * @param {AppSettings} appSettings - アプリ設定（要約・統合モデル）
    * @param {string | undefined} systemPrompt - この会話に固有のシステムプロンプト
-   * @param {number} totalContentLength - 現在の履歴の総文字数（要約トリガー判定用）
-   * @returns {Promise<{
-   * content: string;
-   * modelResponses: ModelResponse[];
-   * summaryExecuted: boolean;
-   * newHistoryContext: Message[] | null;
-   * }>} 統合された最終回答と、要約が実行されたかの情報
-   * @throws {Error} API呼び出しが失敗した場合
+   * @param {(event: ChatStreamEvent) => void} [onEvent] - (オプション) ストリームイベントを受け取るコールバック
+   * @param {AbortSignal} [signal] - (オプション) 生成を停止するためのシグナル。中断するとサーバー側の処理も停止します
+   * @returns {Promise<ChatResult>} 統合された最終回答と、要約が実行されたかの情報
+   * @throws {Error} 設定が不正な場合、またはAPI呼び出しが失敗した場合 (中断された場合は AbortError。`isAbortError` で判定可能)
    */
   async generateResponseWithDetails(
     messages: Message[],
     modelSettings: ModelSettings[],
     appSettings: AppSettings,
     systemPrompt: string | undefined,
-    totalContentLength: number,
-  ): Promise<{
-    content: string;
-    modelResponses: ModelResponse[];
-    summaryExecuted: boolean;
-    newHistoryContext: Message[] | null;
-  }> {
+    onEvent?: (event: ChatStreamEvent) => void,
+    signal?: AbortSignal,
+  ): Promise<ChatResult> {
     console.log("Calling Next.js API route (/api/chat)");
 
-    const response = await fetch("/api/chat", {
+    const request: ChatRequest = {
+      protocolVersion: CHAT_PROTOCOL_VERSION,
+      messages,
+      modelSettings: modelSettings.filter((m) => m.enabled),
+      appSettings,
+      systemPrompt,
+    };
+
+    // サーバーと同じスキーマで事前に検証し、不正な設定は送信前にエラーとする
+    const parsed = chatRequestSchema.safeParse(request);
+    if (!parsed.success) {
+      throw new Error(toChatErrorResponse(parsed.error).error);
+    }
+
+    return this.postStreamRequest("/api/chat", request, onEvent, signal);
+  }
+
+  /**
+   * サーバーサイドの /api/integrate エンドポイントを呼び出し、保存済みの個別応答から統合のみを再実行します。
+   * 統合モデルが失敗した場合は、フォールバックせずにエラーとなります。
+   *
+   * @param {Message[]} messages - 統合する応答の元になった会話履歴（最後はユーザーの質問）
+   * @param {ModelResponse[]} modelResponses - 統合する各モデルの個別応答
+   * @param {IntegratorModelConfig} integratorModel - 統合モデルの設定
+   * @param {string | undefined} systemPrompt - この会話に固有のシステムプロンプト
+   * @param {(event: ChatStreamEvent) => void} [onEvent] - (オプション) ストリームイベントを受け取るコールバック
+   * @param {AbortSignal} [signal] - (オプション) 統合を停止するためのシグナル
+   * @returns {Promise<ChatResult>} 統合された最終回答
+   * @throws {Error} 設定が不正な場合、またはAPI呼び出しが失敗した場合 (中断された場合は AbortError)
+   */
+  async integrateResponses(
+    messages: Message[],
+    modelResponses: ModelResponse[],
+    integratorModel: IntegratorModelConfig,
+    systemPrompt: string | undefined,
+    onEvent?: (event: ChatStreamEvent) => void,
+    signal?: AbortSignal,
+  ): Promise<ChatResult> {
+    const request: IntegrateRequest = {
+      protocolVersion: CHAT_PROTOCOL_VERSION,
+      messages,
+      modelResponses,
+      integratorModel,
+      systemPrompt,
+    };
+
+    const parsed = integrateRequestSchema.safeParse(request);
+    if (!parsed.success) {
+      throw new Error(toChatErrorResponse(parsed.error).error);
+    }
+
+    return this.postStreamRequest("/api/integrate", request, onEvent, signal);
+  }
+
+  /**
+   * サーバーサイドの /api/infer エンドポイントを呼び出し、1つの推論モデルのみで応答を生成します。
+   * (失敗したモデルの再試行に使用します。要約・統合は行われません)
+   *
+   * @param {Message[]} messages - 応答を生成する会話履歴（最後はユーザーの質問）
+   * @param {ModelSettings} model - 再実行する推論モデルの設定
+   * @param {string | undefined} systemPrompt - この会話に固有のシステムプロンプト
+   * @param {(event: ChatStreamEvent) => void} [onEvent] - (オプション) ストリームイベントを受け取るコールバック
+   * @param {AbortSignal} [signal] - (オプション) 生成を停止するためのシグナル
+   * @returns {Promise<ChatResult>} このモデルの応答 (`modelResponses` に1件)
+   * @throws {Error} 設定が不正な場合、またはAPI呼び出しが失敗した場合 (中断された場合は AbortError)
+   */
+  async inferSingleModel(
+    messages: Message[],
+    model: ModelSettings,
+    systemPrompt: string | undefined,
+    onEvent?: (event: ChatStreamEvent) => void,
+    signal?: AbortSignal,
+  ): Promise<ChatResult> {
+    const request: InferRequest = {
+      protocolVersion: CHAT_PROTOCOL_VERSION,
+      messages,
+      model,
+      systemPrompt,
+    };
+
+    const parsed = inferRequestSchema.safeParse(request);
+    if (!parsed.success) {
+      throw new Error(toChatErrorResponse(parsed.error).error);
+    }
+
+    return this.postStreamRequest("/api/infer", request, onEvent, signal);
+  }
+
+  /**
+   * NDJSONのストリームを返すエンドポイントにリクエストを送信し、最終結果を返します。
+   * @param {string} url - エンドポイントのURL
+   * @param {unknown} request - リクエストボディ
+   * @param {(event: ChatStreamEvent) => void} [onEvent] - (オプション) ストリームイベントを受け取るコールバック
+   * @param {AbortSignal} [signal] - (オプション) 中断するためのシグナル
+   * @returns {Promise<ChatResult>} 最終結果 (`done` イベントの内容)
+   * @throws {Error} APIがエラーを返した場合、またはストリームが途中で終了した場合
+   */
+  private async postStreamRequest(
+    url: string,
+    request: unknown,
+    onEvent?: (event: ChatStreamEvent) => void,
+    signal?: AbortSignal,
+  ): Promise<ChatResult> {
+    const response = await fetch(url, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({
-        messages,
-        modelSettings,
-        appSettings,
-        systemPrompt,
-        totalContentLength,
-      }),
+      body: JSON.stringify(request),
+      signal,
     });
 
-    if (!response.ok) {
+    if (!response.ok || !response.body) {
       // APIがエラーを返した場合、JSONからエラーメッセージを抽出
-      const errorData = await response.json().catch(() => ({ error: "APIから無効な応答が返されました" }));
+      const errorData: Partial<ChatErrorResponse> = await response
+        .json()
+        .catch(() => ({ error: "APIから無効な応答が返されました" }));
       throw new Error(errorData.error || `APIエラー (HTTP ${response.status})`);
     }
 
-    // APIからの成功応答をそのまま返す
-    return response.json() as Promise<{
-      content: string;
-      modelResponses: ModelResponse[];
-      summaryExecuted: boolean;
-      newHistoryContext: Message[] | null;
-    }>;
+    // ストリームを最後まで読み取り、最終結果を返す
+    for await (const event of readChatStream(response.body)) {
+      onEvent?.(event);
+      if (event.type === "done") {
+        return event.result;
+      }
+      if (event.type === "error") {
+        throw new Error(event.message);
+      }
+    }
+
+    throw new Error("APIからの応答が途中で終了しました");
   }
 
   /**
    * @deprecated この関数は古いシグネチャです。`generateResponseWithDetails` を直接使用してください。
-   * (注: このラッパーは `totalContentLength` に 0 を渡すため、要約機能が正しく動作しません)
    */
   async generateResponse(
     messages: Message[],
@@ -74,17 +184,20 @@ export class LLMService {
     appSettings: AppSettings,
     systemPrompt?: string,
   ): Promise<string> {
-    const result = await this.generateResponseWithDetails(
-      messages,
-      modelSettings,
-      appSettings,
-      systemPrompt,
-      0, // totalContentLength が 0 固定のため、文字数ベースの要約が機能しない
-    );
+    const result = await this.generateResponseWithDetails(messages, modelSettings, appSettings, systemPrompt);
     return result.content;
   }
 }
 
+/**
+ * エラーが生成の停止（AbortController による中断）によるものかを判定します。
+ * @param {unknown} error - 判定対象のエラー
+ * @returns {boolean} 中断によるエラーであれば true
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
 /**
  * LLMServiceクラスのシングルトンインスタンス
  */
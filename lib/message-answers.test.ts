@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import type { Message } from "./db";
+import { promoteAlternateAnswer, promoteModelResponse } from "./message-answers";
+
+/**
+ * 2つの個別応答を統合したアシスタントメッセージを作成します。
+ */
+function integratedMessage(overrides: Partial<Message> = {}): Message {
+  return {
+    id: "msg_2",
+    role: "assistant",
+    content: "統合された回答",
+    timestamp: 2000,
+    conversationId: "conv_1",
+    modelResponses: [
+      { model: "model-a", provider: "cerebras", content: "model-a の回答" },
+      { model: "model-b", provider: "cerebras", content: "model-b の回答" },
+    ],
+    integration: { strategy: "synthesize" },
+    integratorMetrics: { latencyMs: 10, attempts: 1 },
+    ...overrides,
+  };
+}
+
+describe("promoteModelResponse", () => {
+  it("個別応答を最終回答にし、統合結果を別の最終回答として残す", () => {
+    const promoted = promoteModelResponse(integratedMessage(), 1);
+
+    expect(promoted.content).toBe("model-b の回答");
+    expect(promoted.promotedFrom).toEqual({ responseIndex: 1, model: "model-b" });
+    expect(promoted.integration).toBeUndefined();
+    expect(promoted.alternateAnswers).toEqual([
+      {
+        content: "統合された回答",
+        integration: { strategy: "synthesize" },
+        integratorMetrics: { latencyMs: 10, attempts: 1 },
+        createdAt: 2000,
+      },
+    ]);
+  });
+
+  it("採用済みの個別応答を別の応答に替えても、統合結果を重複して残さない", () => {
+    const promoted = promoteModelResponse(promoteModelResponse(integratedMessage(), 0), 1);
+
+    expect(promoted.content).toBe("model-b の回答");
+    expect(promoted.alternateAnswers).toHaveLength(1);
+  });
+
+  it("存在しない応答はエラーにする", () => {
+    expect(() => promoteModelResponse(integratedMessage(), 5)).toThrow();
+  });
+});
+
+describe("promoteAlternateAnswer", () => {
+  it("退避した統合結果を最終回答に戻す", () => {
+    const restored = promoteAlternateAnswer(promoteModelResponse(integratedMessage(), 0), 0);
+
+    expect(restored.content).toBe("統合された回答");
+    expect(restored.integration).toEqual({ strategy: "synthesize" });
+    expect(restored.promotedFrom).toBeUndefined();
+    expect(restored.alternateAnswers).toBeUndefined();
+  });
+
+  it("別の統合結果を採用すると、元の統合結果と入れ替える", () => {
+    const message = integratedMessage({
+      alternateAnswers: [
+        {
+          content: "審査による回答",
+          integration: { strategy: "judge", selectedIndices: [0] },
+          integratorModel: { provider: "cerebras", modelName: "judge-model" },
+          createdAt: 3000,
+        },
+      ],
+    });
+
+    const promoted = promoteAlternateAnswer(message, 0);
+
+    expect(promoted.content).toBe("審査による回答");
+    expect(promoted.integration).toEqual({ strategy: "judge", selectedIndices: [0] });
+    expect(promoted.alternateAnswers?.map((a) => a.content)).toEqual(["統合された回答"]);
+  });
+});
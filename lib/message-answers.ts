@@ -0,0 +1,82 @@
+// アシスタントメッセージの最終回答の切り替え (個別応答・別の統合結果の採用)
+// 会話のコンテキストには常に `content` が使用されるため、採用した回答を `content` に移し、
+// それまでの最終回答は `alternateAnswers` に退避します。
+
+import type { AlternateAnswer, Message } from "./db";
+
+/**
+ * 現在の最終回答を、`alternateAnswers` に退避する形式に変換します。
+ * 採用済みの個別応答は `modelResponses` に残っているため、退避しません。
+ * @param {Message} message - アシスタントメッセージ
+ * @returns {AlternateAnswer | null} 退避する回答 (不要な場合は null)
+ */
+function toAlternateAnswer(message: Message): AlternateAnswer | null {
+  if (message.promotedFrom) return null;
+  return {
+    content: message.content,
+    integration: message.integration,
+    integratorMetrics: message.integratorMetrics,
+    integratorModel: message.integratorModel,
+    createdAt: message.timestamp,
+  };
+}
+
+/**
+ * 別の最終回答の一覧を、空の場合は省略できる形式で返します。
+ * @param {AlternateAnswer[]} alternateAnswers - 別の最終回答
+ * @returns {AlternateAnswer[] | undefined} 空の場合は undefined
+ */
+function normalizeAlternates(alternateAnswers: AlternateAnswer[]): AlternateAnswer[] | undefined {
+  return alternateAnswers.length > 0 ? alternateAnswers : undefined;
+}
+
+/**
+ * 個別応答を最終回答に採用します。それまでの最終回答（統合結果など）は別の最終回答として残ります。
+ * @param {Message} message - アシスタントメッセージ
+ * @param {number} responseIndex - 採用する応答の `modelResponses` 内の位置
+ * @returns {Message} 更新後のメッセージ
+ * @throws {Error} 指定された応答が存在しない場合
+ */
+export function promoteModelResponse(message: Message, responseIndex: number): Message {
+  const response = message.modelResponses?.[responseIndex];
+  if (!response) {
+    throw new Error(`応答が見つかりません (index: ${responseIndex})`);
+  }
+  const previous = toAlternateAnswer(message);
+  return {
+    ...message,
+    content: response.content,
+    // 統合の実行内容と計測結果は、退避した統合結果に属する
+    integration: undefined,
+    integratorMetrics: undefined,
+    integratorModel: undefined,
+    promotedFrom: { responseIndex, model: response.model },
+    alternateAnswers: normalizeAlternates([...(message.alternateAnswers ?? []), ...(previous ? [previous] : [])]),
+  };
+}
+
+/**
+ * 別の最終回答 (`alternateAnswers`) を最終回答に採用します。
+ * それまでの最終回答は別の最終回答として残ります（採用済みの個別応答だった場合を除く）。
+ * @param {Message} message - アシスタントメッセージ
+ * @param {number} alternateIndex - 採用する回答の `alternateAnswers` 内の位置
+ * @returns {Message} 更新後のメッセージ
+ * @throws {Error} 指定された回答が存在しない場合
+ */
+export function promoteAlternateAnswer(message: Message, alternateIndex: number): Message {
+  const alternate = message.alternateAnswers?.[alternateIndex];
+  if (!alternate) {
+    throw new Error(`回答が見つかりません (index: ${alternateIndex})`);
+  }
+  const previous = toAlternateAnswer(message);
+  const rest = message.alternateAnswers!.filter((_, i) => i !== alternateIndex);
+  return {
+    ...message,
+    content: alternate.content,
+    integration: alternate.integration,
+    integratorMetrics: alternate.integratorMetrics,
+    integratorModel: alternate.integratorModel,
+    promotedFrom: undefined,
+    alternateAnswers: normalizeAlternates([...rest, ...(previous ? [previous] : [])]),
+  };
+}
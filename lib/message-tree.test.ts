@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import type { Message } from "./db";
+import { buildActivePath, getBranchKey, getPathTo, getSiblings, selectPathTo, toModelContext } from "./message-tree";
+
+/**
+ * テスト用のメッセージを作成します。(タイムスタンプはIDの番号)
+ */
+function message(id: number, parentId: number | undefined, overrides: Partial<Message> = {}): Message {
+  return {
+    id: `msg_${id}`,
+    role: id % 2 === 1 ? "user" : "assistant",
+    content: `message ${id}`,
+    timestamp: id,
+    conversationId: "conv_1",
+    parentId: parentId === undefined ? undefined : `msg_${parentId}`,
+    ...overrides,
+  };
+}
+
+const ids = (messages: Message[]) => messages.map((m) => m.id);
+
+// 1 ─ 2 ─ 3 ─ 4
+//         └ 5 ─ 6   (3 を編集した分岐)
+//   └ 8             (2 を再生成した分岐)
+const tree = [
+  message(1, undefined),
+  message(2, 1),
+  message(3, 2),
+  message(4, 3),
+  message(5, 2),
+  message(6, 5),
+  message(8, 1),
+];
+
+describe("buildActivePath", () => {
+  it("選択がない場合は、最も新しいやり取りを含む分岐をたどる", () => {
+    expect(ids(buildActivePath(tree, {}))).toEqual(["msg_1", "msg_8"]);
+  });
+
+  it("選択された分岐をたどり、その先は最も新しい分岐を選ぶ", () => {
+    expect(ids(buildActivePath(tree, { msg_1: "msg_2" }))).toEqual(["msg_1", "msg_2", "msg_5", "msg_6"]);
+    expect(ids(buildActivePath(tree, { msg_1: "msg_2", msg_2: "msg_3" }))).toEqual([
+      "msg_1",
+      "msg_2",
+      "msg_3",
+      "msg_4",
+    ]);
+  });
+
+  it("存在しないメッセージが選択されている場合は無視する", () => {
+    expect(ids(buildActivePath(tree, { msg_1: "msg_99" }))).toEqual(["msg_1", "msg_8"]);
+  });
+
+  it("メッセージがない場合は空のパスを返す", () => {
+    expect(buildActivePath([], {})).toEqual([]);
+  });
+});
+
+describe("selectPathTo", () => {
+  it("指定されたメッセージを通るように各分岐点を選択し、その先は最も新しい分岐をたどる", () => {
+    const selections = selectPathTo(tree, "msg_3");
+    expect(selections).toEqual({ [getBranchKey(tree[0])]: "msg_1", msg_1: "msg_2", msg_2: "msg_3" });
+    expect(ids(buildActivePath(tree, selections))).toEqual(["msg_1", "msg_2", "msg_3", "msg_4"]);
+  });
+});
+
+describe("getSiblings", () => {
+  it("同じ親を持つメッセージを作成順に返し、要約メッセージは含めない", () => {
+    const summary = message(7, 2, { id: "msg_7_summary", role: "system" });
+    expect(ids(getSiblings([...tree, summary], tree[2]))).toEqual(["msg_3", "msg_5"]);
+  });
+
+  it("ルートのメッセージは、親のないメッセージ同士を兄弟とする", () => {
+    expect(getBranchKey(tree[0])).toBe(getBranchKey({}));
+    expect(ids(getSiblings(tree, tree[0]))).toEqual(["msg_1"]);
+  });
+});
+
+describe("要約メッセージ", () => {
+  // 1 ─ 2 ─ 3 ─ 4 ─ 5 の 1, 2 を要約した場合、要約は 2 の子として保存される
+  const linear = [message(1, undefined), message(2, 1), message(3, 2), message(4, 3), message(5, 4)];
+  const summary = message(2, 2, {
+    id: "msg_2_summary",
+    role: "system",
+    timestamp: 2.5,
+    summarizedMessageIds: ["msg_1", "msg_2"],
+  });
+
+  it("パスでは親の直後に並べ、モデルのコンテキストでは要約されたメッセージを置き換える", () => {
+    const path = getPathTo([...linear, summary], "msg_5");
+    expect(ids(path)).toEqual(["msg_1", "msg_2", "msg_2_summary", "msg_3", "msg_4", "msg_5"]);
+    expect(ids(toModelContext(path))).toEqual(["msg_2_summary", "msg_3", "msg_4", "msg_5"]);
+  });
+
+  it("要約より前で分岐したパスには、要約を含めない", () => {
+    const branch = message(6, undefined, { role: "user" });
+    const path = buildActivePath([...linear, summary, branch], {});
+    expect(ids(path)).toEqual(["msg_6"]);
+    expect(toModelContext(path)).toEqual(path);
+  });
+
+  it("複数の要約がある場合は、最後の要約のみを使用する", () => {
+    const newer = message(4, 4, {
+      id: "msg_4_summary",
+      role: "system",
+      timestamp: 4.5,
+      summarizedMessageIds: ["msg_1", "msg_2", "msg_3", "msg_4"],
+    });
+    const path = getPathTo([...linear, summary, newer], "msg_5");
+    expect(ids(toModelContext(path))).toEqual(["msg_4_summary", "msg_5"]);
+  });
+
+  it("親のない旧形式の要約は、パスの先頭に並べる", () => {
+    const legacy = message(0, undefined, { id: "msg_summary_0", role: "system" });
+    const path = getPathTo([legacy, ...linear], "msg_3");
+    expect(ids(path)).toEqual(["msg_summary_0", "msg_1", "msg_2", "msg_3"]);
+    expect(toModelContext(path)).toEqual(path);
+  });
+});
@@ -0,0 +1,143 @@
+// 会話のメッセージツリー (分岐) の操作
+// メッセージは `parentId` で直前のメッセージを指し、編集では同じ親に兄弟の分岐が作られます。
+// (再生成では分岐を作らず、アシスタントメッセージに回答のバージョンを追加します: lib/message-versions.ts)
+// 要約メッセージ (role: "system") は、要約に置き換えた最後のメッセージの子として保存され、分岐には数えません。
+// (旧形式の要約は、要約に置き換えたメッセージが削除されているため、親のないメッセージとして会話の先頭に置かれます)
+
+import type { Message } from "./db";
+
+/**
+ * ルートのメッセージ (`parentId` なし) の分岐を選択するためのキー
+ */
+const ROOT_BRANCH_KEY = "root";
+
+/**
+ * 分岐の選択状態 (分岐点のキー → 選択されたメッセージのID)
+ */
+export type BranchSelections = Record<string, string>;
+
+/**
+ * メッセージが属する分岐点のキー (親メッセージのID) を取得します。
+ * @param {Pick<Message, "parentId">} message - 対象のメッセージ
+ * @returns {string} `BranchSelections` のキー
+ */
+export function getBranchKey(message: Pick<Message, "parentId">): string {
+  return message.parentId ?? ROOT_BRANCH_KEY;
+}
+
+/**
+ * メッセージを作成順に比較します。
+ * @param {Message} a
+ * @param {Message} b
+ * @returns {number} 比較結果
+ */
+function compareByCreation(a: Message, b: Message): number {
+  return a.timestamp - b.timestamp || a.id.localeCompare(b.id);
+}
+
+/**
+ * メッセージを分岐点ごとにまとめます。(各分岐点のメッセージは作成順)
+ * @param {Message[]} messages - 会話のメッセージ
+ * @returns {Map<string, Message[]>} 分岐点のキー → 子メッセージ
+ */
+function groupByBranch(messages: Message[]): Map<string, Message[]> {
+  const children = new Map<string, Message[]>();
+  for (const message of [...messages].sort(compareByCreation)) {
+    const key = getBranchKey(message);
+    children.set(key, [...(children.get(key) ?? []), message]);
+  }
+  return children;
+}
+
+/**
+ * 同じ親を持つメッセージ (自身を含む分岐) を作成順に取得します。要約メッセージは含みません。
+ * @param {Message[]} messages - 会話のメッセージ
+ * @param {Message} message - 対象のメッセージ
+ * @returns {Message[]} 兄弟のメッセージ
+ */
+export function getSiblings(messages: Message[], message: Message): Message[] {
+  const key = getBranchKey(message);
+  return messages.filter((m) => m.role !== "system" && getBranchKey(m) === key).sort(compareByCreation);
+}
+
+/**
+ * ルートから指定されたメッセージまでのパスを取得します。
+ * パス上のメッセージの子である要約メッセージは、その親の直後に並べます。(親のない要約メッセージはパスの先頭)
+ * @param {Message[]} messages - 会話のメッセージ
+ * @param {string | undefined} messageId - パスの終端のメッセージID (undefined の場合は空のパス)
+ * @returns {Message[]} ルートから終端までのメッセージ
+ */
+export function getPathTo(messages: Message[], messageId: string | undefined): Message[] {
+  const byId = new Map(messages.map((m) => [m.id, m]));
+  const summaries = groupByBranch(messages.filter((m) => m.role === "system"));
+
+  const chain: Message[] = [];
+  let current = messageId ? byId.get(messageId) : undefined;
+  // 不正なデータで親が循環していても止まるよう、メッセージ数を上限とする
+  while (current && chain.length < messages.length) {
+    chain.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  if (chain.length === 0) return [];
+  return [...(summaries.get(ROOT_BRANCH_KEY) ?? []), ...chain.flatMap((m) => [m, ...(summaries.get(m.id) ?? [])])];
+}
+
+/**
+ * 表示する分岐のパス (ルートから葉まで) を求めます。
+ * 各分岐点では `selections` で選択されたメッセージを、選択がない場合は最も新しいやり取りを含む分岐をたどります。
+ * @param {Message[]} messages - 会話のメッセージ
+ * @param {BranchSelections} selections - 分岐の選択状態
+ * @returns {Message[]} ルートから葉までのメッセージ (要約メッセージを含む)
+ */
+export function buildActivePath(messages: Message[], selections: BranchSelections): Message[] {
+  const children = groupByBranch(messages.filter((m) => m.role !== "system"));
+
+  // 分岐ごとの最新のやり取りの時刻 (メモ化)
+  const latestTimestamps = new Map<string, number>();
+  const getLatestTimestamp = (message: Message): number => {
+    let latest = latestTimestamps.get(message.id);
+    if (latest === undefined) {
+      latest = Math.max(message.timestamp, ...(children.get(message.id) ?? []).map(getLatestTimestamp));
+      latestTimestamps.set(message.id, latest);
+    }
+    return latest;
+  };
+
+  let leaf: Message | undefined;
+  let branches = children.get(ROOT_BRANCH_KEY);
+  while (branches) {
+    const key = getBranchKey(branches[0]);
+    leaf =
+      branches.find((m) => m.id === selections[key]) ??
+      branches.reduce((a, b) => (getLatestTimestamp(b) >= getLatestTimestamp(a) ? b : a));
+    branches = children.get(leaf.id);
+  }
+  return getPathTo(messages, leaf?.id);
+}
+
+/**
+ * 指定されたメッセージを表示するための分岐の選択状態を求めます。(そのメッセージまでのパス上の各分岐点を選択する)
+ * @param {Message[]} messages - 会話のメッセージ
+ * @param {string} messageId - 表示するメッセージのID
+ * @returns {BranchSelections} 既存の選択状態に上書きする選択
+ */
+export function selectPathTo(messages: Message[], messageId: string): BranchSelections {
+  return Object.fromEntries(
+    getPathTo(messages, messageId)
+      .filter((m) => m.role !== "system")
+      .map((m) => [getBranchKey(m), m.id]),
+  );
+}
+
+/**
+ * パスから、モデルに送信するコンテキストを取り出します。
+ * パス上の最後の要約メッセージを使用し、その要約が置き換えたメッセージと、それ以外の要約メッセージを除外します。
+ * @param {Message[]} path - ルートからのパス (`getPathTo` / `buildActivePath` の結果)
+ * @returns {Message[]} モデルに送信するメッセージ
+ */
+export function toModelContext(path: Message[]): Message[] {
+  const summary = path.findLast((m) => m.role === "system");
+  if (!summary) return path;
+  const summarizedIds = new Set(summary.summarizedMessageIds);
+  return path.filter((m) => (m.role === "system" ? m === summary : !summarizedIds.has(m.id)));
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import type { Message, MessageVersion } from "./db";
+import { promoteModelResponse } from "./message-answers";
+import { addVersion, getActiveVersionIndex, getVersions, selectVersion } from "./message-versions";
+
+/**
+ * 2つの個別応答を統合したアシスタントメッセージを作成します。
+ */
+function integratedMessage(): Message {
+  return {
+    id: "msg_2",
+    role: "assistant",
+    content: "最初の回答",
+    timestamp: 2000,
+    conversationId: "conv_1",
+    parentId: "msg_1",
+    modelResponses: [
+      { model: "model-a", provider: "cerebras", content: "model-a の回答" },
+      { model: "model-b", provider: "cerebras", content: "model-b の回答" },
+    ],
+    integration: { strategy: "synthesize" },
+    integratorModel: { provider: "cerebras", modelName: "integrator" },
+    integrationFailure: { error: "timeout", fallback: "first" },
+  };
+}
+
+/**
+ * 再生成で得られた回答を作成します。
+ */
+function regenerated(content: string): MessageVersion {
+  return {
+    content,
+    modelResponses: [{ model: "model-a", provider: "cerebras", content }],
+    createdAt: 3000,
+  };
+}
+
+describe("addVersion", () => {
+  it("新しい回答を展開し、元の回答を以前のバージョンとして残す", () => {
+    const updated = addVersion(integratedMessage(), regenerated("再生成した回答"));
+
+    expect(updated.content).toBe("再生成した回答");
+    expect(updated.modelResponses).toHaveLength(1);
+    // 新しい回答にないフィールドは引き継がない
+    expect(updated.integration).toBeUndefined();
+    expect(updated.integrationFailure).toBeUndefined();
+    expect(updated.parentId).toBe("msg_1");
+    expect(getActiveVersionIndex(updated)).toBe(1);
+    expect(getVersions(updated).map((v) => [v.content, v.createdAt])).toEqual([
+      ["最初の回答", 2000],
+      ["再生成した回答", 3000],
+    ]);
+  });
+});
+
+describe("selectVersion", () => {
+  it("以前のバージョンを選択すると、その回答と個別応答を展開する", () => {
+    const restored = selectVersion(addVersion(integratedMessage(), regenerated("再生成した回答")), 0);
+
+    expect(restored.content).toBe("最初の回答");
+    expect(restored.modelResponses).toHaveLength(2);
+    expect(restored.integratorModel).toEqual({ provider: "cerebras", modelName: "integrator" });
+    expect(restored.integrationFailure).toEqual({ error: "timeout", fallback: "first" });
+    expect(getActiveVersionIndex(restored)).toBe(0);
+  });
+
+  it("選択中のバージョンへの変更は、別のバージョンに切り替えても保たれる", () => {
+    const promoted = promoteModelResponse(addVersion(integratedMessage(), regenerated("再生成した回答")), 0);
+    const roundTrip = selectVersion(selectVersion(promoted, 0), 1);
+
+    expect(roundTrip.content).toBe("再生成した回答");
+    expect(roundTrip.promotedFrom).toEqual({ responseIndex: 0, model: "model-a" });
+  });
+
+  it("再生成していないメッセージは、現在の回答のみをバージョンとする", () => {
+    expect(getVersions(integratedMessage())).toHaveLength(1);
+    expect(selectVersion(integratedMessage(), 0).content).toBe("最初の回答");
+  });
+
+  it("存在しないバージョンはエラーにする", () => {
+    expect(() => selectVersion(integratedMessage(), 3)).toThrow();
+  });
+});
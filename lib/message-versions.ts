@@ -0,0 +1,86 @@
+// アシスタントメッセージの回答のバージョン (再生成のたびに追加され、矢印で切り替えられる)
+// 選択中のバージョンの内容は `content` などに展開され、会話のコンテキストには常にそれが使用されます。
+// `versions` 内の選択中のバージョンは、別のバージョンに切り替えるときに展開された最新の内容で更新します。
+// (選択中のバージョンへの変更 (個別応答の採用・統合の再試行など) は、展開された内容のみに反映されるため)
+
+import type { Message, MessageVersion } from "./db";
+
+/**
+ * バージョンごとに保持する、回答のフィールド
+ */
+const VERSION_FIELDS = [
+  "content",
+  "modelResponses",
+  "failedModels",
+  "stopped",
+  "summarizerMetrics",
+  "integratorMetrics",
+  "integration",
+  "integratorModel",
+  "integrationFailure",
+  "alternateAnswers",
+  "promotedFrom",
+  "debateRounds",
+] as const satisfies readonly (keyof MessageVersion)[];
+
+type VersionAnswer = Pick<MessageVersion, (typeof VERSION_FIELDS)[number]>;
+
+/**
+ * 回答のフィールドのみを取り出します。(値のないフィールドも undefined として含めるため、展開すると上書きされる)
+ * @param {VersionAnswer} source - メッセージまたはバージョン
+ * @returns {VersionAnswer} 回答のフィールド
+ */
+function pickAnswer(source: VersionAnswer): VersionAnswer {
+  return Object.fromEntries(VERSION_FIELDS.map((field) => [field, source[field]])) as VersionAnswer;
+}
+
+/**
+ * 選択中のバージョンの位置を取得します。
+ * @param {Message} message - アシスタントメッセージ
+ * @returns {number} `getVersions` の結果内の位置
+ */
+export function getActiveVersionIndex(message: Message): number {
+  return message.versions?.length ? (message.activeVersion ?? message.versions.length - 1) : 0;
+}
+
+/**
+ * 回答のバージョンの一覧を作成順に取得します。(再生成していないメッセージは、現在の回答の1件のみ)
+ * @param {Message} message - アシスタントメッセージ
+ * @returns {MessageVersion[]} バージョンの一覧 (選択中のバージョンは展開された最新の内容)
+ */
+export function getVersions(message: Message): MessageVersion[] {
+  if (!message.versions?.length) {
+    return [{ ...pickAnswer(message), createdAt: message.timestamp }];
+  }
+  const active = getActiveVersionIndex(message);
+  return message.versions.map((version, index) =>
+    index === active ? { ...pickAnswer(message), createdAt: version.createdAt } : version,
+  );
+}
+
+/**
+ * 新しい回答をバージョンとして追加し、選択します。それまでの回答は以前のバージョンとして残ります。
+ * @param {Message} message - アシスタントメッセージ
+ * @param {MessageVersion} version - 追加する回答
+ * @returns {Message} 更新後のメッセージ
+ */
+export function addVersion(message: Message, version: MessageVersion): Message {
+  const versions = [...getVersions(message), version];
+  return { ...message, ...pickAnswer(version), versions, activeVersion: versions.length - 1 };
+}
+
+/**
+ * 指定されたバージョンを選択し、その回答を `content` などに展開します。
+ * @param {Message} message - アシスタントメッセージ
+ * @param {number} index - 選択するバージョンの位置
+ * @returns {Message} 更新後のメッセージ
+ * @throws {Error} 指定されたバージョンが存在しない場合
+ */
+export function selectVersion(message: Message, index: number): Message {
+  const versions = getVersions(message);
+  const version = versions[index];
+  if (!version) {
+    throw new Error(`バージョンが見つかりません (index: ${index})`);
+  }
+  return { ...message, ...pickAnswer(version), versions, activeVersion: index };
+}
@@ -0,0 +1,225 @@
+// オフライン開発・テスト用のモックLLM
+// ネットワークに接続せず、決められた応答（エコー・スクリプト）や、意図的な失敗を返します。
+// (環境変数を読み込むため、サーバーサイドでのみ使用してください)
+
+import { APICallError, simulateReadableStream, type LanguageModel } from "ai";
+import { sleep } from "./retry";
+import { estimateTokens } from "./token-estimator";
+
+// #region 型定義
+
+/**
+ * AI SDK の言語モデルの実装 (LanguageModelV2)
+ */
+type LanguageModelImpl = Exclude<LanguageModel, string>;
+type MockCallOptions = Parameters<LanguageModelImpl["doStream"]>[0];
+type MockStreamPart =
+  Awaited<ReturnType<LanguageModelImpl["doStream"]>>["stream"] extends ReadableStream<infer T> ? T : never;
+
+/**
+ * モデル名から決まるモックの動作
+ * - echo: 最後のユーザーメッセージをそのまま返す
+ * - script: 環境変数 `MOCK_LLM_SCRIPT` の応答を順番に返す
+ * - empty: 空の応答を返す
+ * - error: 指定されたHTTPステータスで失敗する (`flaky` の場合は奇数回目の呼び出しのみ失敗する)
+ */
+type MockBehavior =
+  | { kind: "echo" }
+  | { kind: "script" }
+  | { kind: "empty" }
+  | { kind: "error"; status: number; flaky: boolean };
+// #endregion
+
+// #region 定数
+/**
+ * 環境変数 `MOCK_API_KEYS` が未設定の場合に使用するAPIキー
+ */
+export const DEFAULT_MOCK_API_KEYS = ["mock-key-1", "mock-key-2"];
+/**
+ * 環境変数 `MOCK_LLM_SCRIPT` が未設定の場合の応答
+ */
+const DEFAULT_SCRIPT = ["これはモックLLMの応答です。", "これはモックLLMの2つ目の応答です。"];
+// #endregion
+
+/**
+ * モデル名（またはプロバイダー）ごとの呼び出し回数
+ * (スクリプトの応答の順番と、flaky な失敗の判定に使用)
+ */
+const callCounts = new Map<string, number>();
+
+/**
+ * 環境変数 `MOCK_LLM` により、すべてのプロバイダーの呼び出しをモックに置き換えるかを判定します。
+ * @returns {boolean} モックモードの場合は true
+ */
+export function isMockModeEnabled(): boolean {
+  return ["1", "true"].includes((process.env.MOCK_LLM || "").toLowerCase());
+}
+
+/**
+ * モックで使用するAPIキーの配列を環境変数 `MOCK_API_KEYS` から取得します。
+ * @returns {string[]} APIキーの配列
+ */
+export function getMockApiKeys(): string[] {
+  const keys = (process.env.MOCK_API_KEYS || "").split(",").filter((key) => key.trim() !== "");
+  return keys.length > 0 ? keys : DEFAULT_MOCK_API_KEYS;
+}
+
+/**
+ * 数値の環境変数を読み込みます。
+ * @param {string} name - 環境変数名
+ * @param {number} defaultValue - 未設定または不正な場合の値
+ * @returns {number} 値
+ */
+function readNumberEnv(name: string, defaultValue: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : defaultValue;
+}
+
+/**
+ * モデル名からモックの動作を決定します。(例: "mock-echo", "mock-error-429", "mock-flaky-500")
+ * 認識できないモデル名はエコーとして扱います。
+ * @param {string} modelName - モデル名
+ * @returns {MockBehavior} モックの動作
+ */
+function parseMockBehavior(modelName: string): MockBehavior {
+  const name = modelName.replace(/^mock[-:/]?/, "");
+  if (name === "script") return { kind: "script" };
+  if (name === "empty") return { kind: "empty" };
+  const failure = name.match(/^(error|flaky)-(\d{3})$/);
+  if (failure) {
+    return { kind: "error", status: Number(failure[2]), flaky: failure[1] === "flaky" };
+  }
+  return { kind: "echo" };
+}
+
+/**
+ * プロンプトから最後のユーザーメッセージの本文を取り出します。
+ * @param {MockCallOptions["prompt"]} prompt - AI SDK から渡されたプロンプト
+ * @returns {string} 最後のユーザーメッセージの本文
+ */
+function getLastUserText(prompt: MockCallOptions["prompt"]): string {
+  const lastUser = prompt.findLast((message) => message.role === "user");
+  if (!lastUser) return "";
+  return lastUser.content.map((part) => (part.type === "text" ? part.text : "")).join("");
+}
+
+/**
+ * 意図的な失敗を表す APICallError を作成します。
+ * (実際のプロバイダーと同様に statusCode と responseHeaders を持つため、キープールやリトライ処理をそのまま検証できます)
+ * @param {number} status - HTTPステータスコード
+ * @param {string} modelId - モデル名
+ * @returns {APICallError} エラー
+ */
+function createMockError(status: number, modelId: string): APICallError {
+  const retryAfterSeconds = readNumberEnv("MOCK_LLM_RETRY_AFTER_SECONDS", 2);
+  return new APICallError({
+    message: `モックLLMの意図的な失敗です (${modelId}, HTTP ${status})`,
+    url: `mock://${modelId}`,
+    requestBodyValues: {},
+    statusCode: status,
+    responseHeaders: status === 429 ? { "retry-after": String(retryAfterSeconds) } : undefined,
+    isRetryable: status === 429 || status >= 500,
+  });
+}
+
+/**
+ * テキストを一定の文字数ごとのチャンクに分割します。
+ * @param {string} text - 対象のテキスト
+ * @param {number} size - 1チャンクあたりの文字数
+ * @returns {string[]} チャンクの配列
+ */
+function splitIntoChunks(text: string, size: number): string[] {
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    chunks.push(text.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * モックの言語モデルを作成します。
+ * 動作はモデル名で、応答の速さや失敗の詳細は環境変数で設定します。
+ * - `MOCK_LLM_LATENCY_MS`: 最初のチャンクまでの待機時間 (デフォルト: 200)
+ * - `MOCK_LLM_CHUNK_DELAY_MS`: チャンク間の待機時間 (デフォルト: 20)
+ * - `MOCK_LLM_CHUNK_SIZE`: 1チャンクあたりの文字数 (デフォルト: 12)
+ * - `MOCK_LLM_SCRIPT`: "mock-script" が返す応答のJSON配列 (順番に繰り返す)
+ * - `MOCK_LLM_RETRY_AFTER_SECONDS`: 429エラーの Retry-After (デフォルト: 2)
+ * - `MOCK_REVOKED_KEYS`: 常に401を返すAPIキー (カンマ区切り。キーの無効化の検証用)
+ * @param {string} modelName - モデル名 (例: "mock-echo", "mock-error-429")
+ * @param {string} apiKey - 使用するAPIキー
+ * @returns {LanguageModel} streamText に渡す言語モデル
+ */
+export function createMockLanguageModel(modelName: string, apiKey: string): LanguageModel {
+  const behavior = parseMockBehavior(modelName);
+
+  return {
+    specificationVersion: "v2",
+    provider: "mock",
+    modelId: modelName,
+    supportedUrls: {},
+    doGenerate: async () => {
+      throw new Error("モックLLMはストリーミング呼び出しのみに対応しています");
+    },
+    doStream: async (options: MockCallOptions) => {
+      const callCount = (callCounts.get(modelName) ?? 0) + 1;
+      callCounts.set(modelName, callCount);
+
+      // ネットワークの遅延を再現する (中断された場合は AbortError)
+      await sleep(readNumberEnv("MOCK_LLM_LATENCY_MS", 200), options.abortSignal);
+
+      const revokedKeys = (process.env.MOCK_REVOKED_KEYS || "").split(",").map((key) => key.trim());
+      if (revokedKeys.includes(apiKey)) {
+        throw createMockError(401, modelName);
+      }
+      if (behavior.kind === "error" && (!behavior.flaky || callCount % 2 === 1)) {
+        throw createMockError(behavior.status, modelName);
+      }
+
+      let text: string;
+      if (behavior.kind === "empty") {
+        text = "";
+      } else if (behavior.kind === "script") {
+        let script = DEFAULT_SCRIPT;
+        try {
+          script = process.env.MOCK_LLM_SCRIPT ? JSON.parse(process.env.MOCK_LLM_SCRIPT) : DEFAULT_SCRIPT;
+        } catch {
+          console.warn(
+            "[MockLLM] MOCK_LLM_SCRIPT をJSON配列として解析できませんでした。デフォルトの応答を使用します。",
+          );
+        }
+        text = script[(callCount - 1) % script.length];
+      } else {
+        text = `（${modelName} のモック応答 / ${options.prompt.length}件のメッセージを受信）\n\n${getLastUserText(options.prompt)}`;
+      }
+
+      const chunks: MockStreamPart[] = [
+        { type: "stream-start", warnings: [] },
+        { type: "text-start", id: "0" },
+        ...splitIntoChunks(text, readNumberEnv("MOCK_LLM_CHUNK_SIZE", 12) || 12).map(
+          (delta): MockStreamPart => ({ type: "text-delta", id: "0", delta }),
+        ),
+        { type: "text-end", id: "0" },
+        {
+          type: "finish",
+          finishReason: "stop",
+          usage: {
+            inputTokens: options.prompt.reduce(
+              (acc, message) => acc + estimateTokens(JSON.stringify(message.content)),
+              0,
+            ),
+            outputTokens: estimateTokens(text),
+            totalTokens: undefined,
+          },
+        },
+      ];
+
+      return {
+        stream: simulateReadableStream({
+          chunks,
+          chunkDelayInMs: readNumberEnv("MOCK_LLM_CHUNK_DELAY_MS", 20),
+        }),
+        response: { headers: {} },
+      };
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { getContextBudgetNotice, getModelSpec, validateMaxTokens } from "./model-catalog";
+
+describe("getModelSpec", () => {
+  it("Cerebras のカタログにあるモデルの情報を返す", () => {
+    expect(getModelSpec({ provider: "cerebras", modelName: "llama3.1-8b" })).toMatchObject({ maxOutputTokens: 8192 });
+  });
+
+  it("カタログにないモデル・プロバイダーは undefined を返す", () => {
+    expect(getModelSpec({ provider: "cerebras", modelName: "unknown-model" })).toBeUndefined();
+    expect(getModelSpec({ provider: "mock", modelName: "llama3.1-8b" })).toBeUndefined();
+  });
+});
+
+describe("validateMaxTokens", () => {
+  it("最大トークン数がモデルの上限を超える場合はエラーメッセージを返す", () => {
+    expect(validateMaxTokens({ provider: "cerebras", modelName: "llama3.1-8b", maxTokens: 8193 })).toContain("8192");
+    expect(validateMaxTokens({ provider: "cerebras", modelName: "llama3.1-8b", maxTokens: 8192 })).toBeNull();
+  });
+
+  it("カタログにないモデルは検証しない", () => {
+    expect(validateMaxTokens({ provider: "cerebras", modelName: "unknown-model", maxTokens: 999999 })).toBeNull();
+  });
+});
+
+describe("getContextBudgetNotice", () => {
+  it("カタログにないモデルは、履歴の省略が行われないことを通知する", () => {
+    expect(getContextBudgetNotice({ provider: "openai", modelName: "gpt-4o" })).toContain("カタログにないモデル");
+    expect(getContextBudgetNotice({ provider: "cerebras", modelName: "llama3.1-8b" })).toBeNull();
+    expect(getContextBudgetNotice({ provider: "mock", modelName: "mock-fast" })).toBeNull();
+  });
+});
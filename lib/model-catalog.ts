@@ -0,0 +1,57 @@
+// モデルカタログ（lib/constants.ts の CEREBRAS_MODEL_CATALOG）の参照と、設定値の検証
+
+import type { LlmModelConfig } from "./chat-contract";
+import { CEREBRAS_MODEL_CATALOG, DEFAULT_CEREBRAS_MODELS, MOCK_MODEL_NAMES, type ModelSpec } from "./constants";
+
+/**
+ * 設定画面の「モデル名」ComboBoxでサジェストするモデル名を取得します。
+ * (サジェストがないプロバイダーはカスタム入力のみ)
+ * @param {string} provider - プロバイダーID
+ * @returns {string[]} モデル名の配列
+ */
+export function getSuggestedModelNames(provider: string): string[] {
+  if (provider === "cerebras") return DEFAULT_CEREBRAS_MODELS;
+  if (provider === "mock") return MOCK_MODEL_NAMES;
+  return [];
+}
+
+/**
+ * モデル設定に対応するカタログの情報を取得します。
+ * @param {Pick<LlmModelConfig, "provider" | "modelName">} config - モデル設定
+ * @returns {ModelSpec | undefined} カタログの情報 (カタログにないモデル・プロバイダーの場合は undefined)
+ */
+export function getModelSpec(config: Pick<LlmModelConfig, "provider" | "modelName">): ModelSpec | undefined {
+  if (config.provider !== "cerebras") {
+    return undefined; // Cerebras以外のプロバイダーはカタログを持たない
+  }
+  return CEREBRAS_MODEL_CATALOG.find((model) => model.name === config.modelName);
+}
+
+/**
+ * 最大トークン数がモデルの上限を超えていないかを検証します。
+ * @param {Pick<LlmModelConfig, "provider" | "modelName" | "maxTokens">} config - モデル設定
+ * @returns {string | null} 上限を超えている場合はエラーメッセージ。問題ない場合（またはカタログにないモデル）は null
+ */
+export function validateMaxTokens(config: Pick<LlmModelConfig, "provider" | "modelName" | "maxTokens">): string | null {
+  const spec = getModelSpec(config);
+  if (!spec) {
+    return null;
+  }
+  if (config.maxTokens > spec.maxOutputTokens) {
+    return `${spec.name} の最大出力トークン数は ${spec.maxOutputTokens} です（超過分は呼び出し時に切り詰められます）`;
+  }
+  return null;
+}
+
+/**
+ * カタログにないモデルについて、履歴をコンテキストウィンドウに収める処理が行われないことの注意を取得します。
+ * (コンテキストウィンドウが不明なため、履歴は省略せずにそのまま送信される: lib/context-budget.ts)
+ * @param {Pick<LlmModelConfig, "provider" | "modelName">} config - モデル設定
+ * @returns {string | null} 注意のメッセージ。カタログにあるモデル（またはモック・モデル名が未入力）の場合は null
+ */
+export function getContextBudgetNotice(config: Pick<LlmModelConfig, "provider" | "modelName">): string | null {
+  if (config.provider === "mock" || !config.modelName.trim() || getModelSpec(config)) {
+    return null;
+  }
+  return "カタログにないモデルのため、コンテキストウィンドウに合わせた履歴の省略は行われません（長い会話ではモデルの上限を超える場合があります）";
+}
@@ -0,0 +1,46 @@
+// LLM呼び出しのリトライ間隔（指数バックオフ）に関するユーティリティ
+
+/**
+ * バックオフの初回待機時間 (ミリ秒)
+ */
+const BACKOFF_BASE_MS = 500;
+/**
+ * バックオフの最大待機時間 (ミリ秒)
+ */
+const BACKOFF_MAX_MS = 8000;
+
+/**
+ * 失敗回数に応じたリトライまでの待機時間を計算します。
+ * 指数的に増加させた上限値の半分〜全体の範囲でランダムに揺らぎ（ジッター）を加え、
+ * 同時に失敗したリクエストが一斉に再試行されるのを防ぎます。
+ * @param {number} failedAttempts - これまでに失敗した回数 (1以上)
+ * @returns {number} 待機時間 (ミリ秒)
+ */
+export function computeBackoffDelay(failedAttempts: number): number {
+  const exponential = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** Math.max(0, failedAttempts - 1));
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+/**
+ * 指定時間だけ待機します。シグナルが中断された場合は即座に AbortError で reject されます。
+ * @param {number} ms - 待機時間 (ミリ秒)
+ * @param {AbortSignal} [signal] - (オプション) 待機を中断するためのシグナル
+ * @returns {Promise<void>}
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import type { Message } from "./db";
+import { createSnippet, getQueryTokens, matchesQuery, toSearchRecord, tokenize } from "./search-index";
+
+/**
+ * 抜粋を文字列にします。(強調部分は [] で囲む)
+ */
+const render = (content: string, query: string) =>
+  createSnippet(content, query)
+    .map((segment) => (segment.highlighted ? `[${segment.text}]` : segment.text))
+    .join("");
+
+describe("tokenize", () => {
+  it("日本語は空白がなくても 1-gram と 2-gram に分割する", () => {
+    expect(tokenize("東京都")).toEqual(["東", "京", "都", "東京", "京都"]);
+  });
+
+  it("英語は大文字・小文字と全角・半角を区別せず、単語をまたぐトークンは作らない", () => {
+    expect(tokenize("Ａb c")).toEqual(["a", "b", "ab", "c"]);
+  });
+});
+
+describe("getQueryTokens", () => {
+  it("2文字以上の単語は 2-gram、1文字の単語はその文字をトークンとする", () => {
+    expect(getQueryTokens("京都 猫")).toEqual(["京都", "猫"]);
+    expect(getQueryTokens("  ")).toEqual([]);
+  });
+
+  it("本文のトークンに検索語のトークンがすべて含まれる", () => {
+    const tokens = new Set(tokenize("今日は京都に行きました"));
+    expect(getQueryTokens("京都に").every((token) => tokens.has(token))).toBe(true);
+  });
+});
+
+describe("matchesQuery", () => {
+  it("本文に検索語のすべての単語が連続して含まれる場合のみ一致する", () => {
+    expect(matchesQuery("TypeScript の型推論", "typescript 型推論")).toBe(true);
+    // 2-gram はすべて含まれるが、連続していない
+    expect(matchesQuery("京都と都市", "京都市")).toBe(false);
+  });
+});
+
+describe("toSearchRecord", () => {
+  const message: Message = {
+    id: "msg_1",
+    role: "user",
+    content: "こんにちは",
+    timestamp: 1,
+    conversationId: "conv_1",
+  };
+
+  it("メッセージの本文のトークンを記録する", () => {
+    expect(toSearchRecord(message)).toMatchObject({ messageId: "msg_1", conversationId: "conv_1" });
+  });
+
+  it("要約メッセージと本文のないメッセージは検索対象外とする", () => {
+    expect(toSearchRecord({ ...message, role: "system" })).toBeNull();
+    expect(toSearchRecord({ ...message, content: "" })).toBeNull();
+  });
+});
+
+describe("createSnippet", () => {
+  it("一致した部分を元の表記のまま強調する", () => {
+    expect(render("Next.js と ＲＥＡＣＴ を使う", "react")).toBe("Next.js と [ＲＥＡＣＴ] を使う");
+  });
+
+  it("最初の一致の前後を抜粋し、省略した側に … を付ける", () => {
+    const content = `${"あ".repeat(100)}検索語${"い".repeat(100)}`;
+    const snippet = render(content, "検索語");
+    expect(snippet.startsWith("…あ")).toBe(true);
+    expect(snippet).toContain("[検索語]");
+    expect(snippet.endsWith("い…")).toBe(true);
+  });
+});
@@ -0,0 +1,193 @@
+// 全会話を横断するメッセージの全文検索 (n-gram インデックス)
+// 日本語は単語の区切りに空白を使わないため、文字の 1-gram と 2-gram をトークンとしてインデックスします。
+// 検索語のトークンをすべて含むメッセージを候補とし、本文に検索語が実際に含まれるかを確認して結果とします。
+// (インデックスは lib/db.ts のメッセージの追加・更新と同じトランザクションで更新されます)
+
+import type { Message } from "./chat-contract";
+
+/**
+ * 検索インデックスのレコード (メッセージごとに1件)
+ */
+export interface SearchRecord {
+  messageId: string;
+  conversationId: string;
+  /** 本文の n-gram トークン (重複なし) */
+  tokens: string[];
+}
+
+/**
+ * 検索結果の抜粋の一部分
+ */
+export interface SnippetSegment {
+  text: string;
+  /** 検索語に一致した部分か */
+  highlighted: boolean;
+}
+
+/**
+ * 抜粋に含める、最初に一致した位置より前の文字数 (後ろはその2倍)
+ */
+const SNIPPET_CONTEXT_LENGTH = 40;
+
+/**
+ * 文字と文字の間で区切る (単語の一部とみなさない) 文字
+ */
+const SEPARATOR_PATTERN = /[^\p{L}\p{N}]+/u;
+
+/**
+ * 検索用に1文字を正規化します。(全角・半角の統一と、大文字・小文字の同一視)
+ * @param {string} char - 1文字 (コードポイント単位)
+ * @returns {string} 正規化した文字列
+ */
+function normalizeChar(char: string): string {
+  return char.normalize("NFKC").toLowerCase();
+}
+
+/**
+ * 検索用に文字列を正規化します。(抜粋で元の文字列の位置と対応づけられるよう、1文字ずつ正規化する)
+ * @param {string} text - 対象の文字列
+ * @returns {string} 正規化した文字列
+ */
+function normalize(text: string): string {
+  return [...text].map(normalizeChar).join("");
+}
+
+/**
+ * 検索用に文字列を正規化し、正規化後の各位置に対応する元の文字列の範囲を記録します。
+ * @param {string} text - 元の文字列
+ * @returns {{ normalized: string; starts: number[]; ends: number[] }} 正規化した文字列と、各位置の元の文字列での開始・終了位置
+ */
+function normalizeWithOffsets(text: string): { normalized: string; starts: number[]; ends: number[] } {
+  let normalized = "";
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let offset = 0;
+  for (const char of text) {
+    const normalizedChar = normalizeChar(char);
+    normalized += normalizedChar;
+    for (let i = 0; i < normalizedChar.length; i++) {
+      starts.push(offset);
+      ends.push(offset + char.length);
+    }
+    offset += char.length;
+  }
+  return { normalized, starts, ends };
+}
+
+/**
+ * 文字列を正規化し、区切り文字で単語 (空白を含まない連続した文字列) に分割します。
+ * @param {string} text - 対象の文字列
+ * @returns {string[]} 正規化した単語
+ */
+export function splitTerms(text: string): string[] {
+  return normalize(text)
+    .split(SEPARATOR_PATTERN)
+    .filter((term) => term.length > 0);
+}
+
+/**
+ * 単語の n-gram トークン (1-gram と 2-gram) を作成します。
+ * @param {string} term - 正規化した単語
+ * @returns {string[]} トークン
+ */
+function termTokens(term: string): string[] {
+  const chars = [...term];
+  return [...chars, ...chars.slice(1).map((char, index) => chars[index] + char)];
+}
+
+/**
+ * 文字列をインデックス用のトークンに分割します。
+ * @param {string} text - 対象の文字列
+ * @returns {string[]} 重複のないトークン
+ */
+export function tokenize(text: string): string[] {
+  return [...new Set(splitTerms(text).flatMap(termTokens))];
+}
+
+/**
+ * 検索語から、インデックスを引くためのトークンを作成します。
+ * (2文字以上の単語は 2-gram のみを使い、1文字の単語はその文字で引く)
+ * @param {string} query - 検索語 (空白区切りで複数指定した場合はすべてを含むメッセージを検索する)
+ * @returns {string[]} 重複のないトークン (検索語が空の場合は空)
+ */
+export function getQueryTokens(query: string): string[] {
+  return [
+    ...new Set(
+      splitTerms(query).flatMap((term) => {
+        const tokens = termTokens(term);
+        return tokens.length > 1 ? tokens.slice([...term].length) : tokens;
+      }),
+    ),
+  ];
+}
+
+/**
+ * メッセージの検索インデックスのレコードを作成します。
+ * @param {Message} message - 対象のメッセージ
+ * @returns {SearchRecord | null} レコード (要約メッセージ、本文のないメッセージは検索対象外のため null)
+ */
+export function toSearchRecord(message: Message): SearchRecord | null {
+  if (message.role === "system") return null;
+  const tokens = tokenize(message.content);
+  if (tokens.length === 0) return null;
+  return { messageId: message.id, conversationId: message.conversationId, tokens };
+}
+
+/**
+ * 本文に検索語のすべての単語が含まれるかを判定します。(インデックスの候補の確認に使用)
+ * @param {string} content - メッセージの本文
+ * @param {string} query - 検索語
+ * @returns {boolean} すべての単語が含まれる場合は true
+ */
+export function matchesQuery(content: string, query: string): boolean {
+  const terms = splitTerms(query);
+  const normalized = normalize(content);
+  return terms.length > 0 && terms.every((term) => normalized.includes(term));
+}
+
+/**
+ * 本文のうち、最初に検索語が一致した位置の前後を抜粋し、一致した部分を強調します。
+ * @param {string} content - メッセージの本文
+ * @param {string} query - 検索語
+ * @returns {SnippetSegment[]} 抜粋 (前後を省略した場合は "…" を付ける)
+ */
+export function createSnippet(content: string, query: string): SnippetSegment[] {
+  const terms = splitTerms(query);
+  const { normalized, starts, ends } = normalizeWithOffsets(content);
+
+  // 一致した範囲 (正規化後の位置) を、元の文字列の範囲に変換して列挙する
+  const matches: { start: number; end: number }[] = [];
+  for (const term of terms) {
+    for (let index = normalized.indexOf(term); index !== -1; index = normalized.indexOf(term, index + 1)) {
+      matches.push({ start: starts[index], end: ends[index + term.length - 1] });
+    }
+  }
+  matches.sort((a, b) => a.start - b.start);
+
+  const first = matches[0]?.start ?? 0;
+  const windowStart = Math.max(0, first - SNIPPET_CONTEXT_LENGTH);
+  const windowEnd = Math.min(content.length, first + SNIPPET_CONTEXT_LENGTH * 2);
+
+  const segments: SnippetSegment[] = [];
+  const pushText = (text: string, highlighted: boolean) => {
+    // 改行などの連続する空白は1つにまとめる
+    const collapsed = text.replace(/\s+/g, " ");
+    if (collapsed) segments.push({ text: collapsed, highlighted });
+  };
+
+  let position = windowStart;
+  for (const match of matches) {
+    // 抜粋の範囲外、または直前の一致と重なる部分は強調しない
+    if (match.end <= position || match.start >= windowEnd) continue;
+    const start = Math.max(match.start, position);
+    const end = Math.min(match.end, windowEnd);
+    pushText(content.slice(position, start), false);
+    pushText(content.slice(start, end), true);
+    position = end;
+  }
+  pushText(content.slice(position, windowEnd), false);
+
+  if (windowStart > 0) segments.unshift({ text: "…", highlighted: false });
+  if (windowEnd < content.length) segments.push({ text: "…", highlighted: false });
+  return segments;
+}
@@ -0,0 +1,45 @@
+// 会話履歴の自動要約ポリシー（いつ・どこまで要約するか）の判定
+
+import type { Message, SummarizationPolicy } from "./chat-contract";
+import { estimateMessagesTokens } from "./token-estimator";
+
+/**
+ * 会話履歴がポリシーの閾値を超え、要約が必要かを判定します。
+ * @param {Message[]} messages - 判定対象の会話履歴 (最新のユーザーメッセージを含む)
+ * @param {SummarizationPolicy} policy - 要約ポリシー
+ * @returns {boolean} 要約が必要な場合は true
+ */
+export function isSummarizationTriggered(messages: Message[], policy: SummarizationPolicy): boolean {
+  switch (policy.trigger) {
+    case "off":
+      return false;
+    case "message-count":
+      return messages.length > policy.threshold;
+    case "characters":
+      return messages.reduce((acc, m) => acc + m.content.length, 0) > policy.threshold;
+    case "tokens":
+      return estimateMessagesTokens(messages) > policy.threshold;
+  }
+}
+
+/**
+ * 会話履歴を、要約する古い部分と、要約せずに残す直近のやり取りに分割します。
+ * やり取りはユーザーメッセージ単位で数えます (ユーザーの質問とそれに続く回答で1つ)。
+ * @param {Message[]} history - 会話履歴 (最新のユーザーメッセージを含まない)
+ * @param {number} keepRecentTurns - そのまま残す直近のやり取りの数
+ * @returns {{ toSummarize: Message[]; recent: Message[] }} 要約する部分と、残す部分
+ */
+export function splitRecentTurns(
+  history: Message[],
+  keepRecentTurns: number,
+): { toSummarize: Message[]; recent: Message[] } {
+  let splitIndex = history.length;
+  let turns = 0;
+  while (turns < keepRecentTurns && splitIndex > 0) {
+    splitIndex--;
+    if (history[splitIndex].role === "user") {
+      turns++;
+    }
+  }
+  return { toSummarize: history.slice(0, splitIndex), recent: history.slice(splitIndex) };
+}
@@ -0,0 +1,37 @@
+// トークナイザーを使用せずに、テキストのトークン数をおおまかに見積もるためのユーティリティ
+// (モデルごとに正確なトークナイザーが異なるため、要約の判定やコンテキストの予算など、余裕を持たせた比較にのみ使用します)
+
+// #region 定数
+/**
+ * 日本語・中国語・韓国語などの文字 (1文字あたり約1トークンとして数える)
+ */
+const CJK_CHAR_PATTERN = /[぀-ヿ㐀-䶿一-鿿가-힯豈-﫿＀-￯]/g;
+/**
+ * CJK以外の文字 (英数字・記号など) 1トークンあたりの平均文字数
+ */
+const CHARS_PER_TOKEN = 4;
+/**
+ * 1メッセージあたりのオーバーヘッド (ロールや区切りのトークン)
+ */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// #endregion
+
+/**
+ * テキストのトークン数を見積もります。
+ * @param {string} text - 対象のテキスト
+ * @returns {number} 推定トークン数
+ */
+export function estimateTokens(text: string): number {
+  const cjkCount = text.match(CJK_CHAR_PATTERN)?.length ?? 0;
+  const otherCount = text.length - cjkCount;
+  return cjkCount + Math.ceil(otherCount / CHARS_PER_TOKEN);
+}
+
+/**
+ * メッセージ配列全体のトークン数を見積もります。
+ * @param {{ content: string }[]} messages - 対象のメッセージ配列
+ * @returns {number} 推定トークン数
+ */
+export function estimateMessagesTokens(messages: { content: string }[]): number {
+  return messages.reduce((acc, m) => acc + estimateTokens(m.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+}